@@ -33,7 +33,8 @@ jest.mock('../../../src/core/services/ServiceFactory', () => ({
       syncPlatform: jest.fn().mockResolvedValue(
         { platform: 'platform1', success: true, message: 'Synced' }
       ),
-      getPlatforms: jest.fn().mockReturnValue(['platform1', 'platform2'])
+      getPlatforms: jest.fn().mockReturnValue(['platform1', 'platform2']),
+      getSyncTargets: jest.fn().mockResolvedValue([])
     })
   }
 }));
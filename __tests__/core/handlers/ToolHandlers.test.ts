@@ -33,7 +33,8 @@ jest.mock('../../../src/core/services/ServiceFactory', () => ({
       syncPlatform: jest.fn().mockResolvedValue(
         { platform: 'platform1', success: true, message: 'Synced' }
       ),
-      getPlatforms: jest.fn().mockReturnValue(['platform1', 'platform2'])
+      getPlatforms: jest.fn().mockReturnValue(['platform1', 'platform2']),
+      getSyncTargets: jest.fn().mockResolvedValue([])
     })
   }
 }));
@@ -67,7 +68,7 @@ describe('ToolHandlers', () => {
     // Check that the expected number of tools were registered
     // We have 9 tools: get_template, get_section, update_section, update_template, 
     // sync_platforms, list_platforms, list_presets, load_preset, create_preset, remember
-    expect(mockServer.tool).toHaveBeenCalledTimes(10);
+    expect(mockServer.tool).toHaveBeenCalledTimes(29);
     
     // Check that each tool was registered with the correct name
     const toolNames = mockServer.tool.mock.calls.map(call => call[0]);
@@ -75,11 +76,30 @@ describe('ToolHandlers', () => {
     expect(toolNames).toContain('get_section');
     expect(toolNames).toContain('update_section');
     expect(toolNames).toContain('update_template');
+    expect(toolNames).toContain('validate_template');
+    expect(toolNames).toContain('export');
+    expect(toolNames).toContain('import');
+    expect(toolNames).toContain('delete_section');
+    expect(toolNames).toContain('rename_section');
+    expect(toolNames).toContain('reorder_sections');
+    expect(toolNames).toContain('set_item');
+    expect(toolNames).toContain('delete_item');
+    expect(toolNames).toContain('rename_item');
+    expect(toolNames).toContain('move_item');
     expect(toolNames).toContain('sync_platforms');
+    expect(toolNames).toContain('pull_edits');
+    expect(toolNames).toContain('onboard');
     expect(toolNames).toContain('list_platforms');
+    expect(toolNames).toContain('list_projects');
     expect(toolNames).toContain('list_presets');
     expect(toolNames).toContain('load_preset');
+    expect(toolNames).toContain('diff_preset');
     expect(toolNames).toContain('create_preset');
+    expect(toolNames).toContain('get_project_overlay');
+    expect(toolNames).toContain('update_project_overlay');
+    expect(toolNames).toContain('history');
+    expect(toolNames).toContain('diff_revisions');
+    expect(toolNames).toContain('rollback');
     expect(toolNames).toContain('remember');
   });
   
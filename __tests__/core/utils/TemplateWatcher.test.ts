@@ -0,0 +1,106 @@
+/**
+ * Tests for TemplateWatcher
+ */
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TemplateWatcher } from '../../../src/core/utils/TemplateWatcher';
+import { ServiceFactory } from '../../../src/core/services/ServiceFactory';
+import { parseTemplate } from '../../../src/templateParser';
+import { syncState, hashContent } from '../../../src/utils/syncState';
+import { MemoryTemplate } from '../../../src/types';
+
+describe('TemplateWatcher', () => {
+  let tempDir: string;
+  let templatePath: string;
+  let currentTemplate: MemoryTemplate;
+  let updateTemplate: jest.Mock<(content: string) => Promise<boolean>>;
+  let syncAll: jest.Mock<(content: string) => Promise<any[]>>;
+
+  const validTemplate = '# myAI Memory\n\n# User Information\n-~- Name: John Doe\n';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-watch-'));
+    templatePath = path.join(tempDir, 'template.md');
+
+    currentTemplate = { sections: [] };
+    updateTemplate = jest.fn(async (content: string) => {
+      currentTemplate = parseTemplate(content);
+      return true;
+    });
+    syncAll = jest.fn(async () => [{ platform: 'claude-code', success: true, message: 'ok' }]);
+
+    jest.spyOn(ServiceFactory, 'getTemplateService').mockReturnValue({
+      getTemplate: () => currentTemplate,
+      updateTemplate
+    } as any);
+    jest.spyOn(ServiceFactory, 'getPlatformService').mockReturnValue({ syncAll } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should load a changed template and sync it', async () => {
+    await fs.writeFile(templatePath, validTemplate, 'utf-8');
+    const watcher = new TemplateWatcher({ files: [templatePath], syncIntervalMs: 0 });
+
+    const results = await watcher.handleChange(templatePath);
+
+    expect(updateTemplate).toHaveBeenCalledWith(expect.stringContaining('-~- Name: John Doe'), { source: 'watch:template.md' });
+    expect(syncAll).toHaveBeenCalledTimes(1);
+    expect(syncAll.mock.calls[0][0]).toContain('-~- Name: John Doe');
+    expect(results).toHaveLength(1);
+  });
+
+  test('should reject templates that are not valid', async () => {
+    await fs.writeFile(templatePath, 'just some notes\n', 'utf-8');
+    const watcher = new TemplateWatcher({ files: [templatePath], syncIntervalMs: 0 });
+
+    expect(await watcher.handleChange(templatePath)).toBeNull();
+    expect(updateTemplate).not.toHaveBeenCalled();
+    expect(syncAll).not.toHaveBeenCalled();
+  });
+
+  test('should ignore the files a sync wrote, as recorded in the sync ledger', async () => {
+    const synced = `<!-- BEGIN myAI Memory -->\n${validTemplate}<!-- END myAI Memory -->\n`;
+    await fs.writeFile(templatePath, synced, 'utf-8');
+    jest.spyOn(syncState, 'get').mockResolvedValue({ memory: validTemplate.trim(), hash: hashContent(synced), syncedAt: new Date().toISOString() });
+    const watcher = new TemplateWatcher({ files: [templatePath], syncIntervalMs: 0 });
+
+    expect(await watcher.handleChange(templatePath)).toBeNull();
+    expect(updateTemplate).not.toHaveBeenCalled();
+    expect(syncAll).not.toHaveBeenCalled();
+  });
+
+  test('should ignore changes that leave the memory as it is', async () => {
+    currentTemplate = parseTemplate(validTemplate);
+    await fs.writeFile(templatePath, `<!-- BEGIN myAI Memory -->\n${validTemplate}<!-- END myAI Memory -->\n\nMy notes\n`, 'utf-8');
+    const watcher = new TemplateWatcher({ files: [templatePath], syncIntervalMs: 0 });
+
+    expect(await watcher.handleChange(templatePath)).toBeNull();
+    expect(syncAll).not.toHaveBeenCalled();
+  });
+
+  test('should debounce a burst of writes into a single sync', async () => {
+    await fs.writeFile(templatePath, validTemplate, 'utf-8');
+    const watcher = new TemplateWatcher({ files: [templatePath], debounceMs: 100, syncIntervalMs: 0 });
+    watcher.start();
+
+    try {
+      for (const name of ['Jane', 'Jill', 'Joan']) {
+        await fs.writeFile(templatePath, validTemplate.replace('John Doe', name), 'utf-8');
+      }
+      await new Promise(resolve => setTimeout(resolve, 600));
+    } finally {
+      watcher.stop();
+    }
+
+    expect(updateTemplate).toHaveBeenCalledTimes(1);
+    expect(updateTemplate.mock.calls[0][0]).toContain('Joan');
+    expect(syncAll).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,9 @@
-import { PlatformSyncManager, ClaudeCodeSyncer, WindsurfSyncer } from '../src/platformSync.js';
+import { jest } from '@jest/globals';
+import { syncState } from '../src/utils/syncState.js';
 import fs from 'fs/promises';
+import { promises as diskFs } from 'fs';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
 import path from 'path';
 
 // Mock fs/promises module
@@ -33,6 +37,25 @@ const mockConfig = {
 };
 jest.mock('../src/config.js', () => mockConfig, { virtual: true });
 
+// Syncers also write to files in the home directory, so each test gets an empty one instead
+let testHome = os.tmpdir();
+const homedir = () => testHome;
+jest.unstable_mockModule('os', () => ({ ...os, default: { ...os, homedir }, homedir }));
+
+const { PlatformSyncManager, ClaudeCodeSyncer, WindsurfSyncer, AgentsMdSyncer } = await import('../src/platformSync.js');
+
+beforeEach(async () => {
+  testHome = await diskFs.mkdtemp(path.join(os.tmpdir(), 'myai-home-'));
+  // Keep the synced targets out of the real sync ledger
+  jest.spyOn(syncState, 'get').mockResolvedValue(null);
+  jest.spyOn(syncState, 'record').mockResolvedValue(undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await diskFs.rm(testHome, { recursive: true, force: true });
+});
+
 describe('Platform Syncers', () => {
   const templateContent = '# myAI Memory\n\n# Test Section\n## Test Description\n-~- TestKey: TestValue';
   
@@ -184,7 +207,8 @@ describe('Platform Syncers', () => {
   describe('PlatformSyncManager', () => {
     let mockClaudeCodeSyncer: any;
     let mockWindsurfSyncer: any;
-    let syncManager: PlatformSyncManager;
+    let mockCursorSyncer: any;
+    let syncManager: InstanceType<typeof PlatformSyncManager>;
     
     beforeEach(() => {
       // Create mock syncers with spies
@@ -204,10 +228,21 @@ describe('Platform Syncers', () => {
         })
       };
       
+      mockCursorSyncer = {
+        sync: jest.fn().mockResolvedValue({
+          platform: 'cursor',
+          success: true,
+          message: 'Success'
+        })
+      };
+      
       // Create sync manager with mock syncers
       syncManager = new PlatformSyncManager();
       syncManager.setSyncer('claude-code', mockClaudeCodeSyncer);
       syncManager.setSyncer('windsurf', mockWindsurfSyncer);
+      syncManager.setSyncer('cursor', mockCursorSyncer);
+      syncManager.setSyncer('github-copilot', { sync: jest.fn().mockResolvedValue({ platform: 'github-copilot', success: true, message: 'Success' }) });
+      syncManager.setSyncer('agents-md', { sync: jest.fn().mockResolvedValue({ platform: 'agents-md', success: true, message: 'Success' }) });
     });
     
     it('should set and use custom syncers', () => {
@@ -221,9 +256,10 @@ describe('Platform Syncers', () => {
     it('should sync to all platforms', async () => {
       const results = await syncManager.syncAll(templateContent);
       
-      expect(results.length).toBe(2);
-      expect(mockClaudeCodeSyncer.sync).toHaveBeenCalledWith(templateContent);
-      expect(mockWindsurfSyncer.sync).toHaveBeenCalledWith(templateContent);
+      expect(results.length).toBe(5);
+      expect(mockClaudeCodeSyncer.sync).toHaveBeenCalledWith(templateContent, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+      expect(mockWindsurfSyncer.sync).toHaveBeenCalledWith(templateContent, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+      expect(mockCursorSyncer.sync).toHaveBeenCalledWith(templateContent, expect.objectContaining({ signal: expect.any(AbortSignal) }));
     });
     
     it('should sync to a specific platform', async () => {
@@ -231,7 +267,7 @@ describe('Platform Syncers', () => {
       
       expect(result.platform).toBe('claude-code');
       expect(result.success).toBe(true);
-      expect(mockClaudeCodeSyncer.sync).toHaveBeenCalledWith(templateContent);
+      expect(mockClaudeCodeSyncer.sync).toHaveBeenCalledWith(templateContent, expect.objectContaining({ signal: expect.any(AbortSignal) }));
       expect(mockWindsurfSyncer.sync).not.toHaveBeenCalled();
     });
     
@@ -242,4 +278,117 @@ describe('Platform Syncers', () => {
       expect(result.message).toContain('No syncer configured');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Per-file sync results', () => {
+  const templateContent = '# myAI Memory\n\n# Test Section\n## Test Description\n-~- TestKey: TestValue';
+  let tempDir: string;
+
+  const makeProject = async (name: string, agentsContent?: string) => {
+    const projectPath = path.join(tempDir, name);
+    await diskFs.mkdir(projectPath, { recursive: true });
+    if (agentsContent !== undefined) {
+      await diskFs.writeFile(path.join(projectPath, 'AGENTS.md'), agentsContent, 'utf-8');
+    }
+    return path.join(projectPath, 'AGENTS.md');
+  };
+
+  const fileActions = (files: { path: string; action: string }[] = []) =>
+    Object.fromEntries(files.filter(file => path.basename(file.path) === 'AGENTS.md').map(file => [file.path, file.action]));
+
+  beforeEach(async () => {
+    tempDir = await diskFs.mkdtemp(path.join(os.tmpdir(), 'myai-sync-results-'));
+  });
+
+  afterEach(async () => {
+    await diskFs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report the action and path of each file', async () => {
+    const createdPath = await makeProject('fresh');
+    const modifiedPath = await makeProject('notes', 'Project notes\n');
+    const failedPath = await makeProject('broken');
+    // A directory where the file should be can't be read or written
+    await diskFs.mkdir(failedPath);
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent);
+
+    expect(result.success).toBe(true);
+    expect(fileActions(result.files)).toEqual({
+      [failedPath]: 'failed',
+      [createdPath]: 'created',
+      [modifiedPath]: 'modified'
+    });
+    expect(result.files?.find(file => file.path === failedPath)?.error).toBeDefined();
+    expect(await diskFs.readFile(modifiedPath, 'utf-8')).toContain('Project notes');
+    expect(await diskFs.readFile(modifiedPath, 'utf-8')).toContain('-~- TestKey: TestValue');
+  });
+
+  it('should skip files that already have the memory block', async () => {
+    const currentPath = await makeProject('current');
+    await new AgentsMdSyncer(tempDir).sync(templateContent);
+    const written = await diskFs.readFile(currentPath, 'utf-8');
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent);
+
+    expect(result.success).toBe(true);
+    expect(fileActions(result.files)).toEqual({ [currentPath]: 'skipped-unchanged' });
+    expect(result.files?.find(file => file.path === currentPath)?.bytesWritten).toBe(0);
+    expect(await diskFs.readFile(currentPath, 'utf-8')).toBe(written);
+  });
+
+  it('should report what a dry run would do without writing anything', async () => {
+    const createdPath = await makeProject('fresh');
+    const modifiedPath = await makeProject('notes', 'Project notes\n');
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(fileActions(result.files)).toEqual({
+      [createdPath]: 'created',
+      [modifiedPath]: 'modified'
+    });
+    for (const file of result.files ?? []) {
+      expect(file.bytesWritten).toBe(0);
+      expect(file.diff).toBeDefined();
+    }
+    await expect(diskFs.access(createdPath)).rejects.toThrow();
+    await expect(diskFs.access(path.join(tempDir, 'fresh', '.gitignore'))).rejects.toThrow();
+    expect(await diskFs.readFile(modifiedPath, 'utf-8')).toBe('Project notes\n');
+  });
+
+  it('should leave a file tracked by git alone and report it as skipped-tracked', async () => {
+    const trackedPath = await makeProject('tracked', 'Committed instructions\n');
+    const projectPath = path.dirname(trackedPath);
+    execFileSync('git', ['init', '-q'], { cwd: projectPath });
+    execFileSync('git', ['add', 'AGENTS.md'], { cwd: projectPath });
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent);
+
+    expect(fileActions(result.files)).toEqual({ [trackedPath]: 'skipped-tracked' });
+    expect(await diskFs.readFile(trackedPath, 'utf-8')).toBe('Committed instructions\n');
+    await expect(diskFs.access(path.join(projectPath, '.gitignore'))).rejects.toThrow();
+  });
+
+  it('should add a file to .gitignore again when a later pattern negates it', async () => {
+    const agentsPath = await makeProject('negated');
+    const gitignorePath = path.join(path.dirname(agentsPath), '.gitignore');
+    await diskFs.writeFile(gitignorePath, 'AGENTS.md\n!AGENTS.md\n', 'utf-8');
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent);
+
+    expect(result.files?.find(file => file.path === gitignorePath)?.action).toBe('modified');
+    expect(await diskFs.readFile(gitignorePath, 'utf-8')).toBe('AGENTS.md\n!AGENTS.md\n/AGENTS.md\n');
+  });
+
+  it('should not touch .gitignore when the file is already ignored', async () => {
+    const agentsPath = await makeProject('ignored');
+    const gitignorePath = path.join(path.dirname(agentsPath), '.gitignore');
+    await diskFs.writeFile(gitignorePath, '!AGENTS.md\nAGENTS.md\n', 'utf-8');
+
+    const result = await new AgentsMdSyncer(tempDir).sync(templateContent);
+
+    expect(result.files?.some(file => file.path === gitignorePath)).toBe(false);
+    expect(await diskFs.readFile(gitignorePath, 'utf-8')).toBe('!AGENTS.md\nAGENTS.md\n');
+  });
+});
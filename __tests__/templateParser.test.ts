@@ -1,4 +1,13 @@
-import { parseTemplate, generateTemplate, validateTemplate } from '../src/templateParser.js';
+import {
+  parseTemplate,
+  parseTemplateWithWarnings,
+  generateTemplate,
+  generateSection,
+  getPublicTemplate,
+  validateTemplate,
+  mergeTemplates,
+  isSectionTargeted
+} from '../src/templateParser.js';
 import { MemoryTemplate } from '../src/types.js';
 
 describe('templateParser module', () => {
@@ -154,4 +163,279 @@ describe('templateParser module', () => {
       expect(validateTemplate(badTemplate)).toBe(false);
     });
   });
+
+  describe('section platform targeting', () => {
+    const targetedMarkdown = `# myAI Memory
+
+# User Information
+## Personal details
+<!-- exclude-platforms: claude-code, agents-md -->
+-~- Name: John Doe
+
+# Coding Preferences
+<!-- platforms: claude-code, windsurf -->
+-~- Language: TypeScript
+
+# General Response Style
+-~- Style: Concise and friendly
+
+`;
+
+    it('should parse include and exclude rules', () => {
+      const result = parseTemplate(targetedMarkdown);
+
+      expect(result.sections[0].platforms).toEqual({ exclude: ['claude-code', 'agents-md'] });
+      expect(result.sections[1].platforms).toEqual({ include: ['claude-code', 'windsurf'] });
+      expect(result.sections[2].platforms).toBeUndefined();
+    });
+
+    it('should keep the rules when generating the full template', () => {
+      expect(generateTemplate(parseTemplate(targetedMarkdown))).toBe(targetedMarkdown);
+    });
+
+    it('should render only the targeted sections for a platform, without rules', () => {
+      const claudeCodeView = generateTemplate(parseTemplate(targetedMarkdown), 'claude-code');
+
+      expect(claudeCodeView).toBe(`# myAI Memory
+
+# Coding Preferences
+-~- Language: TypeScript
+
+# General Response Style
+-~- Style: Concise and friendly
+
+`);
+    });
+
+    it('should let exclusions win over inclusions', () => {
+      const section = {
+        title: 'Title',
+        description: '',
+        items: [],
+        platforms: { include: ['windsurf' as const], exclude: ['windsurf' as const] }
+      };
+
+      expect(isSectionTargeted(section, 'windsurf')).toBe(false);
+      expect(isSectionTargeted(section, 'cursor')).toBe(false);
+      expect(isSectionTargeted({ ...section, platforms: undefined }, 'cursor')).toBe(true);
+    });
+  });
+
+  describe('private sections and items', () => {
+    const privateMarkdown = `# myAI Memory
+
+# User Information
+-~- Name: John Doe
+-~- Phone: +44 20 7946 0958 <!-- private -->
+
+# Health
+## Only for answering questions directly
+<!-- platforms: claude-code -->
+<!-- private -->
+-~- Allergies: Penicillin
+
+`;
+
+    it('should parse section and item visibility', () => {
+      const result = parseTemplate(privateMarkdown);
+
+      expect(result.sections[0].visibility).toBeUndefined();
+      expect(result.sections[0].items[1]).toEqual({ key: 'Phone', value: '+44 20 7946 0958', visibility: 'private' });
+      expect(result.sections[1].visibility).toBe('private');
+      expect(result.sections[1].platforms).toEqual({ include: ['claude-code'] });
+    });
+
+    it('should keep the markers when generating the full template', () => {
+      expect(generateTemplate(parseTemplate(privateMarkdown))).toBe(privateMarkdown);
+      expect(generateSection(parseTemplate(privateMarkdown).sections[0])).toContain('-~- Phone: +44 20 7946 0958 <!-- private -->');
+    });
+
+    it('should leave private sections and items out of every platform view', () => {
+      const expected = `# myAI Memory
+
+# User Information
+-~- Name: John Doe
+`;
+
+      expect(generateTemplate(parseTemplate(privateMarkdown), 'claude-code')).toBe(expected);
+      expect(generateTemplate(getPublicTemplate(parseTemplate(privateMarkdown)))).toBe(expected);
+    });
+
+    it('should reject an unknown visibility', () => {
+      const template = parseTemplate(privateMarkdown);
+      (template.sections[0] as any).visibility = 'hidden';
+
+      expect(validateTemplate(parseTemplate(privateMarkdown))).toBe(true);
+      expect(validateTemplate(template)).toBe(false);
+    });
+
+    it('should let an overlay make an item private', () => {
+      const overlay = parseTemplate('# User Information\n-~- Name: John Doe <!-- private -->\n');
+
+      const result = mergeTemplates(sampleTemplate, overlay);
+
+      expect(result.sections[0].items[0]).toEqual({ key: 'Name', value: 'John Doe', visibility: 'private' });
+    });
+  });
+
+  describe('structured item values', () => {
+    const structuredMarkdown = `# myAI Memory
+
+# Coding Preferences
+-~- Languages:
+  - TypeScript
+  - Python
+-~- Editor: VS Code
+-~- Team:
+  -~- Alice: Frontend
+  -~- Bob: Backend <!-- private -->
+-~- Cars: Two
+  - Plug in Hybrid
+  - ID.5 Pro Style
+
+`;
+
+    it('should parse list entries and sub-items into the item above them', () => {
+      const [languages, editor, team, cars] = parseTemplate(structuredMarkdown).sections[0].items;
+
+      expect(languages).toEqual({ key: 'Languages', value: '', list: ['TypeScript', 'Python'] });
+      expect(editor).toEqual({ key: 'Editor', value: 'VS Code' });
+      expect(team.items).toEqual([
+        { key: 'Alice', value: 'Frontend' },
+        { key: 'Bob', value: 'Backend', visibility: 'private' }
+      ]);
+      expect(cars).toEqual({ key: 'Cars', value: 'Two', list: ['Plug in Hybrid', 'ID.5 Pro Style'] });
+    });
+
+    it('should round-trip lists and sub-items', () => {
+      const template = parseTemplate(structuredMarkdown);
+
+      expect(generateTemplate(template)).toBe(structuredMarkdown);
+      expect(validateTemplate(template)).toBe(true);
+    });
+
+    it('should leave private sub-items out of platform views', () => {
+      expect(generateTemplate(parseTemplate(structuredMarkdown), 'claude-code')).not.toContain('Bob');
+      expect(generateTemplate(getPublicTemplate(parseTemplate(structuredMarkdown)))).not.toContain('Bob');
+    });
+
+    it('should keep parsing flat items as before', () => {
+      const flat = '# User Information\n-~- Cars: Plug in Hybrid and ID.5 Pro Style\n-~- Empty: \n';
+      const [cars, empty] = parseTemplate(flat).sections[0].items;
+
+      expect(cars).toEqual({ key: 'Cars', value: 'Plug in Hybrid and ID.5 Pro Style' });
+      expect(empty).toEqual({ key: 'Empty', value: '' });
+      expect(generateSection(parseTemplate(flat).sections[0])).toBe(flat);
+    });
+
+    it('should reject sub-items nested more than one level', () => {
+      const template = parseTemplate(structuredMarkdown);
+      template.sections[0].items[2].items![0].items = [{ key: 'Deeper', value: 'Too deep' }];
+
+      expect(validateTemplate(template)).toBe(false);
+    });
+
+    it('should let an overlay replace a list', () => {
+      const base = parseTemplate(structuredMarkdown);
+      const overlay = parseTemplate('# Coding Preferences\n-~- Languages:\n  - Rust\n');
+
+      expect(mergeTemplates(base, overlay).sections[0].items[0].list).toEqual(['Rust']);
+      expect(base.sections[0].items[0].list).toEqual(['TypeScript', 'Python']);
+    });
+  });
+
+  describe('parseTemplateWithWarnings function', () => {
+    it('should report item lines without a key with their line numbers', () => {
+      const markdown = [
+        '# User Information',
+        '-~- Name: John Doe',
+        '-~- No colon here',
+        '-~- Location: New York'
+      ].join('\n');
+      const { template, warnings } = parseTemplateWithWarnings(markdown);
+
+      expect(template).toEqual(parseTemplate(markdown));
+      expect(template.sections[0].items.map(item => item.key)).toEqual(['Name', 'Location']);
+      expect(warnings).toEqual([{
+        severity: 'warning',
+        code: 'malformed-item',
+        message: '"-~- No colon here" has no "Key:", so it is kept as text rather than an item',
+        line: 3,
+        section: 'User Information'
+      }]);
+    });
+
+    it('should not warn about a well-formed template', () => {
+      expect(parseTemplateWithWarnings(sampleMarkdown).warnings).toEqual([]);
+    });
+
+    it('should record the line of each section and item', () => {
+      const { template, lineNumbers } = parseTemplateWithWarnings(sampleMarkdown);
+      const [userInfo] = template.sections;
+
+      expect(lineNumbers.get(userInfo)).toBe(3);
+      expect(lineNumbers.get(userInfo.items[1])).toBe(6);
+    });
+  });
+
+  describe('mergeTemplates function', () => {
+    it('should override matching items and append new ones', () => {
+      const overlay: MemoryTemplate = {
+        sections: [
+          {
+            title: 'general response style',
+            description: '',
+            items: [
+              { key: 'style', value: 'Terse' },
+              { key: 'Package Manager', value: 'pnpm' }
+            ]
+          }
+        ]
+      };
+
+      const result = mergeTemplates(sampleTemplate, overlay);
+
+      expect(result.sections[1]).toEqual({
+        title: 'General Response Style',
+        description: 'Use this in every response',
+        items: [
+          { key: 'Style', value: 'Terse' },
+          { key: 'Package Manager', value: 'pnpm' }
+        ]
+      });
+    });
+
+    it('should append sections the base does not have', () => {
+      const overlay: MemoryTemplate = {
+        sections: [
+          {
+            title: 'Project Rules',
+            description: 'Only for this repository',
+            items: [{ key: 'Generated Code', value: 'Never edit generated/' }]
+          }
+        ]
+      };
+
+      const result = mergeTemplates(sampleTemplate, overlay);
+
+      expect(result.sections).toHaveLength(3);
+      expect(result.sections[2]).toEqual(overlay.sections[0]);
+    });
+
+    it('should not modify the base template', () => {
+      const overlay: MemoryTemplate = {
+        sections: [
+          {
+            title: 'User Information',
+            description: '',
+            items: [{ key: 'Name', value: 'Jane Doe' }]
+          }
+        ]
+      };
+
+      mergeTemplates(sampleTemplate, overlay);
+
+      expect(sampleTemplate.sections[0].items[0].value).toBe('John Doe');
+    });
+  });
 });
\ No newline at end of file
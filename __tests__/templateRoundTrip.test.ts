@@ -0,0 +1,233 @@
+import { parseTemplate, generateTemplate, generateSection } from '../src/templateParser.js';
+import { setTemplateItem, moveTemplateItem, deleteTemplateItem } from '../src/utils/templateEdits.js';
+
+describe('template round trip', () => {
+  // As written by generateTemplate before free text was kept
+  const generatedMarkdown = `# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+-~- Name: John Doe
+-~- Location: New York
+
+# General Response Style
+## Use this in every response
+-~- Style: Concise and friendly
+
+`;
+
+  const handFormattedMarkdown = `# myAI Memory
+
+These preferences are shared by every assistant I use.
+<!-- Edit data/template.md, not the synced copies -->
+
+# User Information
+## Use this information if you need to reference them directly
+Keep this section short.
+
+-~- Name: John Doe
+-~- Phone: +44 20 7946 0958 <!-- private -->
+  Only for emergencies.
+
+-~- Location: New York
+
+
+# Coding Preferences
+<!-- platforms: claude-code, windsurf -->
+-~- I prefer TypeScript over JavaScript
+-~- Languages:
+  - TypeScript
+  - Python
+-~- Team:
+  -~- Alice: Frontend
+  Alice also reviews docs.
+  -~- Bob: Backend
+-~- Commit style: Conventional commits, for example:
+
+\`\`\`
+# not a section
+-~- Not: an item
+feat(sync): add dry run
+\`\`\`
+
+Ask before adding dependencies.
+`;
+
+  it('should regenerate templates byte for byte', () => {
+    for (const markdown of [generatedMarkdown, handFormattedMarkdown]) {
+      expect(generateTemplate(parseTemplate(markdown))).toBe(markdown);
+    }
+  });
+
+  it('should keep every "##" line but the description as text, where it was', () => {
+    const markdown = `# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+## Updated every few months
+-~- Name: John Doe
+## Contact
+-~- Email: john@example.com
+`;
+    const [section] = parseTemplate(markdown).sections;
+
+    expect(section.description).toBe('Use this information if you need to reference them directly');
+    expect(section.raw).toEqual(['## Updated every few months']);
+    expect(section.items[0].raw).toEqual(['## Contact']);
+    expect(generateTemplate(parseTemplate(markdown))).toBe(markdown);
+  });
+
+  it('should add up repeated targeting rules, and keep them as written', () => {
+    const markdown = `# myAI Memory
+
+# Coding Preferences
+<!-- platforms: claude-code -->
+<!-- platforms: windsurf -->
+<!-- exclude-platforms: cursor -->
+<!-- exclude-platforms: claude-web -->
+-~- Language: TypeScript
+<!-- platforms: github-copilot -->
+`;
+    const template = parseTemplate(markdown);
+    const [section] = template.sections;
+
+    expect(section.platforms).toEqual({ include: ['claude-code', 'windsurf'], exclude: ['cursor', 'claude-web'] });
+    expect(section.items[0].raw).toEqual(['<!-- platforms: github-copilot -->']);
+    expect(generateTemplate(template)).toBe(markdown);
+    expect(generateTemplate(template, 'windsurf')).toContain('-~- Language: TypeScript');
+    expect(generateTemplate(template, 'github-copilot')).not.toContain('Language');
+
+    section.platforms = { include: ['claude-code'] };
+    expect(generateTemplate(template)).toContain('# Coding Preferences\n<!-- platforms: claude-code -->\n-~- Language');
+  });
+
+  it('should only write the header and final newline if the template had them', () => {
+    const markdown = '# User Information\n-~- Name: John Doe';
+    const template = parseTemplate(markdown);
+
+    expect(template.header).toBe(false);
+    expect(template.finalNewline).toBe(false);
+    expect(generateTemplate(template)).toBe(markdown);
+    expect(generateTemplate(template, 'claude-code')).toBe('# myAI Memory\n\n# User Information\n-~- Name: John Doe\n');
+
+    const notes = 'Notes for myself\n# myAI Memory\n\n# User Information\n-~- Name: John Doe\n';
+    expect(parseTemplate(notes).preamble).toEqual(['Notes for myself', '# myAI Memory', '']);
+    expect(generateTemplate(parseTemplate(notes))).toBe(notes);
+  });
+
+  it('should keep item, list, title and comment lines as written', () => {
+    const markdowns = [
+      '# myAI Memory\n\n# User Information\n-~- A:\n',
+      '# myAI Memory\n\n# User Information\n-~- A:b\n-~- A : b\n-~- A:  b\n-~- B: trailing  \n',
+      '# myAI Memory\n\n# User Information  \n##  Described  \n-~- Name: John Doe\n',
+      '# myAI Memory\n\n# Coding Preferences\n-~- Languages:\n    - TypeScript\n\t- Python\n-~- Team:\n    -~-  Alice:Frontend\n',
+      '# myAI Memory\n\n# User Information\n-~- Phone: 0958 <!--private-->\n  -~- Sub: x <!--public-->\n'
+    ];
+
+    for (const markdown of markdowns) {
+      expect(generateTemplate(parseTemplate(markdown))).toBe(markdown);
+    }
+  });
+
+  it('should only regenerate the lines that were edited', () => {
+    const markdown = '# myAI Memory\n\n# User Information\n-~- Name:John Doe\n-~- Phone: 0958 <!--private-->\n-~- Languages:\n\t- TypeScript\n\t- Python\n';
+    let template = parseTemplate(markdown);
+
+    template = setTemplateItem(template, 'User Information', 'Name', 'Jane Doe');
+    template.sections[0].items[1].visibility = 'public';
+    template.sections[0].items[2].list = ['TypeScript', 'Go'];
+
+    expect(generateTemplate(template)).toBe(
+      '# myAI Memory\n\n# User Information\n-~- Name: Jane Doe\n-~- Phone: 0958 <!-- public -->\n-~- Languages:\n\t- TypeScript\n  - Go\n'
+    );
+  });
+
+  it('should keep the line endings', () => {
+    const crlf = '# myAI Memory\r\n\r\n# User Information\r\n-~- Name: John Doe\r\n';
+    const template = parseTemplate(crlf);
+
+    expect(template.lineEnding).toBe('\r\n');
+    expect(template.sections[0].items[0]).toEqual({ key: 'Name', value: 'John Doe' });
+    expect(generateTemplate(template)).toBe(crlf);
+    expect(generateTemplate(setTemplateItem(template, 'User Information', 'Age', '27'))).toBe(
+      '# myAI Memory\r\n\r\n# User Information\r\n-~- Name: John Doe\r\n-~- Age: 27\r\n'
+    );
+    expect(generateTemplate(template, 'claude-code')).toBe('# myAI Memory\n\n# User Information\n-~- Name: John Doe\n');
+
+    const mixed = '# myAI Memory\r\n\n# User Information\r\n-~- Name: John Doe\n-~- Phone: 0958\r\n\r\n# Coding Preferences\n-~- Language: TypeScript\r\n';
+    expect(generateTemplate(parseTemplate(mixed))).toBe(mixed);
+  });
+
+  it('should read the same template back from what it generates', () => {
+    const template = parseTemplate(handFormattedMarkdown);
+
+    expect(parseTemplate(generateTemplate(template))).toEqual(template);
+  });
+
+  it('should keep free text with the section or item it follows', () => {
+    const template = parseTemplate(handFormattedMarkdown);
+    const [userInfo, coding] = template.sections;
+
+    expect(template.preamble).toEqual([
+      '',
+      'These preferences are shared by every assistant I use.',
+      '<!-- Edit data/template.md, not the synced copies -->',
+      ''
+    ]);
+    expect(userInfo.raw).toEqual(['Keep this section short.', '']);
+    expect(userInfo.items[1].raw).toEqual(['  Only for emergencies.', '']);
+    expect(userInfo.blankLinesAfter).toBe(2);
+    expect(coding.items.find(item => item.key === 'Team')!.items![0].raw).toEqual(['  Alice also reviews docs.']);
+  });
+
+  it('should keep code blocks as text', () => {
+    const coding = parseTemplate(handFormattedMarkdown).sections[1];
+
+    expect(coding.items.map(item => item.key)).toEqual(['Languages', 'Team', 'Commit style']);
+    expect(coding.items[2].raw).toContain('# not a section');
+    expect(coding.items[2].raw).toContain('-~- Not: an item');
+  });
+
+  it('should keep item lines without a key as text', () => {
+    const coding = parseTemplate(handFormattedMarkdown).sections[1];
+
+    expect(coding.raw).toEqual(['-~- I prefer TypeScript over JavaScript']);
+    expect(generateSection(coding)).toContain('-~- I prefer TypeScript over JavaScript\n-~- Languages:\n');
+  });
+
+  it('should move and delete the text after an item with the item', () => {
+    const template = parseTemplate(handFormattedMarkdown);
+
+    const moved = generateTemplate(moveTemplateItem(template, 'User Information', 'Phone', 'User Information', 0));
+    expect(moved).toContain('-~- Phone: +44 20 7946 0958 <!-- private -->\n  Only for emergencies.\n\n-~- Name: John Doe\n');
+
+    const deleted = generateTemplate(deleteTemplateItem(template, 'User Information', 'Phone'));
+    expect(deleted).not.toContain('Only for emergencies.');
+    expect(deleted).toContain('These preferences are shared by every assistant I use.');
+  });
+
+  it('should keep the text after an item when its value changes', () => {
+    const template = setTemplateItem(parseTemplate(handFormattedMarkdown), 'User Information', 'Phone', '+44 20 7946 0000');
+
+    expect(generateTemplate(template)).toContain('-~- Phone: +44 20 7946 0000 <!-- private -->\n  Only for emergencies.\n');
+  });
+
+  it('should leave the text after private items out of platform views', () => {
+    const synced = generateTemplate(parseTemplate(handFormattedMarkdown), 'claude-code');
+
+    expect(synced).not.toContain('Only for emergencies.');
+    expect(synced).toContain('Keep this section short.');
+    expect(synced).toContain('feat(sync): add dry run');
+  });
+
+  it('should lay out templates built in code with one empty line between sections', () => {
+    const markdown = generateTemplate({
+      sections: [
+        { title: 'User Information', description: '', items: [{ key: 'Name', value: 'John Doe' }] },
+        { title: 'General Response Style', description: '', items: [{ key: 'Style', value: 'Concise' }] }
+      ]
+    });
+
+    expect(markdown).toBe('# myAI Memory\n\n# User Information\n-~- Name: John Doe\n\n# General Response Style\n-~- Style: Concise\n');
+  });
+});
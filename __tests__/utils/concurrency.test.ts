@@ -0,0 +1,86 @@
+import { mapWithConcurrency, withLock, withTimeout, TimeoutError } from '../../src/utils/concurrency.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Concurrency utilities', () => {
+  describe('mapWithConcurrency', () => {
+    it('should return the results in the order of the items', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async ms => {
+        await delay(ms);
+        return ms;
+      });
+
+      expect(results).toEqual([30, 10, 20]);
+    });
+
+    it('should run no more tasks at once than the limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should handle an empty list', async () => {
+      expect(await mapWithConcurrency([], 4, async item => item)).toEqual([]);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should return the result of a task that finishes in time', async () => {
+      expect(await withTimeout(delay(5).then(() => 'done'), 1000, 'Task')).toBe('done');
+    });
+
+    it('should reject with a TimeoutError when the task takes too long', async () => {
+      const result = withTimeout(delay(200), 10, 'Sync of /projects/app/CLAUDE.md');
+
+      await expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await expect(result).rejects.toThrow('Sync of /projects/app/CLAUDE.md timed out after 10ms');
+    });
+
+    it('should abort the controller on timeout, so the task can stop', async () => {
+      const controller = new AbortController();
+      let written = false;
+      const task = delay(50).then(() => {
+        controller.signal.throwIfAborted();
+        written = true;
+      });
+
+      await expect(withTimeout(task, 10, 'Sync', controller)).rejects.toBeInstanceOf(TimeoutError);
+      expect(controller.signal.reason).toBeInstanceOf(TimeoutError);
+      await expect(task).rejects.toBeInstanceOf(TimeoutError);
+      expect(written).toBe(false);
+    });
+
+    it('should wait indefinitely when the timeout is 0', async () => {
+      expect(await withTimeout(delay(20).then(() => 'done'), 0, 'Task')).toBe('done');
+    });
+  });
+
+  describe('withLock', () => {
+    it('should run tasks holding the same key one at a time', async () => {
+      let content = '';
+      const append = (line: string) => withLock('/projects/app/.gitignore', async () => {
+        const current = content;
+        await delay(5);
+        content = `${current}${line}\n`;
+      });
+
+      await Promise.all([append('/CLAUDE.md'), append('/AGENTS.md'), append('/.github/copilot-instructions.md')]);
+
+      expect(content).toBe('/CLAUDE.md\n/AGENTS.md\n/.github/copilot-instructions.md\n');
+    });
+
+    it('should release the lock when a task fails', async () => {
+      await expect(withLock('key', async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+
+      expect(await withLock('key', async () => 'next')).toBe('next');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { createUnifiedDiff } from '../../src/utils/diff.js';
+
+describe('diff module', () => {
+  describe('createUnifiedDiff function', () => {
+    it('should return an empty string for identical texts', () => {
+      expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'file.md')).toBe('');
+    });
+
+    it('should diff a new file against /dev/null', () => {
+      const diff = createUnifiedDiff('', 'line 1\nline 2\n', '/dev/null', 'CLAUDE.md');
+
+      expect(diff).toBe('--- /dev/null\n+++ CLAUDE.md\n@@ -0,0 +1,2 @@\n+line 1\n+line 2\n');
+    });
+
+    it('should show changed lines with surrounding context', () => {
+      const oldText = 'one\ntwo\nthree\nfour\nfive\n';
+      const newText = 'one\ntwo\nTHREE\nfour\nfive\n';
+
+      expect(createUnifiedDiff(oldText, newText, 'file.md')).toBe(
+        '--- file.md\n+++ file.md\n@@ -1,5 +1,5 @@\n one\n two\n-three\n+THREE\n four\n five\n'
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const newLines = [...oldLines];
+      newLines[1] = 'changed 2';
+      newLines[18] = 'changed 19';
+
+      const diff = createUnifiedDiff(`${oldLines.join('\n')}\n`, `${newLines.join('\n')}\n`, 'file.md', 'file.md', 1);
+
+      expect(diff).toContain('@@ -1,3 +1,3 @@\n line 1\n-line 2\n+changed 2\n line 3\n');
+      expect(diff).toContain('@@ -18,3 +18,3 @@\n line 18\n-line 19\n+changed 19\n line 20\n');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { config } from '../../src/config.js';
+import {
+  encryptText,
+  decryptText,
+  isEncrypted,
+  encodeStoredContent,
+  decodeStoredContent,
+  DecryptionError,
+  EncryptionKeyError
+} from '../../src/utils/encryption.js';
+
+describe('Encryption utilities', () => {
+  const template = '# myAI Memory\n\n# User Information\n-~- Name: John Doe\n';
+
+  describe('encryptText / decryptText', () => {
+    it('should round-trip text as a single line that hides it', () => {
+      const envelope = encryptText(template, 'correct horse battery staple');
+
+      expect(isEncrypted(envelope)).toBe(true);
+      expect(envelope).not.toContain('\n');
+      expect(envelope).not.toContain('John Doe');
+      expect(decryptText(envelope, 'correct horse battery staple')).toBe(template);
+    });
+
+    it('should use a new IV every time', () => {
+      expect(encryptText(template, 'passphrase')).not.toBe(encryptText(template, 'passphrase'));
+    });
+
+    it('should reject a wrong key or damaged data', () => {
+      const envelope = encryptText(template, 'passphrase');
+      const damaged = envelope.slice(0, -4) + (envelope.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+      expect(() => decryptText(envelope, 'wrong passphrase', 'data/template.md')).toThrow(DecryptionError);
+      expect(() => decryptText(envelope, 'wrong passphrase', 'data/template.md')).toThrow('Could not decrypt data/template.md');
+      expect(() => decryptText(damaged, 'passphrase')).toThrow(DecryptionError);
+    });
+  });
+
+  describe('stored content', () => {
+    const originalEncryption = { ...config.encryption };
+    const originalPassphrase = process.env.MYAI_PASSPHRASE;
+
+    afterEach(() => {
+      Object.assign(config.encryption, originalEncryption);
+      if (originalPassphrase === undefined) {
+        delete process.env.MYAI_PASSPHRASE;
+      } else {
+        process.env.MYAI_PASSPHRASE = originalPassphrase;
+      }
+    });
+
+    it('should only encrypt when encryption is enabled', () => {
+      config.encryption.enabled = false;
+      expect(encodeStoredContent(template)).toBe(template);
+
+      config.encryption.enabled = true;
+      config.encryption.keyFile = '';
+      process.env.MYAI_PASSPHRASE = 'passphrase';
+      const stored = encodeStoredContent(template);
+
+      expect(isEncrypted(stored)).toBe(true);
+      expect(decodeStoredContent(stored, 'data/template.md')).toBe(template);
+    });
+
+    it('should read plaintext as it is, and fail clearly without a key', () => {
+      config.encryption.keyFile = '';
+      process.env.MYAI_PASSPHRASE = 'passphrase';
+      const envelope = encryptText(template, 'passphrase');
+      delete process.env.MYAI_PASSPHRASE;
+
+      expect(decodeStoredContent(template, 'data/template.md')).toBe(template);
+      expect(() => decodeStoredContent(envelope, 'data/template.md')).toThrow(EncryptionKeyError);
+      expect(() => decodeStoredContent(envelope, 'data/template.md')).toThrow(/data\/template.md is encrypted, but no key is configured/);
+    });
+  });
+});
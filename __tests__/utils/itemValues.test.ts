@@ -0,0 +1,93 @@
+import { parseItemScalar, formatItemScalar, getItemValue, createItem, isItemValue, getTemplateValues } from '../../src/utils/itemValues.js';
+
+describe('Item value utilities', () => {
+  describe('parseItemScalar', () => {
+    it('should read booleans, numbers and dates', () => {
+      expect(parseItemScalar('true')).toBe(true);
+      expect(parseItemScalar('false')).toBe(false);
+      expect(parseItemScalar('27')).toBe(27);
+      expect(parseItemScalar('-1.5')).toBe(-1.5);
+      expect(parseItemScalar('2025-03-18')).toEqual(new Date('2025-03-18'));
+      expect(parseItemScalar('2025-03-18T23:31:49.134Z')).toEqual(new Date('2025-03-18T23:31:49.134Z'));
+    });
+
+    it('should keep everything else as text', () => {
+      expect(parseItemScalar('Concise and friendly')).toBe('Concise and friendly');
+      expect(parseItemScalar('02134')).toBe('02134');
+      expect(parseItemScalar('True')).toBe('True');
+      expect(parseItemScalar('2025-13-45')).toBe('2025-13-45');
+      expect(parseItemScalar('"a" and "b"')).toBe('"a" and "b"');
+    });
+
+    it('should keep numbers that would lose precision, and days that don\'t exist, as text', () => {
+      expect(parseItemScalar('12345678901234567890')).toBe('12345678901234567890');
+      expect(parseItemScalar('1.50')).toBe('1.50');
+      expect(parseItemScalar('2024-02-30')).toBe('2024-02-30');
+      expect(parseItemScalar('2023-02-29')).toBe('2023-02-29');
+      expect(parseItemScalar('2024-02-29')).toEqual(new Date('2024-02-29'));
+    });
+
+    it('should read quoted text as a string', () => {
+      expect(parseItemScalar('"true"')).toBe('true');
+      expect(parseItemScalar('"42"')).toBe('42');
+    });
+  });
+
+  describe('formatItemScalar', () => {
+    it('should write values that read back the same', () => {
+      const values = [true, 42, 0.5, new Date('2025-03-18'), new Date('2025-03-18T23:31:49.134Z'), 'true', '42', 'TypeScript'];
+
+      for (const value of values) {
+        expect(parseItemScalar(formatItemScalar(value))).toEqual(value);
+      }
+      expect(formatItemScalar(new Date('2025-03-18'))).toBe('2025-03-18');
+      expect(formatItemScalar('true')).toBe('"true"');
+      expect(formatItemScalar('TypeScript')).toBe('TypeScript');
+    });
+  });
+
+  describe('getItemValue / createItem', () => {
+    it('should read an item as its list, sub-items or own value', () => {
+      expect(getItemValue({ key: 'Age', value: '27' })).toBe(27);
+      expect(getItemValue({ key: 'Languages', value: '', list: ['TypeScript', 'true'] })).toEqual(['TypeScript', true]);
+      expect(getItemValue({ key: 'Team', value: '', items: [{ key: 'Size', value: '4' }] })).toEqual({ Size: 4 });
+    });
+
+    it('should create items that read back as the same value', () => {
+      const values = [['TypeScript', 5], { Lead: 'Alice', Remote: true }, new Date('2025-03-18'), 'UK English'];
+
+      for (const value of values) {
+        expect(getItemValue(createItem('Key', value))).toEqual(value);
+      }
+      expect(createItem('Languages', ['TypeScript'])).toEqual({ key: 'Languages', value: '', list: ['TypeScript'] });
+    });
+  });
+
+  describe('isItemValue / getTemplateValues', () => {
+    it('should accept only values an item can hold', () => {
+      expect(isItemValue('UK English')).toBe(true);
+      expect(isItemValue(['TypeScript', 5, false])).toBe(true);
+      expect(isItemValue({ Lead: 'Alice', Remote: true })).toBe(true);
+      expect(isItemValue(undefined)).toBe(false);
+      expect(isItemValue(null)).toBe(false);
+      expect(isItemValue([['nested']])).toBe(false);
+      expect(isItemValue({ Team: { Lead: 'Alice' } })).toBe(false);
+      expect(isItemValue(NaN)).toBe(false);
+    });
+
+    it('should read every item by section and key', () => {
+      const values = getTemplateValues({
+        sections: [{
+          title: 'Coding Preferences',
+          description: '',
+          items: [
+            { key: 'Languages', value: '', list: ['TypeScript', 'Python'] },
+            { key: 'Strict', value: 'true' }
+          ]
+        }]
+      });
+
+      expect(values).toEqual({ 'Coding Preferences': { Languages: ['TypeScript', 'Python'], Strict: true } });
+    });
+  });
+});
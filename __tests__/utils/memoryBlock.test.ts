@@ -0,0 +1,72 @@
+import {
+  MEMORY_BLOCK_START,
+  MEMORY_BLOCK_END,
+  extractMemoryBlock,
+  hasMemoryBlock,
+  replaceMemoryBlock,
+  removeMemoryBlock
+} from '../../src/utils/memoryBlock.js';
+
+describe('memoryBlock module', () => {
+  const memorySection = '# myAI Memory\n\n# User Information\n-~- Name: John Doe';
+  const block = `${MEMORY_BLOCK_START}\n${memorySection}\n${MEMORY_BLOCK_END}`;
+
+  describe('replaceMemoryBlock function', () => {
+    it('should append a delimited block to an empty file', () => {
+      expect(replaceMemoryBlock('', memorySection)).toBe(`${block}\n`);
+    });
+
+    it('should append a delimited block after existing content', () => {
+      const result = replaceMemoryBlock('# Project Notes\nUse pnpm\n\n', memorySection);
+      expect(result).toBe(`# Project Notes\nUse pnpm\n\n${block}\n`);
+    });
+
+    it('should only replace the text between the markers', () => {
+      const content = `# Before\n\n${MEMORY_BLOCK_START}\n# myAI Memory\n-~- Old: Value\n${MEMORY_BLOCK_END}\n\n# After\nKeep me\n`;
+      const result = replaceMemoryBlock(content, memorySection);
+
+      expect(result).toBe(`# Before\n\n${block}\n\n# After\nKeep me\n`);
+    });
+
+    it('should be idempotent', () => {
+      const once = replaceMemoryBlock('# Notes\n', memorySection);
+      expect(replaceMemoryBlock(once, memorySection)).toBe(once);
+    });
+
+    it('should migrate a legacy header to markers', () => {
+      const content = '# Notes\nKeep me\n\n# myAI Memory\n\n# Old Section\n-~- Old: Value\n';
+      const result = replaceMemoryBlock(content, memorySection);
+
+      expect(result).toBe(`# Notes\nKeep me\n\n${block}\n`);
+    });
+  });
+
+  describe('extractMemoryBlock function', () => {
+    it('should extract the section between the markers', () => {
+      expect(extractMemoryBlock(`# Before\n${block}\n# After`)).toBe(memorySection);
+    });
+
+    it('should extract a legacy section to the end of the file', () => {
+      expect(extractMemoryBlock(`# Notes\n\n${memorySection}\n`)).toBe(memorySection);
+    });
+
+    it('should return null when there is no memory block', () => {
+      expect(extractMemoryBlock('# Notes\nNothing here')).toBeNull();
+      expect(hasMemoryBlock('# Notes\nNothing here')).toBe(false);
+    });
+  });
+
+  describe('removeMemoryBlock function', () => {
+    it('should keep the text around the markers on the same lines', () => {
+      expect(removeMemoryBlock(`# Before\n${block}\n# After\n`)).toBe(`# Before${'\n'.repeat(7)}# After\n`);
+    });
+
+    it('should keep the text before a legacy section', () => {
+      expect(removeMemoryBlock(`# Notes\n\n${memorySection}\n`)).toBe(`# Notes${'\n'.repeat(6)}`);
+    });
+
+    it('should return content without a memory block unchanged', () => {
+      expect(removeMemoryBlock('# Notes\nNothing here')).toBe('# Notes\nNothing here');
+    });
+  });
+});
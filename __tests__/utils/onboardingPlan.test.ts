@@ -0,0 +1,114 @@
+import { extractCandidateItems, planOnboardingImport } from '../../src/utils/onboardingPlan.js';
+import { MEMORY_BLOCK_START, MEMORY_BLOCK_END } from '../../src/utils/memoryBlock.js';
+import { parseTemplate, generateTemplate } from '../../src/templateParser.js';
+
+describe('Onboarding plan', () => {
+  const claudeMd = `# My preferences
+
+- Name: John Doe
+- **Editor**: VS Code
+
+## Testing
+- Always run the tests before committing
+- Prefer jest
+  - with ts-jest
+
+See https://example.com for more.
+
+\`\`\`
+- Not: a bullet
+\`\`\`
+
+${MEMORY_BLOCK_START}
+# myAI Memory
+
+# User Information
+-~- Name: Synced Name
+${MEMORY_BLOCK_END}
+
+## Tone
+- Concise and friendly responses
+`;
+
+  const template = parseTemplate(`# myAI Memory
+
+# User Information
+-~- Name: John Doe
+-~- Location: New York
+
+# General Response Style
+-~- Tone: Formal
+`);
+
+  it('should read bullets outside the memory block as items', () => {
+    expect(extractCandidateItems(claudeMd)).toEqual([
+      { line: 3, heading: 'My preferences', item: { key: 'Name', value: 'John Doe' } },
+      { line: 4, heading: 'My preferences', item: { key: 'Editor', value: 'VS Code' } },
+      {
+        line: 7,
+        heading: 'Testing',
+        item: { key: 'Testing', value: '', list: ['Always run the tests before committing', 'Prefer jest', 'with ts-jest'] }
+      },
+      { line: 25, heading: 'Tone', item: { key: 'Tone', value: '', list: ['Concise and friendly responses'] } }
+    ]);
+  });
+
+  it('should collect bullets without a heading or key as notes', () => {
+    expect(extractCandidateItems('- Use pnpm\n1. Ask before deleting files\n')).toEqual([
+      { line: 1, item: { key: 'Notes', value: '', list: ['Use pnpm', 'Ask before deleting files'] } }
+    ]);
+  });
+
+  it('should sort candidates into sections and compare them with the template', () => {
+    const plan = planOnboardingImport(template, [
+      { platform: 'claude-code', path: '/home/user/.claude/CLAUDE.md', content: claudeMd }
+    ]);
+
+    expect(plan.candidates.map(c => [c.id, c.section, c.item.key, c.status])).toEqual([
+      [1, 'User Information', 'Name', 'duplicate'],
+      [2, 'Coding Preferences', 'Editor', 'new'],
+      [3, 'Coding Preferences', 'Testing', 'new'],
+      [4, 'General Response Style', 'Tone', 'conflict']
+    ]);
+    expect(plan.candidates[3].existing).toBe('Formal');
+    expect(plan.candidates[0]).toMatchObject({ platform: 'claude-code', path: '/home/user/.claude/CLAUDE.md', line: 3 });
+  });
+
+  it('should only add the new candidates that were not skipped', () => {
+    const plan = planOnboardingImport(template, [
+      { platform: 'claude-code', path: 'CLAUDE.md', content: claudeMd }
+    ], [3]);
+
+    expect(plan.candidates[2].status).toBe('skipped');
+    expect(generateTemplate(plan.template)).toBe(`# myAI Memory
+
+# User Information
+-~- Name: John Doe
+-~- Location: New York
+
+# General Response Style
+-~- Tone: Formal
+
+# Coding Preferences
+-~- Editor: VS Code
+`);
+  });
+
+  it('should report the same key found in two files once', () => {
+    const plan = planOnboardingImport(template, [
+      { platform: 'claude-code', path: 'CLAUDE.md', content: '- Editor: VS Code\n' },
+      { platform: 'windsurf', path: 'global_rules.md', content: '- Editor: Windsurf\n' }
+    ]);
+
+    expect(plan.candidates.map(c => c.status)).toEqual(['new', 'conflict']);
+    expect(plan.candidates[1].existing).toBe('VS Code');
+  });
+
+  it('should use a section named by the heading', () => {
+    const plan = planOnboardingImport(template, [
+      { platform: 'windsurf', path: 'global_rules.md', content: '## general response style\n- Emoji: Never\n' }
+    ]);
+
+    expect(plan.candidates[0].section).toBe('General Response Style');
+  });
+});
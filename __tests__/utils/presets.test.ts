@@ -0,0 +1,107 @@
+import { resolvePreset, applyPreset } from '../../src/utils/presets.js';
+import { parseTemplate, generateTemplate } from '../../src/templateParser.js';
+
+describe('Presets', () => {
+  const presets: Record<string, unknown> = {
+    base: {
+      name: 'base',
+      sections: [
+        { title: 'User Information', description: '', items: [{ key: 'Name', value: 'Default User' }, { key: 'Age', value: '27' }] },
+        { title: 'General Response Style', description: '', items: [{ key: 'Tone', value: 'Friendly' }] }
+      ]
+    },
+    work: {
+      name: 'work',
+      extends: 'base',
+      sections: [
+        { title: 'General Response Style', description: '', items: [{ key: 'Tone', value: 'Formal' }] },
+        { title: 'Coding Preferences', description: '', items: [{ key: 'Language', value: 'TypeScript' }] }
+      ]
+    },
+    style: {
+      name: 'style',
+      partial: true,
+      sections: [{ title: 'General Response Style', description: '', items: [{ key: 'Emoji', value: 'Never' }] }]
+    },
+    alias: { name: 'alias', extends: 'work' },
+    loopA: { name: 'loopA', extends: 'loopB', sections: [] },
+    loopB: { name: 'loopB', extends: 'loopA', sections: [] },
+    broken: { name: 'broken', sections: [{ title: 'No items' }] }
+  };
+
+  const readPreset = async (name: string) => {
+    if (!(name in presets)) {
+      throw new Error(`ENOENT: no such preset ${name}`);
+    }
+    return presets[name];
+  };
+
+  const template = parseTemplate(`# myAI Memory
+
+# User Information
+-~- Name: John Doe
+-~- Location: New York
+
+# General Response Style
+-~- Tone: Concise
+-~- Spelling: British
+`);
+
+  it('should merge a preset over the presets it extends', async () => {
+    const preset = await resolvePreset('alias', readPreset);
+
+    expect(preset.name).toBe('alias');
+    expect(preset.sections.map(s => [s.title, s.items.map(i => `${i.key}: ${i.value}`)])).toEqual([
+      ['User Information', ['Name: Default User', 'Age: 27']],
+      ['General Response Style', ['Tone: Formal']],
+      ['Coding Preferences', ['Language: TypeScript']]
+    ]);
+  });
+
+  it('should reject presets that extend themselves or are not valid', async () => {
+    await expect(resolvePreset('loopA', readPreset)).rejects.toThrow('Preset "loopA" extends itself: loopA -> loopB -> loopA');
+    await expect(resolvePreset('broken', readPreset)).rejects.toThrow('Preset "broken" doesn\'t have a valid "sections" list');
+    await expect(resolvePreset('missing', readPreset)).rejects.toThrow('no such preset missing');
+  });
+
+  it('should replace every section with a full preset', async () => {
+    const result = applyPreset(template, await resolvePreset('base', readPreset));
+
+    expect(result.sections.map(s => s.title)).toEqual(['User Information', 'General Response Style']);
+    expect(result.sections[0].items.map(i => i.key)).toEqual(['Name', 'Age']);
+    expect(result.preamble).toEqual(template.preamble);
+  });
+
+  it('should replace only the sections a partial preset has', async () => {
+    const result = applyPreset(template, await resolvePreset('style', readPreset));
+
+    expect(generateTemplate(result)).toBe(`# myAI Memory
+
+# User Information
+-~- Name: John Doe
+-~- Location: New York
+
+# General Response Style
+-~- Emoji: Never
+`);
+  });
+
+  it('should merge a preset into the template, keeping what it does not mention', async () => {
+    const result = applyPreset(template, await resolvePreset('work', readPreset), 'merge');
+
+    expect(generateTemplate(result)).toBe(`# myAI Memory
+
+# User Information
+-~- Name: Default User
+-~- Location: New York
+-~- Age: 27
+
+# General Response Style
+-~- Tone: Formal
+-~- Spelling: British
+
+# Coding Preferences
+-~- Language: TypeScript
+`);
+  });
+});
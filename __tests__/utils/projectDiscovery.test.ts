@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverProjects, matchesGlob, PROJECT_OPT_OUT_FILE } from '../../src/utils/projectDiscovery.js';
+
+describe('Project discovery utilities', () => {
+  let tempDir: string;
+
+  const makeDirs = async (...dirs: string[]) => {
+    for (const dir of dirs) {
+      await fs.mkdir(path.join(tempDir, dir), { recursive: true });
+    }
+  };
+
+  const syncedPaths = (projects: { path: string; skipped?: string }[]) =>
+    projects.filter(p => !p.skipped).map(p => path.relative(tempDir, p.path));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-projects-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match a glob without a slash against the directory name', () => {
+      expect(matchesGlob('work/app', 'app')).toBe(true);
+      expect(matchesGlob('work/app', 'a*')).toBe(true);
+      expect(matchesGlob('work/app', 'work')).toBe(false);
+    });
+
+    it('should match a glob with a slash against the whole relative path', () => {
+      expect(matchesGlob('work/app', 'work/*')).toBe(true);
+      expect(matchesGlob('personal/app', 'work/*')).toBe(false);
+      expect(matchesGlob('work/team/app', 'work/*')).toBe(false);
+      expect(matchesGlob('work/team/app', 'work/**')).toBe(true);
+      expect(matchesGlob('work/team/app', '**/app')).toBe(true);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchesGlob('my.app', 'my.app')).toBe(true);
+      expect(matchesGlob('myxapp', 'my.app')).toBe(false);
+    });
+  });
+
+  describe('discoverProjects', () => {
+    it('should list the subdirectories of the root by default', async () => {
+      await makeDirs('root/app', 'root/api');
+      await fs.writeFile(path.join(tempDir, 'root', 'notes.md'), 'notes');
+
+      const projects = await discoverProjects({ roots: [path.join(tempDir, 'root')] });
+
+      expect(syncedPaths(projects)).toEqual(['root/api', 'root/app']);
+    });
+
+    it('should search several roots and skip ones that are missing', async () => {
+      await makeDirs('one/app', 'two/api');
+
+      const projects = await discoverProjects({
+        roots: [path.join(tempDir, 'one'), path.join(tempDir, 'missing'), path.join(tempDir, 'two')]
+      });
+
+      expect(syncedPaths(projects)).toEqual(['one/app', 'two/api']);
+    });
+
+    it('should fail when none of the roots exist', async () => {
+      await expect(discoverProjects({ roots: [path.join(tempDir, 'missing')] })).rejects.toThrow();
+    });
+
+    it('should search deeper levels, stopping at repositories', async () => {
+      await makeDirs('root/work/app/.git', 'root/work/app/packages/ui', 'root/work/api/.git', 'root/scratch');
+
+      const projects = await discoverProjects({
+        roots: [path.join(tempDir, 'root')],
+        maxDepth: 3,
+        requireGit: true
+      });
+
+      expect(syncedPaths(projects)).toEqual(['root/work/api', 'root/work/app']);
+    });
+
+    it('should apply include and exclude globs', async () => {
+      await makeDirs('root/work/app', 'root/work/legacy-app', 'root/personal/blog');
+
+      const projects = await discoverProjects({
+        roots: [path.join(tempDir, 'root')],
+        maxDepth: 2,
+        include: ['work/*'],
+        exclude: ['legacy-*']
+      });
+
+      expect(syncedPaths(projects)).toEqual(['root/work/app']);
+      expect(projects.find(p => p.path.endsWith('legacy-app'))?.skipped).toBe('excluded by "legacy-*"');
+      expect(projects.find(p => p.path.endsWith('blog'))?.skipped).toBe('not matched by the include globs');
+    });
+
+    it('should skip projects that opted out with the marker file', async () => {
+      await makeDirs('root/app', 'root/private');
+      await fs.writeFile(path.join(tempDir, 'root', 'private', PROJECT_OPT_OUT_FILE), '');
+
+      const projects = await discoverProjects({ roots: [path.join(tempDir, 'root')] });
+
+      expect(syncedPaths(projects)).toEqual(['root/app']);
+      expect(projects.find(p => p.path.endsWith('private'))?.skipped).toBe(`opted out with ${PROJECT_OPT_OUT_FILE}`);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RevisionLog } from '../../src/utils/revisionLog.js';
+import { config } from '../../src/config.js';
+
+describe('RevisionLog class', () => {
+  let tempDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-history-'));
+    logPath = path.join(tempDir, 'history', 'revisions.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty history when no log exists', async () => {
+    const log = new RevisionLog(logPath);
+
+    expect(await log.list()).toEqual([]);
+    expect(await log.latest()).toBeNull();
+  });
+
+  it('should number revisions and record their source', async () => {
+    const log = new RevisionLog(logPath);
+
+    await log.append('# myAI Memory\n\n-~- Name: John', 'initial');
+    await log.append('# myAI Memory\n\n-~- Name: Jane', 'update_section');
+
+    const revisions = await log.list();
+    expect(revisions.map(r => r.id)).toEqual([1, 2]);
+    expect(revisions[1].source).toBe('update_section');
+    expect(revisions[1].content).toBe('# myAI Memory\n\n-~- Name: Jane');
+    expect(Date.parse(revisions[1].timestamp)).not.toBeNaN();
+  });
+
+  it('should not record a revision when the content is unchanged', async () => {
+    const log = new RevisionLog(logPath);
+
+    await log.append('# myAI Memory', 'initial');
+    const revision = await log.append('# myAI Memory', 'update_template');
+
+    expect(revision.id).toBe(1);
+    expect(await log.list()).toHaveLength(1);
+  });
+
+  it('should find a revision by id', async () => {
+    const log = new RevisionLog(logPath);
+
+    await log.append('first', 'initial');
+    await log.append('second', 'update_template');
+
+    expect((await log.get(1))?.content).toBe('first');
+    expect(await log.get(3)).toBeNull();
+  });
+
+  it('should skip unreadable lines', async () => {
+    const log = new RevisionLog(logPath);
+    await log.append('first', 'initial');
+    await fs.appendFile(logPath, '{"id": 2, "times\n', 'utf-8');
+
+    const revisions = await log.list();
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].content).toBe('first');
+  });
+
+  it('should encrypt each revision when encryption is enabled, and still read plaintext ones', async () => {
+    const log = new RevisionLog(logPath);
+    await log.append('-~- Name: John', 'initial');
+
+    const originalEnabled = config.encryption.enabled;
+    const originalPassphrase = process.env.MYAI_PASSPHRASE;
+    config.encryption.enabled = true;
+    process.env.MYAI_PASSPHRASE = 'passphrase';
+    try {
+      await log.append('-~- Name: Jane', 'update_section');
+
+      const lines = (await fs.readFile(logPath, 'utf-8')).trim().split('\n');
+      expect(lines[1]).not.toContain('Jane');
+      expect((await log.list()).map(r => r.content)).toEqual(['-~- Name: John', '-~- Name: Jane']);
+
+      delete process.env.MYAI_PASSPHRASE;
+      await expect(log.list()).rejects.toThrow('is encrypted, but no key is configured');
+    } finally {
+      config.encryption.enabled = originalEnabled;
+      if (originalPassphrase === undefined) {
+        delete process.env.MYAI_PASSPHRASE;
+      } else {
+        process.env.MYAI_PASSPHRASE = originalPassphrase;
+      }
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { config } from '../../src/config.js';
+import {
+  scanForSecrets,
+  redactSecrets,
+  guardSecrets,
+  assertNoSecrets,
+  SecretDetectedError,
+  REDACTED
+} from '../../src/utils/secretScanner.js';
+
+describe('Secret scanner utilities', () => {
+  const githubToken = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+  const awsKey = 'AKIA' + 'IOSFODNN7EXAMPLE';
+
+  const template = (value: string) => [
+    '# myAI Memory',
+    '',
+    '# User Information',
+    '## Use this information if you need to reference them directly',
+    '-~- Name: John Doe',
+    `-~- Note: ${value}`,
+    ''
+  ].join('\n');
+
+  describe('scanForSecrets', () => {
+    it('should find common token formats with their line', () => {
+      const findings = scanForSecrets(`${template(githubToken)}-~- AWS: ${awsKey}\n`);
+
+      expect(findings.map(f => [f.kind, f.line])).toEqual([
+        ['GitHub token', 6],
+        ['AWS access key', 7]
+      ]);
+      expect(findings[0].preview).toBe('ghp_…');
+    });
+
+    it('should find the value of a credential, not its label', () => {
+      const text = template('my API key is abc123def456');
+      const [finding] = scanForSecrets(text);
+
+      expect(finding.kind).toBe('Credential');
+      expect(text.slice(finding.start, finding.end)).toBe('abc123def456');
+    });
+
+    it('should find high-entropy strings, except in URLs', () => {
+      expect(scanForSecrets(template('token Zx8vQ2mN7pL4kR9tW3yB6cF1hJ5s'))[0]?.kind).toBe('High-entropy string');
+      expect(scanForSecrets(template('https://example.com/a/Zx8vQ2mN7pL4kR9tW3yB6cF1hJ5s'))).toEqual([]);
+    });
+
+    it('should check each part of a path on its own', () => {
+      const text = template('/home/dev/Zx8vQ2mN7pL4kR9tW3yB6cF1hJ5s/config');
+      const [finding] = scanForSecrets(text);
+
+      expect(text.slice(finding.start, finding.end)).toBe('Zx8vQ2mN7pL4kR9tW3yB6cF1hJ5s');
+      expect(scanForSecrets(template('Zx8vQ2mN7pL4kR9t/W3yB6cF1hJ5sAb4'))[0]?.kind).toBe('High-entropy string');
+    });
+
+    it('should leave ordinary preferences alone', () => {
+      const text = [
+        template('Prefers TypeScript 5 and React 18, uses pnpm'),
+        '-~- Password Manager: Uses a password manager for everything',
+        '-~- Repository: https://github.com/example/internationalization-toolkit',
+        '-~- Timezone: UTC+01:00 (Europe/London)',
+        '-~- Projects: /Users/jkt/CascadeProjects/myAImemory-mcp/src/utils2',
+        '-~- Notes: ~/Documents/Notes2024/meetingNotes/quarterlyReview3/'
+      ].join('\n');
+
+      expect(scanForSecrets(text)).toEqual([]);
+    });
+
+    it('should skip allowlisted values', () => {
+      expect(scanForSecrets(template(githubToken), [githubToken])).toEqual([]);
+    });
+  });
+
+  describe('redactSecrets', () => {
+    it('should replace each secret, keeping the rest of the text', () => {
+      expect(redactSecrets(`token ${githubToken} and key ${awsKey}.`)).toBe(`token ${REDACTED} and key ${REDACTED}.`);
+    });
+  });
+
+  describe('policies', () => {
+    const originalPolicy = config.secrets.policy;
+
+    afterEach(() => {
+      config.secrets.policy = originalPolicy;
+    });
+
+    it('should reject secrets without repeating them in the error', () => {
+      config.secrets.policy = 'reject';
+
+      expect(() => assertNoSecrets(template(githubToken), 'the template')).toThrow(SecretDetectedError);
+      expect(() => guardSecrets(template(githubToken), '/projects/app/CLAUDE.md')).toThrow(/GitHub token on line 6 \(ghp_…\)/);
+      try {
+        guardSecrets(template(githubToken), '/projects/app/CLAUDE.md');
+      } catch (err) {
+        expect((err as Error).message).not.toContain(githubToken);
+        expect((err as SecretDetectedError).code).toBe('ESECRET');
+      }
+    });
+
+    it('should let the template keep a secret but redact it in synced output', () => {
+      config.secrets.policy = 'redact';
+
+      expect(() => assertNoSecrets(template(githubToken), 'the template')).not.toThrow();
+      expect(guardSecrets(template(githubToken), '/projects/app/CLAUDE.md')).toBe(template(REDACTED));
+    });
+
+    it('should not scan when turned off', () => {
+      config.secrets.policy = 'off';
+
+      expect(guardSecrets(template(githubToken), '/projects/app/CLAUDE.md')).toBe(template(githubToken));
+    });
+  });
+});
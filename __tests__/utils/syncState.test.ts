@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../../src/config.js';
+import { SyncState, hashContent } from '../../src/utils/syncState.js';
+
+describe('SyncState class', () => {
+  let tempDir: string;
+  let statePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-sync-state-'));
+    statePath = path.join(tempDir, 'sync', 'targets.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null for a target that has never been synced', async () => {
+    const state = new SyncState(statePath);
+
+    expect(await state.get('/projects/app/CLAUDE.md')).toBeNull();
+  });
+
+  it('should persist the memory block written to each target', async () => {
+    const state = new SyncState(statePath);
+    const memory = '# myAI Memory\n\n# User Information\n-~- Name: John\n\n';
+    const content = `My notes\n\n<!-- BEGIN myAI Memory -->\n${memory.trim()}\n<!-- END myAI Memory -->\n`;
+    await state.record('/projects/app/CLAUDE.md', memory, content);
+
+    const reloaded = new SyncState(statePath);
+    const entry = await reloaded.get('/projects/app/CLAUDE.md');
+
+    expect(entry?.memory).toBe('# myAI Memory\n\n# User Information\n-~- Name: John');
+    expect(entry?.hash).toBe(hashContent(content));
+    expect(Date.parse(entry!.syncedAt)).not.toBeNaN();
+  });
+
+  it('should keep every target when several are recorded at once', async () => {
+    const state = new SyncState(statePath);
+
+    await Promise.all(
+      ['a', 'b', 'c', 'd'].map(name => state.record(`/projects/${name}/CLAUDE.md`, `# myAI Memory ${name}`, `# myAI Memory ${name}\n`))
+    );
+
+    const reloaded = new SyncState(statePath);
+    for (const name of ['a', 'b', 'c', 'd']) {
+      expect((await reloaded.get(`/projects/${name}/CLAUDE.md`))?.memory).toBe(`# myAI Memory ${name}`);
+    }
+  });
+
+  it('should keep the entries other processes saved since the state was loaded', async () => {
+    const cli = new SyncState(statePath);
+    const server = new SyncState(statePath);
+    await cli.get('/projects/a/CLAUDE.md');
+    await server.get('/projects/a/CLAUDE.md');
+
+    await cli.record('/projects/a/CLAUDE.md', '# myAI Memory a', '# myAI Memory a\n');
+    await server.record('/projects/b/CLAUDE.md', '# myAI Memory b', '# myAI Memory b\n');
+    await cli.record('/projects/c/CLAUDE.md', '# myAI Memory c', '# myAI Memory c\n');
+
+    const reloaded = new SyncState(statePath);
+    for (const name of ['a', 'b', 'c']) {
+      expect((await reloaded.get(`/projects/${name}/CLAUDE.md`))?.memory).toBe(`# myAI Memory ${name}`);
+    }
+    expect((await server.get('/projects/c/CLAUDE.md'))?.memory).toBe('# myAI Memory c');
+    await expect(fs.access(`${statePath}.lock`)).rejects.toThrow();
+  });
+
+  it('should hash different content differently', () => {
+    expect(hashContent('# myAI Memory\n')).toBe(hashContent('# myAI Memory\n'));
+    expect(hashContent('# myAI Memory\n')).not.toBe(hashContent('# myAI Memory \n'));
+  });
+
+  it('should start over when the state file is unreadable', async () => {
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(statePath, '{ not json', 'utf-8');
+
+    const state = new SyncState(statePath);
+
+    expect(await state.get('/projects/app/CLAUDE.md')).toBeNull();
+  });
+
+  it('should store a memory block shared by several targets once', async () => {
+    const state = new SyncState(statePath);
+    const memory = '# myAI Memory\n\n# User Information\n-~- Name: John';
+    await state.record('/projects/a/CLAUDE.md', memory, `${memory}\n`);
+    await state.record('/projects/b/CLAUDE.md', memory, `Notes\n${memory}\n`);
+
+    const stored = JSON.parse(await fs.readFile(statePath, 'utf-8'));
+
+    expect(Object.values(stored.memories)).toEqual([memory]);
+    expect(stored.targets[path.resolve('/projects/a/CLAUDE.md')].memory).toBe(hashContent(memory));
+    expect(stored.targets[path.resolve('/projects/b/CLAUDE.md')].memory).toBe(hashContent(memory));
+  });
+
+  it('should read a state file that stores the memory block with each target', async () => {
+    const filePath = path.resolve('/projects/app/CLAUDE.md');
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(statePath, JSON.stringify({
+      [filePath]: { memory: '# myAI Memory', hash: 'abc', syncedAt: '2025-03-18T00:00:00.000Z' }
+    }), 'utf-8');
+
+    const state = new SyncState(statePath);
+
+    expect(await state.get(filePath)).toEqual({ memory: '# myAI Memory', hash: 'abc', syncedAt: '2025-03-18T00:00:00.000Z' });
+  });
+
+  describe('with encryption enabled', () => {
+    const originalEncryption = { ...config.encryption };
+    const originalPassphrase = process.env.MYAI_PASSPHRASE;
+
+    beforeEach(() => {
+      config.encryption.enabled = true;
+      config.encryption.keyFile = '';
+      process.env.MYAI_PASSPHRASE = 'passphrase';
+    });
+
+    afterEach(() => {
+      Object.assign(config.encryption, originalEncryption);
+      if (originalPassphrase === undefined) {
+        delete process.env.MYAI_PASSPHRASE;
+      } else {
+        process.env.MYAI_PASSPHRASE = originalPassphrase;
+      }
+    });
+
+    it('should encrypt the memory blocks', async () => {
+      const state = new SyncState(statePath);
+      await state.record('/projects/app/CLAUDE.md', '# myAI Memory\n-~- Name: John Doe', '# myAI Memory\n');
+
+      expect(await fs.readFile(statePath, 'utf-8')).not.toContain('John Doe');
+      expect((await new SyncState(statePath).get('/projects/app/CLAUDE.md'))?.memory).toBe('# myAI Memory\n-~- Name: John Doe');
+    });
+
+    it('should leave out targets whose memory block can\'t be decrypted', async () => {
+      await new SyncState(statePath).record('/projects/app/CLAUDE.md', '# myAI Memory', '# myAI Memory\n');
+      process.env.MYAI_PASSPHRASE = 'wrong passphrase';
+
+      expect(await new SyncState(statePath).get('/projects/app/CLAUDE.md')).toBeNull();
+    });
+  });
+});
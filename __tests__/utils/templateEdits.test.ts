@@ -0,0 +1,197 @@
+import {
+  setTemplateItem,
+  deleteTemplateItem,
+  renameTemplateItem,
+  moveTemplateItem,
+  deleteTemplateSection,
+  renameTemplateSection,
+  reorderTemplateSections,
+  inheritVisibility
+} from '../../src/utils/templateEdits.js';
+import { MemoryTemplate } from '../../src/types.js';
+
+describe('templateEdits module', () => {
+  const template: MemoryTemplate = {
+    sections: [
+      {
+        title: 'User Information',
+        description: 'Use this information if you need to reference them directly',
+        items: [
+          { key: 'Name', value: 'John Doe' },
+          { key: 'Location', value: 'London' },
+          { key: 'Likes', value: 'Coffee' }
+        ]
+      },
+      {
+        title: 'General Response Style',
+        description: 'Use this in every response',
+        items: [
+          { key: 'Style', value: 'Concise' }
+        ]
+      }
+    ]
+  };
+
+  describe('setTemplateItem function', () => {
+    it('should update an existing item without touching its siblings', () => {
+      const result = setTemplateItem(template, 'user information', 'location', 'Paris');
+
+      expect(result.sections[0].items).toEqual([
+        { key: 'Name', value: 'John Doe' },
+        { key: 'Location', value: 'Paris' },
+        { key: 'Likes', value: 'Coffee' }
+      ]);
+      expect(template.sections[0].items[1].value).toBe('London');
+    });
+
+    it('should add missing items and sections', () => {
+      const result = setTemplateItem(template, 'Coding Preferences', 'Language', 'TypeScript');
+
+      expect(result.sections).toHaveLength(3);
+      expect(result.sections[2]).toEqual({
+        title: 'Coding Preferences',
+        description: '',
+        items: [{ key: 'Language', value: 'TypeScript' }]
+      });
+    });
+
+    it('should reject keys that would break the template format', () => {
+      expect(() => setTemplateItem(template, 'User Information', 'Time: Zone', 'UTC')).toThrow();
+      expect(() => setTemplateItem(template, 'User Information', 'Bio', 'line one\nline two')).toThrow();
+      expect(() => setTemplateItem(template, 'User Information', 'Likes', ['Tea', 'line one\nline two'])).toThrow();
+    });
+
+    it('should write typed values, replacing the whole old value', () => {
+      const withList = setTemplateItem(template, 'User Information', 'Likes', ['Coffee', 'Tea']);
+      const withFlag = setTemplateItem(withList, 'User Information', 'likes', true);
+
+      expect(withList.sections[0].items[2]).toEqual({ key: 'Likes', value: '', list: ['Coffee', 'Tea'] });
+      expect(withFlag.sections[0].items[2]).toEqual({ key: 'Likes', value: 'true' });
+    });
+  });
+
+  describe('deleteTemplateItem function', () => {
+    it('should remove only the matching item', () => {
+      const result = deleteTemplateItem(template, 'User Information', 'LOCATION');
+
+      expect(result.sections[0].items.map(i => i.key)).toEqual(['Name', 'Likes']);
+    });
+
+    it('should throw when the item does not exist', () => {
+      expect(() => deleteTemplateItem(template, 'User Information', 'Age')).toThrow("Item 'Age' not found");
+      expect(() => deleteTemplateItem(template, 'Hobbies', 'Name')).toThrow("Section 'Hobbies' not found");
+    });
+  });
+
+  describe('renameTemplateItem function', () => {
+    it('should keep the value and position', () => {
+      const result = renameTemplateItem(template, 'User Information', 'Location', 'City');
+
+      expect(result.sections[0].items[1]).toEqual({ key: 'City', value: 'London' });
+    });
+
+    it('should not rename onto an existing key', () => {
+      expect(() => renameTemplateItem(template, 'User Information', 'Location', 'name')).toThrow('already exists');
+    });
+  });
+
+  describe('moveTemplateItem function', () => {
+    it('should move an item to another section', () => {
+      const result = moveTemplateItem(template, 'User Information', 'Likes', 'General Response Style', 0);
+
+      expect(result.sections[0].items.map(i => i.key)).toEqual(['Name', 'Location']);
+      expect(result.sections[1].items.map(i => i.key)).toEqual(['Likes', 'Style']);
+    });
+
+    it('should reorder an item within its section', () => {
+      const result = moveTemplateItem(template, 'User Information', 'Likes', 'User Information', 0);
+
+      expect(result.sections[0].items.map(i => i.key)).toEqual(['Likes', 'Name', 'Location']);
+    });
+
+    it('should not overwrite an item in the target section', () => {
+      const withStyle = setTemplateItem(template, 'User Information', 'Style', 'Casual');
+
+      expect(() => moveTemplateItem(withStyle, 'User Information', 'Style', 'General Response Style')).toThrow('already exists');
+    });
+  });
+
+  describe('deleteTemplateSection function', () => {
+    it('should remove the section and leave the others', () => {
+      const result = deleteTemplateSection(template, 'general response style');
+
+      expect(result.sections.map(s => s.title)).toEqual(['User Information']);
+      expect(template.sections).toHaveLength(2);
+    });
+
+    it('should throw when the section does not exist', () => {
+      expect(() => deleteTemplateSection(template, 'Favourite Teams')).toThrow("Section 'Favourite Teams' not found");
+    });
+  });
+
+  describe('renameTemplateSection function', () => {
+    it('should keep the description and items', () => {
+      const result = renameTemplateSection(template, 'User Information', 'About Me');
+
+      expect(result.sections[0].title).toBe('About Me');
+      expect(result.sections[0].items).toEqual(template.sections[0].items);
+    });
+
+    it('should not rename onto an existing section', () => {
+      expect(() => renameTemplateSection(template, 'User Information', 'general response style')).toThrow('already exists');
+    });
+  });
+
+  describe('reorderTemplateSections function', () => {
+    it('should put the listed sections first', () => {
+      const withExtra = setTemplateItem(template, 'Coding Preferences', 'Language', 'TypeScript');
+      const result = reorderTemplateSections(withExtra, ['Coding Preferences']);
+
+      expect(result.sections.map(s => s.title)).toEqual([
+        'Coding Preferences',
+        'User Information',
+        'General Response Style'
+      ]);
+    });
+
+    it('should reject unknown or repeated sections', () => {
+      expect(() => reorderTemplateSections(template, ['Hobbies'])).toThrow('not found');
+      expect(() => reorderTemplateSections(template, ['User Information', 'user information'])).toThrow('more than once');
+    });
+  });
+
+  describe('inheritVisibility function', () => {
+    const previous = {
+      title: 'User Information',
+      description: '',
+      visibility: 'private' as const,
+      items: [
+        { key: 'Name', value: 'John Doe' },
+        { key: 'Phone', value: '555 0100', visibility: 'private' as const }
+      ]
+    };
+
+    it('should keep private sections and items private', () => {
+      const result = inheritVisibility(
+        { title: 'User Information', description: '', items: [{ key: 'phone', value: '555 0199' }, { key: 'Name', value: 'Jane' }] },
+        previous
+      );
+
+      expect(result.visibility).toBe('private');
+      expect(result.items).toEqual([
+        { key: 'phone', value: '555 0199', visibility: 'private' },
+        { key: 'Name', value: 'Jane' }
+      ]);
+    });
+
+    it('should let new content set its own visibility', () => {
+      const result = inheritVisibility(
+        { title: 'User Information', description: '', visibility: 'public', items: [{ key: 'Phone', value: '555 0100', visibility: 'public' }] },
+        previous
+      );
+
+      expect(result.visibility).toBe('public');
+      expect(result.items[0].visibility).toBe('public');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  exportTemplate,
+  parseTemplateFormat,
+  importTemplate,
+  getTemplateFormat
+} from '../../src/utils/templateFormats.js';
+import { TemplateValidationError } from '../../src/utils/templateValidation.js';
+import { parseTemplate, generateTemplate } from '../../src/templateParser.js';
+
+describe('Template formats', () => {
+  const markdown = `# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+-~- Name: John Doe
+-~- Phone: +44 20 7946 0958 <!-- private -->
+-~- Age: 27
+
+# Coding Preferences
+<!-- platforms: claude-code -->
+-~- I prefer TypeScript over JavaScript
+-~- Languages:
+  - TypeScript
+  - Python
+-~- Team:
+  -~- Alice: Frontend
+  -~- Bob: Backend
+`;
+  const template = parseTemplate(markdown);
+
+  it('should round-trip a template through every format', () => {
+    for (const format of ['json', 'yaml', 'markdown'] as const) {
+      const { template: imported, valid } = parseTemplateFormat(exportTemplate(template, format), format);
+
+      expect(valid).toBe(true);
+      expect(generateTemplate(imported)).toBe(markdown);
+    }
+  });
+
+  it('should leave the revision out of exports', () => {
+    const exported = exportTemplate({ ...template, revision: 'abc123' }, 'json');
+
+    expect(JSON.parse(exported)).not.toHaveProperty('revision');
+  });
+
+  it('should write the markdown format as a conventional list', () => {
+    const exported = exportTemplate(template, 'markdown');
+
+    expect(exported).toContain('## User Information\nUse this information if you need to reference them directly\n- Name: John Doe\n');
+    expect(exported).toContain('- Phone: +44 20 7946 0958 <!-- private -->\n');
+    expect(exported).toContain('- I prefer TypeScript over JavaScript\n- Languages:\n  - TypeScript\n');
+    expect(exported).toContain('- Team:\n  - Alice: Frontend\n');
+  });
+
+  it('should read conventional markdown written by hand', () => {
+    const { template: imported, diagnostics } = parseTemplateFormat(`# Preferences
+
+Answer briefly.
+
+- **Editor**: VS Code
+* Shell: zsh
+- Notes:
+  - Uses tabs: sometimes
+  - Likes Vim
+`, 'markdown');
+
+    expect(diagnostics).toEqual([]);
+    expect(imported.sections[0].description).toBe('Answer briefly.');
+    expect(imported.sections[0].items).toEqual([
+      { key: 'Editor', value: 'VS Code' },
+      { key: 'Shell', value: 'zsh' },
+      { key: 'Notes', value: '', list: ['Uses tabs: sometimes', 'Likes Vim'] }
+    ]);
+  });
+
+  it('should only split a bullet at a colon followed by a space', () => {
+    const { template: imported, diagnostics } = parseTemplateFormat(`# Preferences
+- Docs live at https://example.com/docs
+- Standup: 10:30 every day
+- Wiki: https://example.com/wiki
+`, 'markdown');
+
+    expect(imported.sections[0].raw).toEqual(['- Docs live at https://example.com/docs']);
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'warning', code: 'malformed-item', line: 2 })]);
+    expect(imported.sections[0].items).toEqual([
+      { key: 'Standup', value: '10:30 every day' },
+      { key: 'Wiki', value: 'https://example.com/wiki' }
+    ]);
+  });
+
+  it('should read typed YAML values as text', () => {
+    const { template: imported } = parseTemplateFormat(`sections:
+  - title: User Information
+    items:
+      - key: Age
+        value: 27
+      - key: Vegetarian
+        value: true
+      - key: Languages
+        value: ''
+        list: [TypeScript, 3]
+`, 'yaml');
+
+    expect(imported.sections[0]).toEqual({
+      title: 'User Information',
+      description: '',
+      items: [
+        { key: 'Age', value: '27' },
+        { key: 'Vegetarian', value: 'true' },
+        { key: 'Languages', value: '', list: ['TypeScript', '3'] }
+      ]
+    });
+  });
+
+  it('should read the older template.json layout', () => {
+    const { template: imported } = parseTemplateFormat(JSON.stringify({
+      sections: {
+        'myAI Memory': { preferences: {} },
+        'User Information': { preferences: { Name: 'Default User', Age: 27 } }
+      }
+    }), 'json');
+
+    expect(imported.sections).toEqual([
+      { title: 'User Information', description: '', items: [{ key: 'Name', value: 'Default User' }, { key: 'Age', value: '27' }] }
+    ]);
+  });
+
+  it('should reject content that is not a template', () => {
+    expect(() => parseTemplateFormat('{ not json', 'json')).toThrow('Could not read the JSON');
+    expect(() => parseTemplateFormat('[]', 'json')).toThrow('"sections" list');
+    expect(() => parseTemplateFormat('sections:\n  - title: 5\n', 'yaml')).toThrow(TemplateValidationError);
+  });
+
+  it('should merge an import into the current template, or replace it', () => {
+    const yaml = 'sections:\n  - title: User Information\n    items:\n      - key: Name\n        value: Jane Doe\n';
+
+    const merged = importTemplate(template, yaml, 'yaml', 'merge').template;
+    expect(merged.sections).toHaveLength(2);
+    expect(merged.sections[0].items.map(item => `${item.key}: ${item.value}`)).toEqual([
+      'Name: Jane Doe',
+      'Phone: +44 20 7946 0958',
+      'Age: 27'
+    ]);
+
+    const replaced = importTemplate(template, yaml, 'yaml', 'replace').template;
+    expect(replaced.sections).toEqual([{ title: 'User Information', description: '', items: [{ key: 'Name', value: 'Jane Doe' }] }]);
+  });
+
+  it('should reject imports that fail validation', () => {
+    const duplicate = '## Style\n- Tone: Friendly\n- Tone: Formal\n';
+
+    expect(() => importTemplate(template, duplicate, 'markdown', 'merge')).toThrow('line 3: error: Key "Tone" appears more than once');
+  });
+
+  it('should work out the format from a file name', () => {
+    expect(getTemplateFormat('memory.JSON')).toBe('json');
+    expect(getTemplateFormat('memory.yml')).toBe('yaml');
+    expect(getTemplateFormat('memory.md')).toBe('markdown');
+    expect(getTemplateFormat('memory.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { parseTemplate, generateTemplate } from '../../src/templateParser.js';
+import { mergeTargetEdits } from '../../src/utils/templateMerge.js';
+
+describe('Template merge utilities', () => {
+  const base = parseTemplate(`# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+-~- Name: John Doe
+-~- Location: London
+
+# Coding Preferences
+## General Preference when responding to coding questions
+-~- Language: TypeScript
+-~- Indentation: 2 spaces
+`);
+
+  describe('mergeTargetEdits', () => {
+    it('should carry over an item changed only in the file', () => {
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      const { template, conflicts } = mergeTargetEdits(base, target, base);
+
+      expect(template.sections[0].items[1]).toEqual({ key: 'Location', value: 'Manchester' });
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should carry over a list entry changed only in the file', () => {
+      const withList = parseTemplate(`${generateTemplate(base)}# Tools\n-~- Editors:\n  - VS Code\n  - Vim\n`);
+      const target = parseTemplate(generateTemplate(withList).replace('  - Vim', '  - Neovim'));
+
+      const { template, conflicts } = mergeTargetEdits(withList, target, withList);
+
+      expect(template.sections[2].items[0]).toEqual({ key: 'Editors', value: '', list: ['VS Code', 'Neovim'] });
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should keep changes made only in the master template', () => {
+      const master = parseTemplate(generateTemplate(base).replace('Language: TypeScript', 'Language: Rust'));
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      const { template, conflicts } = mergeTargetEdits(base, target, master);
+
+      expect(template.sections[0].items[1].value).toBe('Manchester');
+      expect(template.sections[1].items[0].value).toBe('Rust');
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should add items and sections added in the file', () => {
+      const target = parseTemplate(`${generateTemplate(base)}# Tools
+## Tools I use
+-~- Editor: Vim
+`.replace('-~- Location: London', '-~- Location: London\n-~- Pronouns: they/them'));
+
+      const { template } = mergeTargetEdits(base, target, base);
+
+      expect(template.sections[0].items[2]).toEqual({ key: 'Pronouns', value: 'they/them' });
+      expect(template.sections[2]).toEqual({
+        title: 'Tools',
+        description: 'Tools I use',
+        items: [{ key: 'Editor', value: 'Vim' }]
+      });
+    });
+
+    it('should remove items and sections removed in the file', () => {
+      const target = parseTemplate(`# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+-~- Name: John Doe
+`);
+
+      const { template, conflicts } = mergeTargetEdits(base, target, base);
+
+      expect(template.sections.map(s => s.title)).toEqual(['User Information']);
+      expect(template.sections[0].items).toEqual([{ key: 'Name', value: 'John Doe' }]);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should report a value changed on both sides and keep the master value by default', () => {
+      const master = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Paris'));
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      const { template, conflicts } = mergeTargetEdits(base, target, master);
+
+      expect(template.sections[0].items[1].value).toBe('Paris');
+      expect(conflicts).toEqual([{
+        section: 'User Information',
+        key: 'Location',
+        base: 'London',
+        target: 'Manchester',
+        master: 'Paris'
+      }]);
+    });
+
+    it('should take the file value for a conflict when the file is preferred', () => {
+      const master = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Paris'));
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      const { template, conflicts } = mergeTargetEdits(base, target, master, 'target');
+
+      expect(template.sections[0].items[1].value).toBe('Manchester');
+      expect(conflicts).toHaveLength(1);
+    });
+
+    it('should leave sections the file never received untouched', () => {
+      const master = parseTemplate(`${generateTemplate(base)}# Windsurf Only
+<!-- platforms: windsurf -->
+-~- Cascade: enabled
+`);
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      const { template } = mergeTargetEdits(base, target, master);
+
+      expect(template.sections[2].title).toBe('Windsurf Only');
+      expect(template.sections[2].platforms).toEqual({ include: ['windsurf'] });
+      expect(template.sections[2].items).toEqual([{ key: 'Cascade', value: 'enabled' }]);
+    });
+
+    it('should not bring back an item the master template removed if the file left it alone', () => {
+      const master = parseTemplate(generateTemplate(base).replace('-~- Indentation: 2 spaces\n', ''));
+
+      const { template, conflicts } = mergeTargetEdits(base, base, master);
+
+      expect(template.sections[1].items.map(i => i.key)).toEqual(['Language']);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should not change the templates passed in', () => {
+      const master = parseTemplate(generateTemplate(base));
+      const target = parseTemplate(generateTemplate(base).replace('Location: London', 'Location: Manchester'));
+
+      mergeTargetEdits(base, target, master);
+
+      expect(master.sections[0].items[1].value).toBe('London');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  TemplateConflictError,
+  getTemplateRevision,
+  writeFileAtomic,
+  readSavedTemplate,
+  withFileLock
+} from '../../src/utils/templateRevision.js';
+
+describe('templateRevision module', () => {
+  describe('getTemplateRevision function', () => {
+    it('should give the same revision for the same content', () => {
+      const content = '# myAI Memory\n\n# User Information\n-~- Name: John Doe\n';
+
+      expect(getTemplateRevision(content)).toBe(getTemplateRevision(content));
+      expect(getTemplateRevision(content)).toMatch(/^[0-9a-f]{12}$/);
+    });
+
+    it('should give a different revision when the content changes', () => {
+      expect(getTemplateRevision('-~- Name: John')).not.toBe(getTemplateRevision('-~- Name: Jane'));
+    });
+  });
+
+  describe('TemplateConflictError class', () => {
+    it('should report both revisions', () => {
+      const error = new TemplateConflictError('aaaaaaaaaaaa', 'bbbbbbbbbbbb');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TemplateConflictError');
+      expect(error.message).toContain('aaaaaaaaaaaa');
+      expect(error.message).toContain('bbbbbbbbbbbb');
+    });
+  });
+
+  describe('writeFileAtomic function', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-atomic-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should replace the file without leaving temporary files behind', async () => {
+      const filePath = path.join(tempDir, 'template.md');
+      await fs.writeFile(filePath, 'old', 'utf-8');
+
+      await writeFileAtomic(filePath, 'new');
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('new');
+      expect(await fs.readdir(tempDir)).toEqual(['template.md']);
+    });
+
+    it('should fail without creating the file when the directory is missing', async () => {
+      const filePath = path.join(tempDir, 'missing', 'template.md');
+
+      await expect(writeFileAtomic(filePath, 'new')).rejects.toThrow();
+      expect(await fs.readdir(tempDir)).toEqual([]);
+    });
+
+    it('should not mix up writes that start at the same time', async () => {
+      const filePath = path.join(tempDir, 'template.md');
+
+      await Promise.all(['a', 'b', 'c'].map(content => writeFileAtomic(filePath, content.repeat(100000))));
+
+      expect(['a', 'b', 'c'].map(c => c.repeat(100000))).toContain(await fs.readFile(filePath, 'utf-8'));
+      expect(await fs.readdir(tempDir)).toEqual(['template.md']);
+    });
+  });
+
+  describe('readSavedTemplate function', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-saved-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should give the revision of the decoded content, or null without a file', async () => {
+      const filePath = path.join(tempDir, 'template.md');
+      expect(await readSavedTemplate(filePath, content => content)).toBeNull();
+
+      await fs.writeFile(filePath, 'stored', 'utf-8');
+      const saved = await readSavedTemplate(filePath, content => content.toUpperCase());
+
+      expect(saved).toEqual({ content: 'STORED', revision: getTemplateRevision('STORED') });
+    });
+  });
+
+  describe('withFileLock function', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'myai-lock-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should run tasks holding the lock one at a time, and remove it afterwards', async () => {
+      const filePath = path.join(tempDir, 'template.md');
+      const events: string[] = [];
+      const task = (name: string) => withFileLock(filePath, async () => {
+        events.push(`start ${name}`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`end ${name}`);
+      });
+
+      await Promise.all([task('a'), task('b')]);
+
+      expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+      expect(await fs.readdir(tempDir)).toEqual([]);
+    });
+
+    it('should take over a lock left behind by a writer that crashed', async () => {
+      const filePath = path.join(tempDir, 'template.md');
+      await fs.writeFile(`${filePath}.lock`, '', 'utf-8');
+      const old = new Date(Date.now() - 60000);
+      await fs.utimes(`${filePath}.lock`, old, old);
+
+      expect(await withFileLock(filePath, async () => 'done')).toBe('done');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  validateTemplateContent,
+  assertValidTemplate,
+  getTemplateDiagnostics,
+  formatDiagnostics,
+  TemplateValidationError,
+  MAX_SECTION_SIZE
+} from '../../src/utils/templateValidation.js';
+
+describe('Template validation', () => {
+  const validMarkdown = `# myAI Memory
+
+# User Information
+## Use this information if you need to reference them directly
+-~- Name: John Doe
+-~- Team:
+  -~- Alice: Frontend
+  -~- Bob: Backend
+`;
+
+  it('should find nothing wrong with a valid template', () => {
+    const result = validateTemplateContent(validMarkdown);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.template.sections[0].items[1].items).toHaveLength(2);
+  });
+
+  it('should report duplicate section titles and keys as errors on their lines', () => {
+    const markdown = [
+      '# User Information',
+      '-~- Name: John Doe',
+      '-~- name: Jane Doe',
+      '-~- Team:',
+      '  -~- Alice: Frontend',
+      '  -~- Alice: Backend',
+      '# user information',
+      '-~- Location: New York'
+    ].join('\n');
+    const result = validateTemplateContent(markdown);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(d => [d.line, d.severity, d.code])).toEqual([
+      [3, 'error', 'duplicate-key'],
+      [6, 'error', 'duplicate-key'],
+      [7, 'error', 'duplicate-section']
+    ]);
+    expect(result.diagnostics[1].message).toContain('under "Team"');
+  });
+
+  it('should warn about item lines without a key', () => {
+    const result = validateTemplateContent('# User Information\n-~- Name John Doe\nStray text\n-~- Location: New York\n');
+
+    expect(result.valid).toBe(true);
+    expect(result.template.sections[0].items[0]).toEqual({ key: 'Location', value: 'New York' });
+    expect(result.diagnostics.map(d => [d.line, d.severity, d.code])).toEqual([
+      [2, 'warning', 'malformed-item']
+    ]);
+  });
+
+  it('should warn about empty values and oversized sections without failing', () => {
+    const longValue = 'x'.repeat(MAX_SECTION_SIZE);
+    const result = validateTemplateContent(`# Notes\n-~- Empty:\n-~- Long: ${longValue}\n`);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map(d => [d.line, d.severity, d.code])).toEqual([
+      [1, 'warning', 'oversized-section'],
+      [2, 'warning', 'empty-value']
+    ]);
+  });
+
+  it('should reject content without sections', () => {
+    const result = validateTemplateContent('Invalid template content');
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(d => d.code)).toEqual(['no-sections']);
+  });
+
+  it('should check templates that were not parsed from markdown', () => {
+    const diagnostics = getTemplateDiagnostics({
+      sections: [{ title: 'Style', description: '', items: [{ key: 'Tone', value: 'Friendly' }, { key: 'Tone', value: 'Formal' }] }]
+    });
+
+    expect(diagnostics).toEqual([
+      { severity: 'error', code: 'duplicate-key', message: 'Key "Tone" appears more than once in section "Style"', section: 'Style' }
+    ]);
+    expect(getTemplateDiagnostics({ sections: 'not an array' } as any)[0].code).toBe('invalid-structure');
+  });
+
+  it('should throw the errors when asserting a template is valid', () => {
+    expect(assertValidTemplate(validMarkdown).valid).toBe(true);
+
+    const assertDuplicate = () => assertValidTemplate('# Style\n-~- Tone: Friendly\n-~- Tone: Formal\n');
+    expect(assertDuplicate).toThrow(TemplateValidationError);
+    expect(assertDuplicate).toThrow('line 3: error: Key "Tone" appears more than once');
+  });
+
+  it('should format diagnostics one per line', () => {
+    expect(formatDiagnostics([
+      { severity: 'warning', code: 'empty-value', message: '"Empty" has no value', line: 2 },
+      { severity: 'error', code: 'no-sections', message: 'The template has no sections' }
+    ])).toBe('line 2: warning: "Empty" has no value [empty-value]\nerror: The template has no sections [no-sections]');
+  });
+});
@@ -3,12 +3,12 @@
 import { printVersion } from './version.js';
 import { templateService } from './services/templateService.js';
 import { platformService } from './services/platformService.js';
-import { generateTemplate } from './templateParser.js';
 import { main as startHttpServer } from './server.js';
 import fs from 'fs/promises';
 import path from 'path';
 import { homedir } from 'os';
-import { ensureFileWritable } from './platformSync.js';
+import { extractMyAIMemorySection, updateMyAIMemorySection } from './platformSync.js';
+import { extractMemoryBlock } from './utils/memoryBlock.js';
 import { config } from './config.js';
 import { program } from 'commander';
 import { processMemoryCommand } from './naturalLanguageParser.js';
@@ -43,12 +43,16 @@ async function emergencySync() {
     const templateContent = await fs.readFile(masterPath, 'utf-8');
     
     // Get myAI Memory section
-    const myAIMemoryMatch = templateContent.match(/(# myAI Memory[\s\S]*)/);
-    if (!myAIMemoryMatch) {
+    const memoryBlock = extractMemoryBlock(templateContent);
+    if (!memoryBlock) {
       console.error('Could not find "# myAI Memory" section in the template');
       process.exit(1);
     }
-    const memorySection = myAIMemoryMatch[1];
+    
+    // Each platform gets its own view: without private sections and items, and only the sections
+    // targeted at it. Writes go through the same secrets policy as a normal sync.
+    const windsurfMemory = extractMyAIMemorySection(templateContent, 'windsurf');
+    const claudeMemory = extractMyAIMemorySection(templateContent, 'claude-code');
     
     // Sync to windsurf
     const windsurfPath = config.paths?.windsurfMemoryPath || 
@@ -56,34 +60,8 @@ async function emergencySync() {
     
     console.log(`Syncing to Windsurf at: ${windsurfPath}`);
     try {
-      // Ensure the file is writable
-      const windsurfWritable = await ensureFileWritable(windsurfPath);
-      if (windsurfWritable) {
-        // Read existing content if it exists
-        let windsurfContent = '';
-        try {
-          windsurfContent = await fs.readFile(windsurfPath, 'utf-8');
-        } catch (err) {
-          // File might not exist, that's okay
-        }
-        
-        // Check if it has myAI Memory section
-        const hasMemorySection = windsurfContent.includes('# myAI Memory');
-        
-        if (hasMemorySection) {
-          // Replace existing section
-          windsurfContent = windsurfContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-        } else {
-          // Append memory section
-          windsurfContent = windsurfContent.trim() + '\n\n' + memorySection;
-        }
-        
-        // Write updated content
-        await fs.writeFile(windsurfPath, windsurfContent);
-        console.log('✅ Successfully updated Windsurf memory');
-      } else {
-        console.error('❌ Could not make Windsurf file writable:', windsurfPath);
-      }
+      await updateMyAIMemorySection(windsurfPath, windsurfMemory);
+      console.log('✅ Successfully updated Windsurf memory');
     } catch (err) {
       console.error('❌ Error updating Windsurf:', err);
     }
@@ -97,34 +75,8 @@ async function emergencySync() {
     console.log(`Syncing to home CLAUDE.md at: ${homeClaudeMdPath}`);
     
     try {
-      // Ensure the file is writable
-      const homeClaudeWritable = await ensureFileWritable(homeClaudeMdPath);
-      if (homeClaudeWritable) {
-        // Read existing content if it exists
-        let claudeContent = '';
-        try {
-          claudeContent = await fs.readFile(homeClaudeMdPath, 'utf-8');
-        } catch (err) {
-          // File might not exist, that's okay
-        }
-        
-        // Check if it has myAI Memory section
-        const hasMemorySection = claudeContent.includes('# myAI Memory');
-        
-        if (hasMemorySection) {
-          // Replace existing section
-          claudeContent = claudeContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-        } else {
-          // Append memory section
-          claudeContent = claudeContent.trim() + '\n\n' + memorySection;
-        }
-        
-        // Write updated content
-        await fs.writeFile(homeClaudeMdPath, claudeContent);
-        console.log('✅ Successfully updated home CLAUDE.md');
-      } else {
-        console.error('❌ Could not make home CLAUDE.md file writable');
-      }
+      await updateMyAIMemorySection(homeClaudeMdPath, claudeMemory);
+      console.log('✅ Successfully updated home CLAUDE.md');
     } catch (err) {
       console.error('❌ Error updating home CLAUDE.md:', err);
     }
@@ -142,38 +94,11 @@ async function emergencySync() {
       
       // Process each directory
       for (const dir of directories) {
-        const dirPath = path.join(claudeProjectsPath, dir.name);
-        const claudeMdPath = path.join(dirPath, 'CLAUDE.md');
+        const claudeMdPath = path.join(claudeProjectsPath, dir.name, 'CLAUDE.md');
         
         try {
-          // Ensure the file is writable
-          const claudeWritable = await ensureFileWritable(claudeMdPath);
-          if (claudeWritable) {
-            // Read existing content if it exists
-            let claudeContent = '';
-            try {
-              claudeContent = await fs.readFile(claudeMdPath, 'utf-8');
-            } catch (err) {
-              // File might not exist, that's okay
-            }
-            
-            // Check if it has myAI Memory section
-            const hasMemorySection = claudeContent.includes('# myAI Memory');
-            
-            if (hasMemorySection) {
-              // Replace existing section
-              claudeContent = claudeContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-            } else {
-              // Append memory section
-              claudeContent = claudeContent.trim() + '\n\n' + memorySection;
-            }
-            
-            // Write updated content
-            await fs.writeFile(claudeMdPath, claudeContent);
-            successCount++;
-          } else {
-            failCount++;
-          }
+          await updateMyAIMemorySection(claudeMdPath, claudeMemory);
+          successCount++;
         } catch (err) {
           console.error(`Error updating ${claudeMdPath}:`, err);
           failCount++;
@@ -42,7 +42,33 @@ const defaultConfig = {
     masterTemplate: path.join(__dirname, '..', 'myAI Master.md'),
     claudeMdPath: path.join(os.homedir(), 'CLAUDE.md'),
     claudeProjectsPath: path.join(os.homedir(), 'CascadeProjects'),
-    windsurfMemoryPath: path.join(os.homedir(), '.codeium', 'windsurf', 'memories', 'global_rules.md')
+    windsurfMemoryPath: path.join(os.homedir(), '.codeium', 'windsurf', 'memories', 'global_rules.md'),
+    cursorRulesPath: '' // A folder to also write the Cursor rule into, outside any project (none by default)
+  },
+  // Which directories are synced as projects (CLAUDE.md, Cursor rules, Copilot instructions, AGENTS.md)
+  projects: {
+    roots: [] as string[], // Folders to search for projects (defaults to paths.claudeProjectsPath)
+    include: [] as string[], // Globs a project's path (relative to its root) must match, if any are given
+    exclude: [] as string[], // Globs for projects to skip
+    maxDepth: 1, // How many levels below a root to search (1 = only the root's subdirectories)
+    requireGit: false // Only treat directories containing .git as projects
+  },
+  // How syncs run - platforms, and the project files of each platform, are synced in parallel
+  sync: {
+    concurrency: 8, // Most platforms, and project files per platform, synced at once
+    targetTimeoutMs: 15000, // Give up on a single file after this long (0 = no limit)
+    platformTimeoutMs: 120000, // Give up on a whole platform after this long (0 = no limit)
+    optInPlatforms: [] as string[] // Platforms writing files projects usually commit, synced only when listed: 'cursor', 'github-copilot', 'agents-md'
+  },
+  // What to do when the memory contains what looks like an API key, token or password
+  secrets: {
+    policy: 'redact' as string, // 'redact' the value in synced files, 'reject' the write or sync, or 'off'
+    allowlist: [] as string[] // Values that look like secrets but aren't
+  },
+  // Encryption at rest for the template, its history, presets and master file backups
+  encryption: {
+    enabled: process.env.MYAI_ENCRYPTION === 'true', // Encrypt these files whenever they are written
+    keyFile: process.env.MYAI_KEY_FILE || '' // File holding the key (otherwise the MYAI_PASSPHRASE environment variable is used)
   },
   // Sync interval in milliseconds (default: 1 hour)
   syncInterval: 3600000
@@ -87,6 +113,22 @@ export const config = {
   paths: {
     ...defaultConfig.paths,
     ...(loadedConfig as any).paths
+  },
+  projects: {
+    ...defaultConfig.projects,
+    ...(loadedConfig as any).projects
+  },
+  sync: {
+    ...defaultConfig.sync,
+    ...(loadedConfig as any).sync
+  },
+  secrets: {
+    ...defaultConfig.secrets,
+    ...(loadedConfig as any).secrets
+  },
+  encryption: {
+    ...defaultConfig.encryption,
+    ...(loadedConfig as any).encryption
   }
 };
 
@@ -103,6 +145,14 @@ if (process.env.IMPLEMENTATION_TYPE) {
   config.services.implementationType = process.env.IMPLEMENTATION_TYPE;
 }
 
+if (process.env.MYAI_ENCRYPTION) {
+  config.encryption.enabled = process.env.MYAI_ENCRYPTION === 'true';
+}
+
+if (process.env.MYAI_KEY_FILE) {
+  config.encryption.keyFile = process.env.MYAI_KEY_FILE;
+}
+
 // Create a sample config file if it doesn't exist
 if (!fs.existsSync(CONFIG_FILE)) {
   try {
@@ -134,7 +184,29 @@ if (!fs.existsSync(CONFIG_FILE)) {
             masterTemplate: './myAI Master.md',
             claudeMdPath: '~/CLAUDE.md',
             claudeProjectsPath: '~/CascadeProjects',
-            windsurfMemoryPath: '~/.codeium/windsurf/memories/global_rules.md'
+            windsurfMemoryPath: '~/.codeium/windsurf/memories/global_rules.md',
+            cursorRulesPath: ''
+          },
+          projects: {
+            roots: ['~/CascadeProjects'],
+            include: [],
+            exclude: [],
+            maxDepth: 1,
+            requireGit: false
+          },
+          sync: {
+            concurrency: 8,
+            targetTimeoutMs: 15000,
+            platformTimeoutMs: 120000,
+            optInPlatforms: []
+          },
+          secrets: {
+            policy: 'redact',
+            allowlist: []
+          },
+          encryption: {
+            enabled: false,
+            keyFile: ''
           },
           syncInterval: 3600000
         },
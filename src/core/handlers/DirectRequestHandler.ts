@@ -3,9 +3,18 @@
  */
 import { McpServerOptions } from '../server/types.js';
 import { ServiceFactory } from '../services/ServiceFactory.js';
-import { generateTemplate } from '../../templateParser.js';
+import { generateTemplate, generateSection } from '../../templateParser.js';
 import { processMemoryCommand } from '../utils/MemoryCommandProcessor.js';
-import { PlatformType } from '../../types.js';
+import { pullTargetEdits, formatPullResult } from '../utils/TargetImporter.js';
+import { importOnboardingPreferences, formatOnboardingResult } from '../utils/OnboardingImporter.js';
+import { getSectionValues, getTemplateValues, isItemValue } from '../../utils/itemValues.js';
+import { MemoryTemplate, PlatformType } from '../../types.js';
+import { formatSyncFileChanges, formatPlatformTargets, formatSyncDuration, formatSyncResultsJson } from '../../platformSync.js';
+import { getProjectOverlayPath, readProjectOverlay, writeProjectOverlay } from '../../utils/projectOverlay.js';
+import { discoverProjects, getProjectDiscoveryOptions, formatDiscoveredProjects } from '../../utils/projectDiscovery.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { validateTemplateContent, formatDiagnostics, formatValidationResult } from '../../utils/templateValidation.js';
+import { exportTemplate, importTemplate, isTemplateFormat, TEMPLATE_FORMATS } from '../../utils/templateFormats.js';
 
 export class DirectRequestHandler {
   private initialized: boolean = false;
@@ -73,6 +82,10 @@ export class DirectRequestHandler {
                   type: 'string',
                   description: 'The content to store',
                 },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
               },
             },
           },
@@ -86,6 +99,220 @@ export class DirectRequestHandler {
                   type: 'string',
                   description: 'The full template content',
                 },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_validate_template',
+            description: 'Check a template for problems, with line numbers',
+            parameters: {
+              type: 'object',
+              properties: {
+                content: {
+                  type: 'string',
+                  description: 'Template content to check; defaults to the saved template',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_export',
+            description: 'Export your myAImemory template as JSON, YAML or a markdown list',
+            parameters: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: ['json', 'yaml', 'markdown'],
+                  description: 'Format to export: json, yaml or markdown (a conventional bullet list) (default: json)',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_import',
+            description: 'Import a template from JSON, YAML or a markdown list into your myAImemory',
+            parameters: {
+              type: 'object',
+              properties: {
+                content: {
+                  type: 'string',
+                  description: 'The template to import, in the given format',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'yaml', 'markdown'],
+                  description: 'Format of the content: json, yaml or markdown (a conventional bullet list)',
+                },
+                strategy: {
+                  type: 'string',
+                  enum: ['merge', 'replace'],
+                  description: '"merge" adds to the current template, with imported values winning; "replace" uses the imported template alone (default: merge)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the import is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_delete_section',
+            description: 'Delete a memory section and all of its items',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section to delete',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_rename_section',
+            description: 'Rename a memory section, keeping its items',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section to rename',
+                },
+                newName: {
+                  type: 'string',
+                  description: 'The new section name',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_reorder_sections',
+            description: 'Reorder memory sections',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionNames: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Sections in their new order (unlisted sections follow in their current order)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_set_item',
+            description: 'Set a single memory item, adding it if it doesn\'t exist',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section containing the item (created if it doesn\'t exist)',
+                },
+                key: {
+                  type: 'string',
+                  description: 'The item key',
+                },
+                value: {
+                  type: ['string', 'number', 'boolean', 'array', 'object'],
+                  description: 'The new value: text, a boolean or number, a list, or an object of sub-items',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_delete_item',
+            description: 'Delete a single memory item',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section containing the item',
+                },
+                key: {
+                  type: 'string',
+                  description: 'The item key',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_rename_item',
+            description: 'Rename a memory item, keeping its value',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section containing the item',
+                },
+                key: {
+                  type: 'string',
+                  description: 'The current item key',
+                },
+                newKey: {
+                  type: 'string',
+                  description: 'The new item key',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_move_item',
+            description: 'Move a memory item within its section or to another section',
+            parameters: {
+              type: 'object',
+              properties: {
+                sectionName: {
+                  type: 'string',
+                  description: 'The section containing the item',
+                },
+                key: {
+                  type: 'string',
+                  description: 'The item key',
+                },
+                targetSectionName: {
+                  type: 'string',
+                  description: 'The section to move the item to (may be the same section to reorder it)',
+                },
+                position: {
+                  type: 'number',
+                  description: 'Zero-based position in the target section (defaults to the end)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
               },
             },
           },
@@ -107,6 +334,33 @@ export class DirectRequestHandler {
                   type: 'string',
                   description: 'The name of the preset to load',
                 },
+                mode: {
+                  type: 'string',
+                  enum: ['replace', 'merge'],
+                  description: '"replace" swaps in the preset\'s sections (only the ones it has, for a partial preset); "merge" adds its sections and items, with its values winning (default: replace)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_diff_preset',
+            description: 'Show what loading a myAImemory preset would change, without loading it',
+            parameters: {
+              type: 'object',
+              properties: {
+                presetName: {
+                  type: 'string',
+                  description: 'The name of the preset to compare with the template',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['replace', 'merge'],
+                  description: 'How the preset would be loaded, as for myai_load_preset (default: replace)',
+                },
               },
             },
           },
@@ -125,25 +379,167 @@ export class DirectRequestHandler {
           },
           {
             name: 'myai_sync_platforms',
-            description: 'Sync your myAImemory to platform(s)',
+            description: 'Sync your myAImemory to platform(s), returning a summary and the result of each file as JSON',
+            parameters: {
+              type: 'object',
+              properties: {
+                platform: {
+                  type: 'string',
+                  description: 'Specific platform to sync (optional): claude-code, claude-web, windsurf, cursor, github-copilot, agents-md',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Preview the changes as unified diffs without writing any files (optional)',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_pull_edits',
+            description: 'Merge edits made directly in synced files (CLAUDE.md, global_rules.md, ...) back into your myAImemory',
             parameters: {
               type: 'object',
               properties: {
                 platform: {
                   type: 'string',
-                  description: 'Specific platform to sync (optional)',
+                  description: 'Only pull from this platform\'s files (optional): claude-code, claude-web, windsurf, cursor, github-copilot, agents-md',
+                },
+                apply: {
+                  type: 'boolean',
+                  description: 'Save the merged template and sync it; without this the merge is only previewed (optional)',
+                },
+                prefer: {
+                  type: 'string',
+                  enum: ['master', 'target'],
+                  description: 'Which side wins when a value was changed in both the file and the master template (default: master)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from get_template or get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_onboard',
+            description: 'Import preferences already written in ~/.claude/CLAUDE.md, CLAUDE.md files and Windsurf rules into your myAImemory, as a plan to review first',
+            parameters: {
+              type: 'object',
+              properties: {
+                paths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Files to import from (optional); defaults to ~/.claude/CLAUDE.md, the synced CLAUDE.md files and Windsurf\'s global rules',
+                },
+                skip: {
+                  type: 'array',
+                  items: { type: 'number' },
+                  description: 'Numbers of candidates from the plan to leave out (optional)',
+                },
+                apply: {
+                  type: 'boolean',
+                  description: 'Add the new items to the template and sync it; without this the plan is only previewed (optional)',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
                 },
               },
             },
           },
           {
             name: 'myai_list_platforms',
-            description: 'List configured platforms for myAImemory',
+            description: 'List configured platforms for myAImemory, with the files each syncs to and when they were last synced',
+            parameters: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'myai_list_projects',
+            description: 'Preview the project directories that receive CLAUDE.md and the other per-project memory files',
             parameters: {
               type: 'object',
               properties: {},
             },
           },
+          {
+            name: 'myai_get_project_overlay',
+            description: 'Get the memory overlay merged into a project\'s CLAUDE.md',
+            parameters: {
+              type: 'object',
+              properties: {
+                projectPath: {
+                  type: 'string',
+                  description: 'The project directory',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_update_project_overlay',
+            description: 'Replace the memory overlay merged into a project\'s CLAUDE.md',
+            parameters: {
+              type: 'object',
+              properties: {
+                projectPath: {
+                  type: 'string',
+                  description: 'The project directory',
+                },
+                content: {
+                  type: 'string',
+                  description: 'The overlay in template format (# Section, ## description, -~- Key: Value)',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_history',
+            description: 'List revisions of the memory template, newest first',
+            parameters: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of revisions to list',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_diff_revisions',
+            description: 'Show a unified diff between two revisions of the memory template',
+            parameters: {
+              type: 'object',
+              properties: {
+                fromRevision: {
+                  type: 'number',
+                  description: 'The older revision',
+                },
+                toRevision: {
+                  type: 'number',
+                  description: 'The newer revision (defaults to the latest)',
+                },
+              },
+            },
+          },
+          {
+            name: 'myai_rollback',
+            description: 'Restore the memory template to an earlier revision and sync it to all platforms',
+            parameters: {
+              type: 'object',
+              properties: {
+                revisionId: {
+                  type: 'number',
+                  description: 'The revision to restore',
+                },
+                expectedRevision: {
+                  type: 'string',
+                  description: 'Revision from myai_get_template or myai_get_section; the change is rejected if the template has been saved since',
+                },
+              },
+            },
+          },
           {
             name: 'remember',
             description: 'Process a natural language memory command',
@@ -182,6 +578,46 @@ export class DirectRequestHandler {
         case 'update_template':
           return this.handleUpdateTemplate(args);
           
+        case 'myai_validate_template':
+        case 'validate_template':
+          return this.handleValidateTemplate(args);
+          
+        case 'myai_export':
+        case 'export':
+          return this.handleExport(args);
+          
+        case 'myai_import':
+        case 'import':
+          return this.handleImport(args);
+          
+        case 'myai_delete_section':
+        case 'delete_section':
+          return this.handleDeleteSection(args);
+          
+        case 'myai_rename_section':
+        case 'rename_section':
+          return this.handleRenameSection(args);
+          
+        case 'myai_reorder_sections':
+        case 'reorder_sections':
+          return this.handleReorderSections(args);
+          
+        case 'myai_set_item':
+        case 'set_item':
+          return this.handleSetItem(args);
+          
+        case 'myai_delete_item':
+        case 'delete_item':
+          return this.handleDeleteItem(args);
+          
+        case 'myai_rename_item':
+        case 'rename_item':
+          return this.handleRenameItem(args);
+          
+        case 'myai_move_item':
+        case 'move_item':
+          return this.handleMoveItem(args);
+          
         case 'myai_list_presets':
         case 'list_presets':
           return this.handleListPresets();
@@ -190,6 +626,10 @@ export class DirectRequestHandler {
         case 'load_preset':
           return this.handleLoadPreset(args);
           
+        case 'myai_diff_preset':
+        case 'diff_preset':
+          return this.handleDiffPreset(args);
+          
         case 'myai_create_preset':
         case 'create_preset':
           return this.handleCreatePreset(args);
@@ -198,10 +638,42 @@ export class DirectRequestHandler {
         case 'sync_platforms':
           return this.handleSyncPlatforms(args);
           
+        case 'myai_list_projects':
+        case 'list_projects':
+          return this.handleListProjects();
+          
+        case 'myai_pull_edits':
+        case 'pull_edits':
+          return this.handlePullEdits(args);
+          
+        case 'myai_onboard':
+        case 'onboard':
+          return this.handleOnboard(args);
+          
         case 'myai_list_platforms':
         case 'list_platforms':
           return this.handleListPlatforms();
           
+        case 'myai_get_project_overlay':
+        case 'get_project_overlay':
+          return this.handleGetProjectOverlay(args);
+          
+        case 'myai_update_project_overlay':
+        case 'update_project_overlay':
+          return this.handleUpdateProjectOverlay(args);
+          
+        case 'myai_history':
+        case 'history':
+          return this.handleHistory(args);
+          
+        case 'myai_diff_revisions':
+        case 'diff_revisions':
+          return this.handleDiffRevisions(args);
+          
+        case 'myai_rollback':
+        case 'rollback':
+          return this.handleRollback(args);
+          
         case 'remember':
           return this.handleRemember(args);
           
@@ -296,7 +768,7 @@ export class DirectRequestHandler {
         content: [{ 
           type: 'text', 
           text: markdown 
-        }]
+        }, this.valuesContent(getTemplateValues(template)), ...this.revisionContent(template)]
       };
     } catch (error) {
       console.error(`Error in get_template: ${error instanceof Error ? error.message : String(error)}`);
@@ -340,21 +812,14 @@ export class DirectRequestHandler {
         };
       }
       
-      // Format section as markdown
-      let sectionText = `# ${section.title}\n`;
-      if (section.description) {
-        sectionText += `## ${section.description}\n`;
-      }
-      
-      for (const item of section.items) {
-        sectionText += `-~- ${item.key}: ${item.value}\n`;
-      }
+      // Format section as markdown, with its targeting rules and private markers
+      const sectionText = generateSection(section);
       
       return {
         content: [{ 
           type: 'text', 
           text: sectionText 
-        }]
+        }, this.valuesContent(getSectionValues(section)), ...this.revisionContent(templateService.getTemplate())]
       };
     } catch (error) {
       console.error(`Error in get_section: ${error instanceof Error ? error.message : String(error)}`);
@@ -373,7 +838,7 @@ export class DirectRequestHandler {
    */
   private async handleUpdateSection(args: any) {
     try {
-      const { sectionName, content } = args;
+      const { sectionName, content, expectedRevision } = args;
       
       if (!sectionName || !content) {
         return {
@@ -392,7 +857,7 @@ export class DirectRequestHandler {
         const platformService = ServiceFactory.getPlatformService();
         
         // Update section in template store
-        await templateService.updateSection(sectionName, content);
+        await templateService.updateSection(sectionName, content, { source: 'update_section', expectedRevision });
         
         // Get the full template content (as object)
         const templateObj = templateService.getTemplate();
@@ -444,7 +909,7 @@ export class DirectRequestHandler {
    */
   private async handleUpdateTemplate(args: any) {
     try {
-      const { content } = args;
+      const { content, expectedRevision } = args;
       
       if (!content) {
         return {
@@ -459,7 +924,10 @@ export class DirectRequestHandler {
       const templateService = ServiceFactory.getTemplateService();
       const platformService = ServiceFactory.getPlatformService();
       
-      const success = await templateService.updateTemplate(content);
+      // Errors reject the update (with the diagnostics in the error); warnings are shown after it
+      const warnings = validateTemplateContent(content).diagnostics.filter(d => d.severity === 'warning');
+      
+      const success = await templateService.updateTemplate(content, { source: 'update_template', expectedRevision });
       
       if (!success) {
         return {
@@ -477,7 +945,8 @@ export class DirectRequestHandler {
       return {
         content: [{ 
           type: 'text', 
-          text: 'Template updated successfully and synced to all platforms' 
+          text: 'Template updated successfully and synced to all platforms' +
+            (warnings.length > 0 ? `\n\nWarnings:\n${formatDiagnostics(warnings)}` : '')
         }]
       };
     } catch (error) {
@@ -493,34 +962,62 @@ export class DirectRequestHandler {
   }
   
   /**
-   * Handler for list_presets tool
+   * Handler for validate_template tool
    */
-  private async handleListPresets() {
+  private async handleValidateTemplate(args: any) {
     try {
       const templateService = ServiceFactory.getTemplateService();
-      const presets = await templateService.listPresets();
+      const result = validateTemplateContent(args?.content ?? generateTemplate(templateService.getTemplate()));
       
-      if (presets.length === 0) {
+      return {
+        content: [
+          { type: 'text', text: formatValidationResult(result) },
+          { type: 'text', text: JSON.stringify({ valid: result.valid, diagnostics: result.diagnostics }, null, 2) }
+        ]
+      };
+    } catch (error) {
+      console.error(`Error in validate_template: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error validating template: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for export tool
+   */
+  private async handleExport(args: any) {
+    try {
+      const format = args?.format ?? 'json';
+      
+      if (!isTemplateFormat(format)) {
         return {
           content: [{ 
             type: 'text', 
-            text: 'No presets found' 
-          }]
+            text: `Unknown format "${format}"; use one of: ${TEMPLATE_FORMATS.join(', ')}` 
+          }],
+          isError: true
         };
       }
       
+      const templateService = ServiceFactory.getTemplateService();
+      
       return {
         content: [{ 
           type: 'text', 
-          text: `Available presets:\n${presets.join('\n')}` 
+          text: exportTemplate(templateService.getTemplate(), format)
         }]
       };
     } catch (error) {
-      console.error(`Error in list_presets: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Error in export: ${error instanceof Error ? error.message : String(error)}`);
       return {
         content: [{ 
           type: 'text', 
-          text: `Error listing presets: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error exporting template: ${error instanceof Error ? error.message : String(error)}` 
         }],
         isError: true
       };
@@ -528,17 +1025,27 @@ export class DirectRequestHandler {
   }
   
   /**
-   * Handler for load_preset tool
+   * Handler for import tool
    */
-  private async handleLoadPreset(args: any) {
+  private async handleImport(args: any) {
     try {
-      const { presetName } = args;
+      const { content, format, strategy = 'merge', expectedRevision } = args || {};
       
-      if (!presetName) {
+      if (!content || !isTemplateFormat(format)) {
         return {
           content: [{ 
             type: 'text', 
-            text: 'Preset name is required' 
+            text: `Template content and a format (${TEMPLATE_FORMATS.join(', ')}) are required` 
+          }],
+          isError: true
+        };
+      }
+      
+      if (strategy !== 'merge' && strategy !== 'replace') {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Unknown strategy "${strategy}"; use merge or replace` 
           }],
           isError: true
         };
@@ -547,13 +1054,16 @@ export class DirectRequestHandler {
       const templateService = ServiceFactory.getTemplateService();
       const platformService = ServiceFactory.getPlatformService();
       
-      const success = await templateService.loadPreset(presetName);
+      const result = importTemplate(templateService.getTemplate(), content, format, strategy);
+      const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+      
+      const success = await templateService.updateTemplate(generateTemplate(result.template), { source: 'import', expectedRevision });
       
       if (!success) {
         return {
           content: [{ 
             type: 'text', 
-            text: `Failed to load preset '${presetName}'` 
+            text: 'Failed to import template' 
           }],
           isError: true
         };
@@ -565,15 +1075,16 @@ export class DirectRequestHandler {
       return {
         content: [{ 
           type: 'text', 
-          text: `Preset '${presetName}' loaded successfully and synced to all platforms` 
+          text: `Template imported (${strategy}, ${result.template.sections.length} sections) and synced to all platforms` +
+            (warnings.length > 0 ? `\n\nWarnings:\n${formatDiagnostics(warnings)}` : '')
         }]
       };
     } catch (error) {
-      console.error(`Error in load_preset: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Error in import: ${error instanceof Error ? error.message : String(error)}`);
       return {
         content: [{ 
           type: 'text', 
-          text: `Error loading preset: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error importing template: ${error instanceof Error ? error.message : String(error)}` 
         }],
         isError: true
       };
@@ -581,47 +1092,49 @@ export class DirectRequestHandler {
   }
   
   /**
-   * Handler for create_preset tool
+   * Handler for delete_section tool
    */
-  private async handleCreatePreset(args: any) {
+  private async handleDeleteSection(args: any) {
     try {
-      const { presetName } = args;
+      const { sectionName, expectedRevision } = args || {};
       
-      if (!presetName) {
+      if (!sectionName) {
         return {
           content: [{ 
             type: 'text', 
-            text: 'Preset name is required' 
+            text: 'sectionName is a required parameter' 
           }],
           isError: true
         };
       }
       
       const templateService = ServiceFactory.getTemplateService();
-      const success = await templateService.createPreset(presetName);
+      const success = await templateService.deleteSection(sectionName, { source: 'delete_section', expectedRevision });
       
       if (!success) {
         return {
           content: [{ 
             type: 'text', 
-            text: `Failed to create preset '${presetName}'` 
+            text: `Failed to delete section '${sectionName}'` 
           }],
           isError: true
         };
       }
       
+      const syncSummary = await this.syncTemplateEdit();
+      
       return {
         content: [{ 
           type: 'text', 
-          text: `Preset '${presetName}' created successfully` 
+          text: `Section '${sectionName}' deleted. ${syncSummary}` 
         }]
       };
     } catch (error) {
-      console.error(`Error in create_preset: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Error in delete_section: ${error instanceof Error ? error.message : String(error)}`);
       return {
         content: [{ 
           type: 'text', 
-          text: `Error creating preset: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error deleting section: ${error instanceof Error ? error.message : String(error)}` 
         }],
         isError: true
       };
@@ -629,44 +1142,99 @@ export class DirectRequestHandler {
   }
   
   /**
-   * Handler for sync_platforms tool
+   * Handler for rename_section tool
    */
-  private async handleSyncPlatforms(args: any) {
+  private async handleRenameSection(args: any) {
     try {
-      const { platform } = args || {};
-      let results;
+      const { sectionName, newName, expectedRevision } = args || {};
       
-      const platformService = ServiceFactory.getPlatformService();
+      if (!sectionName || !newName) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionName and newName are required parameters' 
+          }],
+          isError: true
+        };
+      }
       
-      if (platform) {
-        const platformType = platform as PlatformType;
-        const result = await platformService.syncPlatform(platformType);
-        results = [result];
-      } else {
-        results = await platformService.syncAll();
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.renameSection(sectionName, newName, { source: 'rename_section', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to rename section '${sectionName}'` 
+          }],
+          isError: true
+        };
       }
       
-      const successCount = results.filter(r => r.success).length;
-      const failCount = results.length - successCount;
+      const syncSummary = await this.syncTemplateEdit();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Section '${sectionName}' renamed to '${newName}'. ${syncSummary}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in rename_section: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error renaming section: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for reorder_sections tool
+   */
+  private async handleReorderSections(args: any) {
+    try {
+      const { sectionNames, expectedRevision } = args || {};
+      
+      if (!Array.isArray(sectionNames) || sectionNames.length === 0) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionNames must be a non-empty array of section names' 
+          }],
+          isError: true
+        };
+      }
       
-      let resultText = `Sync completed: ${successCount} successful, ${failCount} failed\n\n`;
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.reorderSections(sectionNames, { source: 'reorder_sections', expectedRevision });
       
-      for (const result of results) {
-        resultText += `${result.platform}: ${result.success ? '✅' : '❌'} ${result.message}\n`;
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Failed to reorder sections' 
+          }],
+          isError: true
+        };
       }
       
+      const syncSummary = await this.syncTemplateEdit();
+      
       return {
         content: [{ 
           type: 'text', 
-          text: resultText 
+          text: `Sections reordered. ${syncSummary}` 
         }]
       };
     } catch (error) {
-      console.error(`Error in sync_platforms: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Error in reorder_sections: ${error instanceof Error ? error.message : String(error)}`);
       return {
         content: [{ 
           type: 'text', 
-          text: `Error syncing platforms: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error reordering sections: ${error instanceof Error ? error.message : String(error)}` 
         }],
         isError: true
       };
@@ -674,25 +1242,832 @@ export class DirectRequestHandler {
   }
   
   /**
-   * Handler for list_platforms tool
+   * Handler for set_item tool
    */
-  private async handleListPlatforms() {
+  private async handleSetItem(args: any) {
     try {
-      const platformService = ServiceFactory.getPlatformService();
-      const platforms = platformService.getPlatforms();
+      const { sectionName, key, value, expectedRevision } = args || {};
+      
+      if (!sectionName || !key || !isItemValue(value)) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionName, key and value are required parameters, and value must be text, a boolean or number, a list or an object of sub-items' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.setItem(sectionName, key, value, { source: 'set_item', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to set item '${key}' in section '${sectionName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      const syncSummary = await this.syncTemplateEdit();
       
       return {
         content: [{ 
           type: 'text', 
-          text: `Configured platforms:\n${platforms.join('\n')}` 
+          text: `Item '${key}' set in section '${sectionName}'. ${syncSummary}` 
         }]
       };
     } catch (error) {
-      console.error(`Error in list_platforms: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`Error in set_item: ${error instanceof Error ? error.message : String(error)}`);
       return {
         content: [{ 
           type: 'text', 
-          text: `Error listing platforms: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error setting item: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for delete_item tool
+   */
+  private async handleDeleteItem(args: any) {
+    try {
+      const { sectionName, key, expectedRevision } = args || {};
+      
+      if (!sectionName || !key) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionName and key are required parameters' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.deleteItem(sectionName, key, { source: 'delete_item', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to delete item '${key}' from section '${sectionName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      const syncSummary = await this.syncTemplateEdit();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Item '${key}' deleted from section '${sectionName}'. ${syncSummary}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in delete_item: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error deleting item: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for rename_item tool
+   */
+  private async handleRenameItem(args: any) {
+    try {
+      const { sectionName, key, newKey, expectedRevision } = args || {};
+      
+      if (!sectionName || !key || !newKey) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionName, key and newKey are required parameters' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.renameItem(sectionName, key, newKey, { source: 'rename_item', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to rename item '${key}' in section '${sectionName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      const syncSummary = await this.syncTemplateEdit();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Item '${key}' renamed to '${newKey}' in section '${sectionName}'. ${syncSummary}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in rename_item: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error renaming item: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for move_item tool
+   */
+  private async handleMoveItem(args: any) {
+    try {
+      const { sectionName, key, targetSectionName, position, expectedRevision } = args || {};
+      
+      if (!sectionName || !key || !targetSectionName) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'sectionName, key and targetSectionName are required parameters' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.moveItem(sectionName, key, targetSectionName, position, { source: 'move_item', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to move item '${key}' from section '${sectionName}' to '${targetSectionName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      const syncSummary = await this.syncTemplateEdit();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Item '${key}' moved to section '${targetSectionName}'. ${syncSummary}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in move_item: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error moving item: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Content block reporting the template's revision, which write tools accept as expectedRevision
+   */
+  private revisionContent(template: MemoryTemplate): { type: 'text'; text: string }[] {
+    return template.revision ? [{ type: 'text', text: `Revision: ${template.revision}` }] : [];
+  }
+  
+  /**
+   * Content block with items' typed values as JSON: lists as arrays, sub-items as objects,
+   * and booleans, numbers and dates (as ISO strings) as their types
+   */
+  private valuesContent(values: object): { type: 'text'; text: string } {
+    return { type: 'text', text: `Values: ${JSON.stringify(values)}` };
+  }
+  
+  /**
+   * Sync the current template to all platforms after an edit
+   * @returns A summary of the sync for the tool response
+   */
+  private async syncTemplateEdit(): Promise<string> {
+    const templateService = ServiceFactory.getTemplateService();
+    const platformService = ServiceFactory.getPlatformService();
+    
+    const syncResults = await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+    const successCount = syncResults.filter(r => r.success).length;
+    
+    return `Synced to ${successCount}/${syncResults.length} platforms.`;
+  }
+  
+  /**
+   * Handler for list_presets tool
+   */
+  private async handleListPresets() {
+    try {
+      const templateService = ServiceFactory.getTemplateService();
+      const presets = await templateService.listPresets();
+      
+      if (presets.length === 0) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'No presets found' 
+          }]
+        };
+      }
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Available presets:\n${presets.join('\n')}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in list_presets: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error listing presets: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for load_preset tool
+   */
+  private async handleLoadPreset(args: any) {
+    try {
+      const { presetName, mode, expectedRevision } = args;
+      
+      if (!presetName) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Preset name is required' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const platformService = ServiceFactory.getPlatformService();
+      
+      const success = await templateService.loadPreset(presetName, {
+        source: 'load_preset',
+        mode: mode === 'merge' ? 'merge' : 'replace',
+        expectedRevision
+      });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to load preset '${presetName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      // Sync with platforms
+      await platformService.syncAll();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Preset '${presetName}' loaded successfully and synced to all platforms` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in load_preset: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error loading preset: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for diff_preset tool
+   */
+  private async handleDiffPreset(args: any) {
+    try {
+      const { presetName, mode } = args || {};
+      
+      if (!presetName) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Preset name is required' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const presetTemplate = await templateService.getPresetTemplate(presetName, mode === 'merge' ? 'merge' : 'replace');
+      
+      const diff = createUnifiedDiff(
+        generateTemplate(templateService.getTemplate()),
+        generateTemplate(presetTemplate),
+        'template.md',
+        `template.md (preset ${presetName})`
+      );
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: diff || `Loading preset '${presetName}' would leave the template unchanged` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in diff_preset: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error comparing preset: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for create_preset tool
+   */
+  private async handleCreatePreset(args: any) {
+    try {
+      const { presetName } = args;
+      
+      if (!presetName) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Preset name is required' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const success = await templateService.createPreset(presetName);
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to create preset '${presetName}'` 
+          }],
+          isError: true
+        };
+      }
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Preset '${presetName}' created successfully` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in create_preset: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error creating preset: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for sync_platforms tool
+   */
+  private async handleSyncPlatforms(args: any) {
+    try {
+      const { platform, dryRun } = args || {};
+      const options = { dryRun: dryRun === true };
+      let results;
+      
+      const platformService = ServiceFactory.getPlatformService();
+      
+      if (platform) {
+        const platformType = platform as PlatformType;
+        const result = await platformService.syncPlatform(platformType, undefined, options);
+        results = [result];
+      } else {
+        results = await platformService.syncAll(undefined, options);
+      }
+      
+      const successCount = results.filter(r => r.success).length;
+      const failCount = results.length - successCount;
+      
+      let resultText = options.dryRun
+        ? `Dry run completed (no files were written): ${successCount} successful, ${failCount} failed\n\n`
+        : `Sync completed: ${successCount} successful, ${failCount} failed\n\n`;
+      
+      for (const result of results) {
+        resultText += `${result.platform}: ${result.success ? '✅' : '❌'} ${result.message}${formatSyncDuration(result.durationMs)}\n`;
+        // Every file in a dry run, otherwise only the ones that failed
+        resultText += formatSyncFileChanges(
+          options.dryRun ? result.files : result.files?.filter(file => file.action === 'failed')
+        );
+      }
+      
+      // The per-file results as JSON, alongside the summary
+      return {
+        content: [
+          { 
+            type: 'text', 
+            text: resultText 
+          },
+          {
+            type: 'text',
+            text: formatSyncResultsJson(results)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error(`Error in sync_platforms: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error syncing platforms: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for pull_edits tool
+   */
+  private async handlePullEdits(args: any) {
+    try {
+      const { platform, apply, prefer, expectedRevision } = args || {};
+      
+      const result = await pullTargetEdits({
+        platform: platform as PlatformType | undefined,
+        apply: apply === true,
+        prefer: prefer === 'target' ? 'target' : 'master',
+        expectedRevision,
+        source: 'pull_edits'
+      });
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: formatPullResult(result) 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in pull_edits: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error pulling edits: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for onboard tool
+   */
+  private async handleOnboard(args: any) {
+    try {
+      const { paths, skip, apply, expectedRevision } = args || {};
+      
+      const result = await importOnboardingPreferences({
+        paths: Array.isArray(paths) ? paths : undefined,
+        skip: Array.isArray(skip) ? skip.map(Number) : undefined,
+        apply: apply === true,
+        expectedRevision,
+        source: 'onboard'
+      });
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: formatOnboardingResult(result) 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in onboard: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error importing preferences: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for list_platforms tool
+   */
+  private async handleListPlatforms() {
+    try {
+      const platformService = ServiceFactory.getPlatformService();
+      const platforms = platformService.getPlatforms();
+      const targets = await platformService.getSyncTargets();
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Configured platforms:\n${formatPlatformTargets(platforms, targets)}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in list_platforms: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error listing platforms: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for list_projects tool
+   */
+  private async handleListProjects() {
+    try {
+      const options = getProjectDiscoveryOptions();
+      const projects = await discoverProjects(options);
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: formatDiscoveredProjects(options, projects) 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in list_projects: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error listing projects: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for get_project_overlay tool
+   */
+  private async handleGetProjectOverlay(args: any) {
+    try {
+      const { projectPath } = args || {};
+      
+      if (!projectPath) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Project path is required' 
+          }],
+          isError: true
+        };
+      }
+      
+      const overlay = await readProjectOverlay(projectPath);
+      
+      if (!overlay) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `No overlay found at ${getProjectOverlayPath(projectPath)}` 
+          }]
+        };
+      }
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: generateTemplate(overlay) 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in get_project_overlay: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error retrieving project overlay: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for update_project_overlay tool
+   */
+  private async handleUpdateProjectOverlay(args: any) {
+    try {
+      const { projectPath, content } = args || {};
+      
+      if (!projectPath || typeof content !== 'string') {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Project path and content are required' 
+          }],
+          isError: true
+        };
+      }
+      
+      await writeProjectOverlay(projectPath, content);
+      
+      // Re-sync CLAUDE.md files so the project picks up its new overlay
+      const templateService = ServiceFactory.getTemplateService();
+      const platformService = ServiceFactory.getPlatformService();
+      const result = await platformService.syncPlatform('claude-code', generateTemplate(templateService.getTemplate()));
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Project overlay saved to ${getProjectOverlayPath(projectPath)}. ${result.success ? '✅' : '❌'} claude-code: ${result.message}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in update_project_overlay: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error updating project overlay: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for history tool
+   */
+  private async handleHistory(args: any) {
+    try {
+      const { limit } = args || {};
+      
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Limit must be a positive integer' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const revisions = await templateService.getHistory(limit);
+      
+      if (revisions.length === 0) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'No revisions recorded yet' 
+          }]
+        };
+      }
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: revisions.map(r => `#${r.id}  ${r.timestamp}  ${r.source}`).join('\n') 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in history: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error retrieving history: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for diff_revisions tool
+   */
+  private async handleDiffRevisions(args: any) {
+    try {
+      const { fromRevision, toRevision } = args || {};
+      
+      if (!Number.isInteger(fromRevision) || (toRevision !== undefined && !Number.isInteger(toRevision))) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Revision ids must be integers' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const from = await templateService.getRevision(fromRevision);
+      const to = toRevision !== undefined
+        ? await templateService.getRevision(toRevision)
+        : (await templateService.getHistory(1))[0] || null;
+      
+      if (!from || !to) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Revision ${!from ? fromRevision : toRevision} not found` 
+          }],
+          isError: true
+        };
+      }
+      
+      const diff = createUnifiedDiff(from.content, to.content, `revision ${from.id}`, `revision ${to.id}`);
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: diff || `No differences between revision ${from.id} and revision ${to.id}` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in diff_revisions: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error comparing revisions: ${error instanceof Error ? error.message : String(error)}` 
+        }],
+        isError: true
+      };
+    }
+  }
+  
+  /**
+   * Handler for rollback tool
+   */
+  private async handleRollback(args: any) {
+    try {
+      const { revisionId, expectedRevision } = args || {};
+      
+      if (!Number.isInteger(revisionId)) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: 'Revision id is required' 
+          }],
+          isError: true
+        };
+      }
+      
+      const templateService = ServiceFactory.getTemplateService();
+      const platformService = ServiceFactory.getPlatformService();
+      
+      const success = await templateService.rollback(revisionId, { source: 'rollback', expectedRevision });
+      
+      if (!success) {
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Failed to roll back to revision ${revisionId}` 
+          }],
+          isError: true
+        };
+      }
+      
+      // Sync the restored template to all platforms
+      await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+      
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Template rolled back to revision ${revisionId} and synced to all platforms` 
+        }]
+      };
+    } catch (error) {
+      console.error(`Error in rollback: ${error instanceof Error ? error.message : String(error)}`);
+      return {
+        content: [{ 
+          type: 'text', 
+          text: `Error rolling back template: ${error instanceof Error ? error.message : String(error)}` 
         }],
         isError: true
       };
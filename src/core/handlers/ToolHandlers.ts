@@ -4,9 +4,18 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { ServiceFactory } from '../services/ServiceFactory.js';
-import { PlatformType } from '../../types.js';
-import { generateTemplate } from '../../templateParser.js';
+import { MemoryTemplate, PlatformType } from '../../types.js';
+import { generateTemplate, generateSection } from '../../templateParser.js';
+import { formatSyncFileChanges, formatPlatformTargets, formatSyncDuration, formatSyncResultsJson } from '../../platformSync.js';
+import { getProjectOverlayPath, readProjectOverlay, writeProjectOverlay } from '../../utils/projectOverlay.js';
+import { discoverProjects, getProjectDiscoveryOptions, formatDiscoveredProjects } from '../../utils/projectDiscovery.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { validateTemplateContent, formatDiagnostics, formatValidationResult } from '../../utils/templateValidation.js';
+import { exportTemplate, importTemplate } from '../../utils/templateFormats.js';
 import { processMemoryCommand, isMemoryQuery } from '../utils/MemoryCommandProcessor.js';
+import { pullTargetEdits, formatPullResult } from '../utils/TargetImporter.js';
+import { importOnboardingPreferences, formatOnboardingResult } from '../utils/OnboardingImporter.js';
+import { getSectionValues, getTemplateValues } from '../../utils/itemValues.js';
 
 // Optional import for memory cache service - only used if Anthropic API is enabled
 let memoryCacheService: any = null;
@@ -21,6 +30,39 @@ try {
   // This is expected if Anthropic API is not enabled
 }
 
+/**
+ * Content block reporting the template's revision, which write tools accept as expectedRevision
+ */
+function revisionContent(template: MemoryTemplate): { type: 'text'; text: string }[] {
+  return template.revision ? [{ type: 'text', text: `Revision: ${template.revision}` }] : [];
+}
+
+/**
+ * Content block with items' typed values as JSON: lists as arrays, sub-items as objects,
+ * and booleans, numbers and dates (as ISO strings) as their types
+ */
+function valuesContent(values: object): { type: 'text'; text: string } {
+  return { type: 'text', text: `Values: ${JSON.stringify(values)}` };
+}
+
+// A typed item value: text, a boolean or number, a list, or sub-items by key
+const itemScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+const itemValueSchema = z.union([itemScalarSchema, z.array(itemScalarSchema), z.record(itemScalarSchema)]);
+
+/**
+ * Sync the current template to all platforms after an edit
+ * @returns A summary of the sync for the tool response
+ */
+async function syncTemplateEdit(): Promise<string> {
+  const templateService = ServiceFactory.getTemplateService();
+  const platformService = ServiceFactory.getPlatformService();
+  
+  const syncResults = await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+  const successCount = syncResults.filter(r => r.success).length;
+  
+  return `Synced to ${successCount}/${syncResults.length} platforms.`;
+}
+
 /**
  * Register all tool handlers with the SDK-based MCP server
  */
@@ -39,7 +81,7 @@ export function registerToolHandlers(server: McpServer): void {
           content: [{ 
             type: 'text', 
             text: markdown 
-          }]
+          }, valuesContent(getTemplateValues(template)), ...revisionContent(template)]
         };
       } catch (error) {
         console.error(`Error in get_template: ${error instanceof Error ? error.message : String(error)}`);
@@ -75,21 +117,14 @@ export function registerToolHandlers(server: McpServer): void {
           };
         }
         
-        // Format section as markdown
-        let sectionText = `# ${section.title}\n`;
-        if (section.description) {
-          sectionText += `## ${section.description}\n`;
-        }
-        
-        for (const item of section.items) {
-          sectionText += `-~- ${item.key}: ${item.value}\n`;
-        }
+        // Format section as markdown, with its targeting rules and private markers
+        const sectionText = generateSection(section);
         
         return {
           content: [{ 
             type: 'text', 
             text: sectionText 
-          }]
+          }, valuesContent(getSectionValues(section)), ...revisionContent(templateService.getTemplate())]
         };
       } catch (error) {
         console.error(`Error in get_section: ${error instanceof Error ? error.message : String(error)}`);
@@ -109,15 +144,16 @@ export function registerToolHandlers(server: McpServer): void {
     'update_section',
     {
       sectionName: z.string().describe('The name of the section to update'),
-      content: z.string().describe('The content for the section')
+      content: z.string().describe('The content for the section'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
     },
-    async ({ sectionName, content }) => {
+    async ({ sectionName, content, expectedRevision }) => {
       try {
         const templateService = ServiceFactory.getTemplateService();
         const platformService = ServiceFactory.getPlatformService();
         
         // Update section in template store
-        await templateService.updateSection(sectionName, content);
+        await templateService.updateSection(sectionName, content, { source: 'update_section', expectedRevision });
         
         // Get the full template content (as object)
         const templateObj = templateService.getTemplate();
@@ -154,14 +190,19 @@ export function registerToolHandlers(server: McpServer): void {
   server.tool(
     'update_template',
     {
-      content: z.string().describe('The full template content')
+      content: z.string().describe('The full template content'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
     },
-    async ({ content }) => {
+    async ({ content, expectedRevision }) => {
       try {
         const templateService = ServiceFactory.getTemplateService();
         const platformService = ServiceFactory.getPlatformService();
         
-        const success = await templateService.updateTemplate(content);
+        // Errors reject the update (with the diagnostics in the error); warnings are shown after it
+        const warnings = validateTemplateContent(content).diagnostics.filter(d => d.severity === 'warning');
+        const warningText = warnings.length > 0 ? `\n\nWarnings:\n${formatDiagnostics(warnings)}` : '';
+        
+        const success = await templateService.updateTemplate(content, { source: 'update_template', expectedRevision });
         
         if (!success) {
           return {
@@ -182,7 +223,7 @@ export function registerToolHandlers(server: McpServer): void {
           return {
             content: [{ 
               type: 'text', 
-              text: `Template updated successfully. Synced to ${successCount}/${platformCount} platforms.` 
+              text: `Template updated successfully. Synced to ${successCount}/${platformCount} platforms.${warningText}` 
             }]
           };
         } catch (syncError) {
@@ -191,7 +232,7 @@ export function registerToolHandlers(server: McpServer): void {
           return {
             content: [{ 
               type: 'text', 
-              text: 'Template updated successfully, but platform sync failed. You may need to run sync_platforms manually.' 
+              text: `Template updated successfully, but platform sync failed. You may need to run sync_platforms manually.${warningText}` 
             }]
           };
         }
@@ -208,49 +249,164 @@ export function registerToolHandlers(server: McpServer): void {
     }
   );
   
-  // Sync platforms tool
+  // Validate template tool
   server.tool(
-    'sync_platforms',
+    'validate_template',
+    {
+      content: z.string().optional().describe('Template content to check; defaults to the saved template')
+    },
+    async ({ content }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const result = validateTemplateContent(content ?? generateTemplate(templateService.getTemplate()));
+        
+        return {
+          content: [
+            { type: 'text', text: formatValidationResult(result) },
+            { type: 'text', text: JSON.stringify({ valid: result.valid, diagnostics: result.diagnostics }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        console.error(`Error in validate_template: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error validating template: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Export template tool
+  server.tool(
+    'export',
+    {
+      format: z.enum(['json', 'yaml', 'markdown']).default('json').describe('Format to export: json, yaml or markdown (a conventional bullet list)')
+    },
+    async ({ format }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: exportTemplate(templateService.getTemplate(), format)
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in export: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error exporting template: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Import template tool
+  server.tool(
+    'import',
     {
-      platform: z.string().optional().describe('Specific platform to sync (optional)')
+      content: z.string().describe('The template to import, in the given format'),
+      format: z.enum(['json', 'yaml', 'markdown']).describe('Format of the content: json, yaml or markdown (a conventional bullet list)'),
+      strategy: z.enum(['merge', 'replace']).default('merge').describe('"merge" adds to the current template, with imported values winning; "replace" uses the imported template alone'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the import is rejected if the template has been saved since')
     },
-    async ({ platform }) => {
+    async ({ content, format, strategy, expectedRevision }) => {
       try {
+        const templateService = ServiceFactory.getTemplateService();
         const platformService = ServiceFactory.getPlatformService();
-        let results;
         
-        if (platform) {
-          // Sync a specific platform
-          const validPlatform = platform as PlatformType;
-          const result = await platformService.syncPlatform(validPlatform);
-          results = [result];
-        } else {
-          // Sync all platforms
-          results = await platformService.syncAll();
+        const result = importTemplate(templateService.getTemplate(), content, format, strategy);
+        const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+        const warningText = warnings.length > 0 ? `\n\nWarnings:\n${formatDiagnostics(warnings)}` : '';
+        
+        const success = await templateService.updateTemplate(generateTemplate(result.template), { source: 'import', expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'Failed to import template' 
+            }],
+            isError: true
+          };
         }
         
-        const successCount = results.filter(r => r.success).length;
-        const totalCount = results.length;
+        const summary = `Template imported (${strategy}, ${result.template.sections.length} sections).`;
+        try {
+          const results = await platformService.syncAll();
+          const successCount = results.filter(r => r.success).length;
+          
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `${summary} Synced to ${successCount}/${results.length} platforms.${warningText}` 
+            }]
+          };
+        } catch (syncError) {
+          console.error(`Error syncing platforms: ${syncError instanceof Error ? syncError.message : String(syncError)}`);
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `${summary} Platform sync failed; you may need to run sync_platforms manually.${warningText}` 
+            }]
+          };
+        }
+      } catch (error) {
+        console.error(`Error in import: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error importing template: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Delete section tool
+  server.tool(
+    'delete_section',
+    {
+      sectionName: z.string().describe('The section to delete, along with all of its items'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ sectionName, expectedRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const success = await templateService.deleteSection(sectionName, { source: 'delete_section', expectedRevision });
         
-        // Detailed results
-        let detailedResults = '';
-        for (const result of results) {
-          const status = result.success ? '✅' : '❌';
-          detailedResults += `${status} ${result.platform}: ${result.message}\n`;
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to delete section '${sectionName}'` 
+            }],
+            isError: true
+          };
         }
         
+        const syncSummary = await syncTemplateEdit();
+        
         return {
           content: [{ 
             type: 'text', 
-            text: `Synced ${successCount}/${totalCount} platforms:\n\n${detailedResults}` 
+            text: `Section '${sectionName}' deleted. ${syncSummary}` 
           }]
         };
       } catch (error) {
-        console.error(`Error in sync_platforms: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`Error in delete_section: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [{ 
             type: 'text', 
-            text: `Error syncing platforms: ${error instanceof Error ? error.message : String(error)}` 
+            text: `Error deleting section: ${error instanceof Error ? error.message : String(error)}` 
           }],
           isError: true
         };
@@ -258,27 +414,43 @@ export function registerToolHandlers(server: McpServer): void {
     }
   );
   
-  // List platforms tool
+  // Rename section tool
   server.tool(
-    'list_platforms',
-    {},
-    async () => {
+    'rename_section',
+    {
+      sectionName: z.string().describe('The section to rename'),
+      newName: z.string().describe('The new section name'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ sectionName, newName, expectedRevision }) => {
       try {
-        const platformService = ServiceFactory.getPlatformService();
-        const platforms = platformService.getPlatforms();
+        const templateService = ServiceFactory.getTemplateService();
+        const success = await templateService.renameSection(sectionName, newName, { source: 'rename_section', expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to rename section '${sectionName}'` 
+            }],
+            isError: true
+          };
+        }
+        
+        const syncSummary = await syncTemplateEdit();
         
         return {
           content: [{ 
             type: 'text', 
-            text: `Configured platforms:\n${platforms.join('\n')}` 
+            text: `Section '${sectionName}' renamed to '${newName}'. ${syncSummary}` 
           }]
         };
       } catch (error) {
-        console.error(`Error in list_platforms: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`Error in rename_section: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [{ 
             type: 'text', 
-            text: `Error listing platforms: ${error instanceof Error ? error.message : String(error)}` 
+            text: `Error renaming section: ${error instanceof Error ? error.message : String(error)}` 
           }],
           isError: true
         };
@@ -286,36 +458,42 @@ export function registerToolHandlers(server: McpServer): void {
     }
   );
   
-  // List presets tool
+  // Reorder sections tool
   server.tool(
-    'list_presets',
-    {},
-    async () => {
+    'reorder_sections',
+    {
+      sectionNames: z.array(z.string()).min(1).describe('Sections in their new order (unlisted sections follow in their current order)'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ sectionNames, expectedRevision }) => {
       try {
         const templateService = ServiceFactory.getTemplateService();
-        const presets = await templateService.listPresets();
+        const success = await templateService.reorderSections(sectionNames, { source: 'reorder_sections', expectedRevision });
         
-        if (presets.length === 0) {
+        if (!success) {
           return {
             content: [{ 
               type: 'text', 
-              text: 'No presets found' 
-            }]
+              text: 'Failed to reorder sections' 
+            }],
+            isError: true
           };
         }
         
+        const syncSummary = await syncTemplateEdit();
+        
         return {
           content: [{ 
             type: 'text', 
-            text: `Available presets:\n${presets.join('\n')}` 
+            text: `Sections reordered. ${syncSummary}` 
           }]
         };
       } catch (error) {
-        console.error(`Error in list_presets: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`Error in reorder_sections: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [{ 
             type: 'text', 
-            text: `Error listing presets: ${error instanceof Error ? error.message : String(error)}` 
+            text: `Error reordering sections: ${error instanceof Error ? error.message : String(error)}` 
           }],
           isError: true
         };
@@ -323,44 +501,133 @@ export function registerToolHandlers(server: McpServer): void {
     }
   );
   
-  // Load preset tool
+  // Set item tool
   server.tool(
-    'load_preset',
+    'set_item',
     {
-      presetName: z.string().describe('The name of the preset to load')
+      sectionName: z.string().describe('The section containing the item (created if it doesn\'t exist)'),
+      key: z.string().describe('The item key'),
+      value: itemValueSchema.describe('The new value: text, a boolean or number, a list, or an object of sub-items'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
     },
-    async ({ presetName }) => {
+    async ({ sectionName, key, value, expectedRevision }) => {
       try {
         const templateService = ServiceFactory.getTemplateService();
-        const platformService = ServiceFactory.getPlatformService();
+        const success = await templateService.setItem(sectionName, key, value, { source: 'set_item', expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to set item '${key}' in section '${sectionName}'` 
+            }],
+            isError: true
+          };
+        }
+        
+        const syncSummary = await syncTemplateEdit();
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Item '${key}' set in section '${sectionName}'. ${syncSummary}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in set_item: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error setting item: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Delete item tool
+  server.tool(
+    'delete_item',
+    {
+      sectionName: z.string().describe('The section containing the item'),
+      key: z.string().describe('The item key'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ sectionName, key, expectedRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const success = await templateService.deleteItem(sectionName, key, { source: 'delete_item', expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to delete item '${key}' from section '${sectionName}'` 
+            }],
+            isError: true
+          };
+        }
+        
+        const syncSummary = await syncTemplateEdit();
         
-        const success = await templateService.loadPreset(presetName);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Item '${key}' deleted from section '${sectionName}'. ${syncSummary}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in delete_item: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error deleting item: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Rename item tool
+  server.tool(
+    'rename_item',
+    {
+      sectionName: z.string().describe('The section containing the item'),
+      key: z.string().describe('The current item key'),
+      newKey: z.string().describe('The new item key'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ sectionName, key, newKey, expectedRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const success = await templateService.renameItem(sectionName, key, newKey, { source: 'rename_item', expectedRevision });
         
         if (!success) {
           return {
             content: [{ 
               type: 'text', 
-              text: `Failed to load preset '${presetName}'` 
+              text: `Failed to rename item '${key}' in section '${sectionName}'` 
             }],
             isError: true
           };
         }
         
-        // Sync with platforms
-        await platformService.syncAll();
+        const syncSummary = await syncTemplateEdit();
         
         return {
           content: [{ 
             type: 'text', 
-            text: `Preset '${presetName}' loaded successfully and synced to all platforms` 
+            text: `Item '${key}' renamed to '${newKey}' in section '${sectionName}'. ${syncSummary}` 
           }]
         };
       } catch (error) {
-        console.error(`Error in load_preset: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`Error in rename_item: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [{ 
             type: 'text', 
-            text: `Error loading preset: ${error instanceof Error ? error.message : String(error)}` 
+            text: `Error renaming item: ${error instanceof Error ? error.message : String(error)}` 
           }],
           isError: true
         };
@@ -368,39 +635,611 @@ export function registerToolHandlers(server: McpServer): void {
     }
   );
   
-  // Create preset tool
+  // Move item tool
   server.tool(
-    'create_preset',
+    'move_item',
     {
-      presetName: z.string().describe('The name for the new preset')
+      sectionName: z.string().describe('The section containing the item'),
+      key: z.string().describe('The item key'),
+      targetSectionName: z.string().describe('The section to move the item to (may be the same section to reorder it)'),
+      position: z.number().int().min(0).optional().describe('Zero-based position in the target section (defaults to the end)'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
     },
-    async ({ presetName }) => {
+    async ({ sectionName, key, targetSectionName, position, expectedRevision }) => {
       try {
         const templateService = ServiceFactory.getTemplateService();
-        const success = await templateService.createPreset(presetName);
+        const success = await templateService.moveItem(sectionName, key, targetSectionName, position, { source: 'move_item', expectedRevision });
         
         if (!success) {
           return {
             content: [{ 
               type: 'text', 
-              text: `Failed to create preset '${presetName}'` 
+              text: `Failed to move item '${key}' from section '${sectionName}' to '${targetSectionName}'` 
             }],
             isError: true
           };
         }
         
+        const syncSummary = await syncTemplateEdit();
+        
         return {
           content: [{ 
             type: 'text', 
-            text: `Preset '${presetName}' created successfully` 
+            text: `Item '${key}' moved to section '${targetSectionName}'. ${syncSummary}` 
           }]
         };
       } catch (error) {
-        console.error(`Error in create_preset: ${error instanceof Error ? error.message : String(error)}`);
+        console.error(`Error in move_item: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [{ 
             type: 'text', 
-            text: `Error creating preset: ${error instanceof Error ? error.message : String(error)}` 
+            text: `Error moving item: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Sync platforms tool
+  server.tool(
+    'sync_platforms',
+    {
+      platform: z.string().optional().describe('Specific platform to sync (optional): claude-code, claude-web, windsurf, cursor, github-copilot, agents-md'),
+      dryRun: z.boolean().optional().describe('Preview the changes as unified diffs without writing any files (optional)')
+    },
+    async ({ platform, dryRun }) => {
+      try {
+        const platformService = ServiceFactory.getPlatformService();
+        const options = { dryRun: dryRun === true };
+        let results;
+        
+        if (platform) {
+          // Sync a specific platform
+          const validPlatform = platform as PlatformType;
+          const result = await platformService.syncPlatform(validPlatform, undefined, options);
+          results = [result];
+        } else {
+          // Sync all platforms
+          results = await platformService.syncAll(undefined, options);
+        }
+        
+        const successCount = results.filter(r => r.success).length;
+        const totalCount = results.length;
+        
+        // Detailed results
+        let detailedResults = '';
+        for (const result of results) {
+          const status = result.success ? '✅' : '❌';
+          detailedResults += `${status} ${result.platform}: ${result.message}${formatSyncDuration(result.durationMs)}\n`;
+          // Every file in a dry run, otherwise only the ones that failed
+          detailedResults += formatSyncFileChanges(
+            options.dryRun ? result.files : result.files?.filter(file => file.action === 'failed')
+          );
+        }
+        
+        const summary = options.dryRun
+          ? `Dry run of ${totalCount} platforms (no files were written), ${successCount} successful`
+          : `Synced ${successCount}/${totalCount} platforms`;
+        
+        // The per-file results as JSON, alongside the summary
+        return {
+          content: [
+            { 
+              type: 'text', 
+              text: `${summary}:\n\n${detailedResults}` 
+            },
+            {
+              type: 'text',
+              text: formatSyncResultsJson(results)
+            }
+          ]
+        };
+      } catch (error) {
+        console.error(`Error in sync_platforms: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error syncing platforms: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Pull edits made directly in synced files tool
+  server.tool(
+    'pull_edits',
+    {
+      platform: z.string().optional().describe('Only pull from this platform\'s files (optional): claude-code, claude-web, windsurf, cursor, github-copilot, agents-md'),
+      apply: z.boolean().optional().describe('Save the merged template and sync it; without this the merge is only previewed (optional)'),
+      prefer: z.enum(['master', 'target']).optional().describe('Which side wins when a value was changed in both the file and the master template (default: master)'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ platform, apply, prefer, expectedRevision }) => {
+      try {
+        const result = await pullTargetEdits({
+          platform: platform as PlatformType | undefined,
+          apply: apply === true,
+          prefer,
+          expectedRevision,
+          source: 'pull_edits'
+        });
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: formatPullResult(result) 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in pull_edits: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error pulling edits: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Onboard tool
+  server.tool(
+    'onboard',
+    {
+      paths: z.array(z.string()).optional().describe('Files to import from (optional); defaults to ~/.claude/CLAUDE.md, the synced CLAUDE.md files and Windsurf\'s global rules'),
+      skip: z.array(z.number()).optional().describe('Numbers of candidates from the plan to leave out (optional)'),
+      apply: z.boolean().optional().describe('Add the new items to the template and sync it; without this the plan is only previewed (optional)'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ paths, skip, apply, expectedRevision }) => {
+      try {
+        const result = await importOnboardingPreferences({
+          paths,
+          skip,
+          apply: apply === true,
+          expectedRevision,
+          source: 'onboard'
+        });
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: formatOnboardingResult(result) 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in onboard: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error importing preferences: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // List platforms tool
+  server.tool(
+    'list_platforms',
+    {},
+    async () => {
+      try {
+        const platformService = ServiceFactory.getPlatformService();
+        const platforms = platformService.getPlatforms();
+        const targets = await platformService.getSyncTargets();
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Configured platforms:\n${formatPlatformTargets(platforms, targets)}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in list_platforms: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error listing platforms: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // List projects tool
+  server.tool(
+    'list_projects',
+    {},
+    async () => {
+      try {
+        const options = getProjectDiscoveryOptions();
+        const projects = await discoverProjects(options);
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: formatDiscoveredProjects(options, projects) 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in list_projects: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error listing projects: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // List presets tool
+  server.tool(
+    'list_presets',
+    {},
+    async () => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const presets = await templateService.listPresets();
+        
+        if (presets.length === 0) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'No presets found' 
+            }]
+          };
+        }
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Available presets:\n${presets.join('\n')}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in list_presets: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error listing presets: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Load preset tool
+  server.tool(
+    'load_preset',
+    {
+      presetName: z.string().describe('The name of the preset to load'),
+      mode: z.enum(['replace', 'merge']).optional().describe('"replace" swaps in the preset\'s sections (only the ones it has, for a partial preset); "merge" adds its sections and items, with its values winning (default: replace)'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ presetName, mode, expectedRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.loadPreset(presetName, { source: 'load_preset', mode, expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to load preset '${presetName}'` 
+            }],
+            isError: true
+          };
+        }
+        
+        // Sync with platforms
+        await platformService.syncAll();
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Preset '${presetName}' loaded successfully and synced to all platforms` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in load_preset: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error loading preset: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Diff preset tool
+  server.tool(
+    'diff_preset',
+    {
+      presetName: z.string().describe('The name of the preset to compare with the template'),
+      mode: z.enum(['replace', 'merge']).optional().describe('How the preset would be loaded, as for load_preset (default: replace)')
+    },
+    async ({ presetName, mode }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const presetTemplate = await templateService.getPresetTemplate(presetName, mode);
+        
+        const diff = createUnifiedDiff(
+          generateTemplate(templateService.getTemplate()),
+          generateTemplate(presetTemplate),
+          'template.md',
+          `template.md (preset ${presetName})`
+        );
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: diff || `Loading preset '${presetName}' would leave the template unchanged` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in diff_preset: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error comparing preset: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Create preset tool
+  server.tool(
+    'create_preset',
+    {
+      presetName: z.string().describe('The name for the new preset')
+    },
+    async ({ presetName }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const success = await templateService.createPreset(presetName);
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to create preset '${presetName}'` 
+            }],
+            isError: true
+          };
+        }
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Preset '${presetName}' created successfully` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in create_preset: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error creating preset: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Get project overlay tool
+  server.tool(
+    'get_project_overlay',
+    {
+      projectPath: z.string().describe('The project directory')
+    },
+    async ({ projectPath }) => {
+      try {
+        const overlay = await readProjectOverlay(projectPath);
+        
+        if (!overlay) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `No overlay found at ${getProjectOverlayPath(projectPath)}` 
+            }]
+          };
+        }
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: generateTemplate(overlay) 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in get_project_overlay: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error retrieving project overlay: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Update project overlay tool
+  server.tool(
+    'update_project_overlay',
+    {
+      projectPath: z.string().describe('The project directory'),
+      content: z.string().describe('The overlay in template format (# Section, ## description, -~- Key: Value)')
+    },
+    async ({ projectPath, content }) => {
+      try {
+        await writeProjectOverlay(projectPath, content);
+        
+        // Re-sync CLAUDE.md files so the project picks up its new overlay
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        const result = await platformService.syncPlatform('claude-code', generateTemplate(templateService.getTemplate()));
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Project overlay saved to ${getProjectOverlayPath(projectPath)}. ${result.success ? '✅' : '❌'} claude-code: ${result.message}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in update_project_overlay: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error updating project overlay: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Template history tool
+  server.tool(
+    'history',
+    {
+      limit: z.number().int().positive().optional().describe('Maximum number of revisions to list (newest first)')
+    },
+    async ({ limit }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const revisions = await templateService.getHistory(limit);
+        
+        if (revisions.length === 0) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: 'No revisions recorded yet' 
+            }]
+          };
+        }
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: revisions.map(r => `#${r.id}  ${r.timestamp}  ${r.source}`).join('\n') 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in history: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error retrieving history: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Diff revisions tool
+  server.tool(
+    'diff_revisions',
+    {
+      fromRevision: z.number().int().describe('The older revision'),
+      toRevision: z.number().int().optional().describe('The newer revision (defaults to the latest)')
+    },
+    async ({ fromRevision, toRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const from = await templateService.getRevision(fromRevision);
+        const to = toRevision !== undefined
+          ? await templateService.getRevision(toRevision)
+          : (await templateService.getHistory(1))[0] || null;
+        
+        if (!from || !to) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Revision ${!from ? fromRevision : toRevision} not found` 
+            }],
+            isError: true
+          };
+        }
+        
+        const diff = createUnifiedDiff(from.content, to.content, `revision ${from.id}`, `revision ${to.id}`);
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: diff || `No differences between revision ${from.id} and revision ${to.id}` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in diff_revisions: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error comparing revisions: ${error instanceof Error ? error.message : String(error)}` 
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Rollback tool
+  server.tool(
+    'rollback',
+    {
+      revisionId: z.number().int().describe('The revision to restore'),
+      expectedRevision: z.string().optional().describe('Revision from get_template or get_section; the change is rejected if the template has been saved since')
+    },
+    async ({ revisionId, expectedRevision }) => {
+      try {
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.rollback(revisionId, { source: 'rollback', expectedRevision });
+        
+        if (!success) {
+          return {
+            content: [{ 
+              type: 'text', 
+              text: `Failed to roll back to revision ${revisionId}` 
+            }],
+            isError: true
+          };
+        }
+        
+        // Sync the restored template to all platforms
+        await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+        
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Template rolled back to revision ${revisionId} and synced to all platforms` 
+          }]
+        };
+      } catch (error) {
+        console.error(`Error in rollback: ${error instanceof Error ? error.message : String(error)}`);
+        return {
+          content: [{ 
+            type: 'text', 
+            text: `Error rolling back template: ${error instanceof Error ? error.message : String(error)}` 
           }],
           isError: true
         };
@@ -5,6 +5,7 @@
 import { ServerFactory } from './server/ServerFactory.js';
 import { McpServerOptions, Transport } from './server/types.js';
 import { ServiceFactory, ImplementationType } from './services/ServiceFactory.js';
+import { TemplateWatcher } from './utils/TemplateWatcher.js';
 import { version } from '../version.js';
 
 // Export public API
@@ -24,6 +25,7 @@ export async function startServer(options: {
   port?: number;
   debug?: boolean;
   implementationType?: ImplementationType;
+  watch?: boolean; // Sync automatically when the template is edited on disk
 }) {
   try {
     const serverOptions: McpServerOptions = {
@@ -68,6 +70,13 @@ export async function startServer(options: {
       console.error(`HTTP server listening on port ${options.port || 3000}`);
     }
     
+    // Opt-in: pick up hand edits to the template without waiting for a sync tool
+    if (options.watch) {
+      const watcher = new TemplateWatcher();
+      watcher.start();
+      console.error(`Watching for template changes: ${watcher.getWatchedFiles().join(', ')}`);
+    }
+    
     return server;
   } catch (error) {
     console.error(`Error starting server: ${error instanceof Error ? error.message : String(error)}`);
@@ -1,14 +1,28 @@
 /**
  * Custom implementation of PlatformService
  */
-import { promises as fs } from 'fs';
 import path from 'path';
 import { homedir } from 'os';
-import { SyncStatus, PlatformType } from '../../types.js';
+import { SyncStatus, PlatformType, SyncOptions, SyncTargetState, TargetEdit } from '../../types.js';
 import { generateTemplate } from '../../templateParser.js';
 import { PlatformService } from './PlatformService.js';
-import { ClaudeCodeSyncer, ensureFileWritable } from '../../platformSync.js';
+import {
+  ClaudeCodeSyncer,
+  CursorSyncer,
+  CopilotSyncer,
+  AgentsMdSyncer,
+  PlatformSyncer,
+  extractMyAIMemorySection,
+  updateMyAIMemorySection,
+  findEditedTargets,
+  getTargetStates,
+  describeFileSync,
+  buildFailedFileChange,
+  runSyncer,
+  isPlatformEnabled
+} from '../../platformSync.js';
 import { config } from '../../config.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
 
 // Import the memory cache service dynamically - handles if Anthropic features are not enabled
 let memoryCacheService: any = null;
@@ -25,13 +39,6 @@ try {
   console.error('Memory cache service could not be imported');
 }
 
-/**
- * Base platform sync interface
- */
-interface PlatformSyncer {
-  sync(templateContent: string): Promise<SyncStatus>;
-}
-
 /**
  * Windsurf synchronization (global_rules.md file)
  */
@@ -44,12 +51,16 @@ class WindsurfSyncer implements PlatformSyncer {
     this.rulesPath = rulesPath || path.join(homedir(), '.windsurf', 'global_rules.md');
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    return [this.rulesPath];
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Windsurf sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'windsurf' as PlatformType,
@@ -58,32 +69,38 @@ class WindsurfSyncer implements PlatformSyncer {
         };
       }
       
-      // Update our last sync time
-      this.lastSyncTime = now;
-      
-      // Ensure the directory exists
-      const dirPath = path.dirname(this.rulesPath);
-      await fs.mkdir(dirPath, { recursive: true });
+      // Replace the memory block in the rules file with the sections meant for Windsurf, keeping the user's own rules
+      const memorySection = extractMyAIMemorySection(templateContent, 'windsurf');
+      const change = await updateMyAIMemorySection(this.rulesPath, memorySection, options);
       
-      // Make sure we can write to the file
-      await ensureFileWritable(this.rulesPath);
+      if (options.dryRun) {
+        return {
+          platform: 'windsurf' as PlatformType,
+          success: true,
+          message: `Dry run: ${this.rulesPath} would be ${change.action === 'skipped-unchanged' ? 'left unchanged' : change.action}`,
+          dryRun: true,
+          files: [change]
+        };
+      }
       
-      // Write the template to the rules file
-      await fs.writeFile(this.rulesPath, templateContent, 'utf8');
+      // Update our last sync time
+      this.lastSyncTime = now;
       
       console.error(`Windsurf sync complete: ${this.rulesPath}`);
       
       return {
         platform: 'windsurf' as PlatformType,
         success: true,
-        message: `Synced to ${this.rulesPath}`
+        message: describeFileSync('Windsurf rules', change),
+        files: [change]
       };
     } catch (error) {
       console.error('Error syncing to Windsurf:', error);
       return {
         platform: 'windsurf' as PlatformType,
         success: false,
-        message: `Error: ${error instanceof Error ? error.message : String(error)}`
+        message: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        files: [buildFailedFileChange(this.rulesPath, error)]
       };
     }
   }
@@ -101,12 +118,16 @@ class ClaudeAiSyncer implements PlatformSyncer {
     this.claudeMdPath = claudeMdPath || path.join(homedir(), 'CLAUDE.md');
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    return [this.claudeMdPath];
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Claude.ai sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'claude-web' as PlatformType,
@@ -115,14 +136,22 @@ class ClaudeAiSyncer implements PlatformSyncer {
         };
       }
       
-      // Update our last sync time
-      this.lastSyncTime = now;
+      // Replace the memory block in the CLAUDE.md file with the sections meant for Claude.ai, keeping the user's own notes
+      const memorySection = extractMyAIMemorySection(templateContent, 'claude-web');
+      const change = await updateMyAIMemorySection(this.claudeMdPath, memorySection, options);
       
-      // Make sure we can write to the file
-      await ensureFileWritable(this.claudeMdPath);
+      if (options.dryRun) {
+        return {
+          platform: 'claude-web' as PlatformType,
+          success: true,
+          message: `Dry run: ${this.claudeMdPath} would be ${change.action === 'skipped-unchanged' ? 'left unchanged' : change.action}`,
+          dryRun: true,
+          files: [change]
+        };
+      }
       
-      // Write the template to the CLAUDE.md file
-      await fs.writeFile(this.claudeMdPath, templateContent, 'utf8');
+      // Update our last sync time
+      this.lastSyncTime = now;
       
       console.error(`Claude.ai sync complete: ${this.claudeMdPath}`);
       
@@ -135,14 +164,16 @@ class ClaudeAiSyncer implements PlatformSyncer {
       return {
         platform: 'claude-web' as PlatformType,
         success: true,
-        message: `Synced to ${this.claudeMdPath}`
+        message: describeFileSync('CLAUDE.md', change),
+        files: [change]
       };
     } catch (error) {
       console.error('Error syncing to Claude.ai:', error);
       return {
         platform: 'claude-web' as PlatformType,
         success: false,
-        message: `Error: ${error instanceof Error ? error.message : String(error)}`
+        message: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        files: [buildFailedFileChange(this.claudeMdPath, error)]
       };
     }
   }
@@ -173,6 +204,18 @@ export class CustomPlatformService implements PlatformService {
         this.syncers.set('claude-code', new ClaudeCodeSyncer(claudeCodePath));
       }
       
+      // Per-project rule and instruction files read by Cursor, Copilot and AGENTS.md-aware tools,
+      // which projects usually commit, so they are only written when opted in
+      if (isPlatformEnabled('cursor')) {
+        this.syncers.set('cursor', new CursorSyncer(claudeCodePath, config.paths?.cursorRulesPath));
+      }
+      if (isPlatformEnabled('github-copilot')) {
+        this.syncers.set('github-copilot', new CopilotSyncer(claudeCodePath));
+      }
+      if (isPlatformEnabled('agents-md')) {
+        this.syncers.set('agents-md', new AgentsMdSyncer(claudeCodePath));
+      }
+      
       this.initialized = true;
     } catch (error) {
       console.error('Failed to initialize platform service:', error);
@@ -183,9 +226,10 @@ export class CustomPlatformService implements PlatformService {
   /**
    * Sync template content to all platforms
    * @param templateContent Optional template content to sync (uses cached content if not provided)
+   * @param options Sync options - a dry run returns a diff per file instead of writing
    * @returns Array of sync status objects for each platform
    */
-  async syncAll(templateContent?: string): Promise<SyncStatus[]> {
+  async syncAll(templateContent?: string, options?: SyncOptions): Promise<SyncStatus[]> {
     try {
       // Initialize if needed
       if (!this.initialized) {
@@ -228,9 +272,9 @@ export class CustomPlatformService implements PlatformService {
       const results: SyncStatus[] = [];
       const successCount = { success: 0, failed: 0 };
       
-      // Process platforms in parallel using Promise.all for better performance
-      const syncPromises = platforms.map(platform => 
-        this.syncPlatform(platform, content)
+      // Process platforms in parallel, up to the configured concurrency
+      const syncResults = await mapWithConcurrency(platforms, config.sync.concurrency, platform =>
+        this.syncPlatform(platform, content, options)
           .then(result => {
             if (result.success) {
               successCount.success++;
@@ -250,8 +294,6 @@ export class CustomPlatformService implements PlatformService {
           })
       );
       
-      // Wait for all syncs to complete
-      const syncResults = await Promise.all(syncPromises);
       results.push(...syncResults);
       
       console.debug(`Sync to all platforms complete: ${successCount.success} succeeded, ${successCount.failed} failed`);
@@ -270,11 +312,12 @@ export class CustomPlatformService implements PlatformService {
 
   /**
    * Sync template content to a specific platform
-   * @param platform The platform to sync to (e.g., 'windsurf', 'claude-web', 'claude-code')
+   * @param platform The platform to sync to (e.g., 'windsurf', 'claude-web', 'claude-code', 'cursor', 'github-copilot', 'agents-md')
    * @param templateContent Optional template content to sync (uses cached content if not provided)
+   * @param options Sync options - a dry run returns a diff per file instead of writing
    * @returns The status of the sync operation
    */
-  async syncPlatform(platform: PlatformType, templateContent?: string): Promise<SyncStatus> {
+  async syncPlatform(platform: PlatformType, templateContent?: string, options?: SyncOptions): Promise<SyncStatus> {
     // Validate the platform parameter
     if (!platform || typeof platform !== 'string') {
       return {
@@ -323,18 +366,8 @@ export class CustomPlatformService implements PlatformService {
       
       console.debug(`Syncing template to platform: ${platform}`);
       
-      // Sync to the platform with error handling
-      try {
-        return await syncer.sync(content);
-      } catch (syncError) {
-        console.error(`Error syncing to platform ${platform}:`, 
-          syncError instanceof Error ? syncError.message : String(syncError));
-        return {
-          platform,
-          success: false,
-          message: `Sync error: ${syncError instanceof Error ? syncError.message : String(syncError)}`
-        };
-      }
+      // Sync to the platform, timing it and giving up if it takes too long
+      return await runSyncer(platform, syncer, content, options);
     } catch (error) {
       console.error(`Unexpected error syncing to platform ${platform}:`, 
         error instanceof Error ? error.message : String(error));
@@ -346,6 +379,47 @@ export class CustomPlatformService implements PlatformService {
     }
   }
 
+  /**
+   * Find synced files whose memory block was edited directly since the last sync
+   * @param platform Only check this platform's files (all platforms if omitted)
+   * @returns The edited files, with the block last written to each
+   */
+  async findTargetEdits(platform?: PlatformType): Promise<TargetEdit[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+    
+    const platforms = platform ? [platform] : Array.from(this.syncers.keys());
+    const edits: TargetEdit[] = [];
+    
+    for (const name of platforms) {
+      const syncer = this.syncers.get(name);
+      if (!syncer) {
+        throw new Error(`Platform not supported: ${name}. Supported platforms: ${Array.from(this.syncers.keys()).join(', ')}`);
+      }
+      edits.push(...await findEditedTargets(name, syncer));
+    }
+    
+    return edits;
+  }
+
+  /**
+   * List the files each platform syncs to, with when they were last synced
+   * @returns One entry per file, flagged with drift if it was modified outside of sync
+   */
+  async getSyncTargets(): Promise<SyncTargetState[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+    
+    const states: SyncTargetState[] = [];
+    for (const [platform, syncer] of this.syncers) {
+      states.push(...await getTargetStates(platform, syncer));
+    }
+    
+    return states;
+  }
+
   /**
    * Get all available platforms
    */
@@ -4,15 +4,44 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { MemoryTemplate, TemplateSection } from '../../types.js';
+import { MemoryTemplate, TemplateSection, TemplateRevision, TemplateWriteOptions, ItemValue, PresetLoadMode, PresetLoadOptions } from '../../types.js';
 import { parseTemplate, generateTemplate, validateTemplate } from '../../templateParser.js';
 import { TemplateService } from './TemplateService.js';
+import { RevisionLog } from '../../utils/revisionLog.js';
+import {
+  TemplateConflictError,
+  getTemplateRevision,
+  writeFileAtomic,
+  readSavedTemplate,
+  withFileLock
+} from '../../utils/templateRevision.js';
+import { SecretDetectedError, assertNoSecrets } from '../../utils/secretScanner.js';
+import { TemplateValidationError, assertValidTemplate } from '../../utils/templateValidation.js';
+import { resolvePreset, applyPreset } from '../../utils/presets.js';
+import {
+  EncryptionKeyError,
+  DecryptionError,
+  checkEncryptionConfig,
+  encodeStoredContent,
+  decodeStoredContent
+} from '../../utils/encryption.js';
+import {
+  setTemplateItem,
+  deleteTemplateItem,
+  renameTemplateItem,
+  moveTemplateItem,
+  deleteTemplateSection,
+  renameTemplateSection,
+  reorderTemplateSections,
+  inheritVisibility
+} from '../../utils/templateEdits.js';
 
 // Determine file paths
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = path.join(__dirname, '..', '..', '..', 'data');
 const TEMPLATE_FILE = path.join(DATA_DIR, 'template.md');
 const PRESETS_DIR = path.join(DATA_DIR, 'presets');
+const HISTORY_FILE = path.join(DATA_DIR, 'history', 'revisions.jsonl');
 
 // Cache configuration
 const CACHE_EXPIRATION_MS = 60 * 1000; // 1 minute cache
@@ -27,6 +56,9 @@ export class CustomTemplateService implements TemplateService {
     timestamp: number;
   } | null = null;
   private initialized = false;
+  private revisionLog = new RevisionLog(HISTORY_FILE);
+  // The revision of the template file as this service last read or wrote it (null before it exists)
+  private savedRevision: string | null = null;
 
   /**
    * Initialize the template service
@@ -35,6 +67,8 @@ export class CustomTemplateService implements TemplateService {
     if (this.initialized) return;
 
     try {
+      checkEncryptionConfig();
+      
       // Create data directories if they don't exist
       await fs.mkdir(DATA_DIR, { recursive: true });
       await fs.mkdir(PRESETS_DIR, { recursive: true });
@@ -42,7 +76,14 @@ export class CustomTemplateService implements TemplateService {
       // Try to load existing template
       try {
         await this.loadTemplate();
+        
+        // Start the history with the current template, or record edits made outside the service
+        const latestRevision = await this.revisionLog.latest();
+        await this.revisionLog.append(generateTemplate(this.template), latestRevision ? 'external edit' : 'initial');
       } catch (err) {
+        // An encrypted template that can't be read must not be replaced by the default
+        if (err instanceof EncryptionKeyError || err instanceof DecryptionError) throw err;
+        
         // If no template exists, create a default one
         this.template = {
           sections: [
@@ -57,7 +98,7 @@ export class CustomTemplateService implements TemplateService {
         };
         
         // Save the default template
-        await this.saveTemplate();
+        await this.saveTemplate('initial');
       }
       
       this.initialized = true;
@@ -95,9 +136,10 @@ export class CustomTemplateService implements TemplateService {
    * Update a specific section in the template
    * @param sectionName The name of the section to update
    * @param content The new content for the section
+   * @param options The source of the change and the revision it's based on
    * @returns true if the update was successful, false otherwise
    */
-  async updateSection(sectionName: string, content: string): Promise<boolean> {
+  async updateSection(sectionName: string, content: string, options: TemplateWriteOptions = {}): Promise<boolean> {
     // Validate inputs
     if (!sectionName || typeof sectionName !== 'string') {
       console.error('Section name must be a non-empty string');
@@ -109,6 +151,8 @@ export class CustomTemplateService implements TemplateService {
       return false;
     }
     
+    await this.checkRevision(options.expectedRevision);
+    
     try {
       // Find the section
       const sectionIndex = this.template.sections.findIndex(s => 
@@ -143,7 +187,14 @@ export class CustomTemplateService implements TemplateService {
       // Update or add the section
       if (sectionIndex >= 0) {
         console.debug(`Replacing existing section: ${sectionName}`);
-        this.template.sections[sectionIndex] = parsedSection;
+        // Keep the section's platform targeting unless the new content sets its own
+        const existingSection = this.template.sections[sectionIndex];
+        if (!parsedSection.platforms && existingSection.platforms) {
+          parsedSection.platforms = existingSection.platforms;
+        }
+        
+        // Likewise keep private sections and items private, so rewriting them can't leak them into synced files
+        this.template.sections[sectionIndex] = inheritVisibility(parsedSection, existingSection);
       } else {
         console.debug(`Adding new section: ${sectionName}`);
         this.template.sections.push(parsedSection);
@@ -151,7 +202,7 @@ export class CustomTemplateService implements TemplateService {
       
       try {
         // Save the updated template
-        await this.saveTemplate();
+        await this.saveTemplate(options.source ?? 'update_section');
         
         // Log success based on whether we updated or added
         if (sectionIndex >= 0) {
@@ -162,11 +213,13 @@ export class CustomTemplateService implements TemplateService {
         
         return true;
       } catch (saveError) {
+        if (saveError instanceof SecretDetectedError || saveError instanceof TemplateConflictError) throw saveError;
         console.error(`Error saving template after updating section ${sectionName}:`, 
           saveError instanceof Error ? saveError.message : String(saveError));
         return false;
       }
     } catch (error) {
+      if (error instanceof SecretDetectedError || error instanceof TemplateConflictError) throw error;
       console.error(`Unexpected error updating section ${sectionName}:`, 
         error instanceof Error ? error.message : String(error));
       return false;
@@ -176,30 +229,27 @@ export class CustomTemplateService implements TemplateService {
   /**
    * Update the entire template
    * @param content The markdown content of the entire template
+   * @param options The source of the change and the revision it's based on
    * @returns true if the update was successful, false otherwise
+   * @throws TemplateValidationError if validation found errors in the content
    */
-  async updateTemplate(content: string): Promise<boolean> {
+  async updateTemplate(content: string, options: TemplateWriteOptions = {}): Promise<boolean> {
     if (!content || typeof content !== 'string') {
       console.error('Template content must be a non-empty string');
       return false;
     }
     
+    await this.checkRevision(options.expectedRevision);
+    
     try {
       // Parse and validate the template in a separate try block for specific error handling
       let parsedTemplate: MemoryTemplate;
       
       try {
-        // Parse the template from markdown to validate and convert it
-        parsedTemplate = parseTemplate(content);
-        
-        // Validate the template structure
-        const validationResult = validateTemplate(parsedTemplate);
-        
-        if (!validationResult) {
-          console.error('Template validation failed: invalid structure');
-          return false;
-        }
+        // Parse the template from markdown, and check it for duplicates and unreadable lines
+        parsedTemplate = assertValidTemplate(content).template;
       } catch (parseError) {
+        if (parseError instanceof TemplateValidationError) throw parseError;
         console.error('Template parsing or validation failed:', 
           parseError instanceof Error ? parseError.message : String(parseError));
         return false;
@@ -210,7 +260,7 @@ export class CustomTemplateService implements TemplateService {
       
       try {
         // Save the template
-        await this.saveTemplate();
+        await this.saveTemplate(options.source ?? 'update_template');
         console.debug('Template saved successfully');
         
         // Update the cache
@@ -221,17 +271,102 @@ export class CustomTemplateService implements TemplateService {
         
         return true;
       } catch (saveError) {
+        if (saveError instanceof SecretDetectedError || saveError instanceof TemplateConflictError) throw saveError;
         console.error('Error saving template:', 
           saveError instanceof Error ? saveError.message : String(saveError));
         return false;
       }
     } catch (error) {
+      if (error instanceof SecretDetectedError || error instanceof TemplateConflictError || error instanceof TemplateValidationError) throw error;
       console.error('Unexpected error updating template:', 
         error instanceof Error ? error.message : String(error));
       return false;
     }
   }
 
+  /**
+   * Delete a section and all of its items
+   */
+  async deleteSection(sectionName: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => deleteTemplateSection(template, sectionName),
+      `deleting section ${sectionName}`,
+      { ...options, source: options.source ?? 'delete_section' }
+    );
+  }
+
+  /**
+   * Rename a section, keeping its description and items
+   */
+  async renameSection(sectionName: string, newName: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => renameTemplateSection(template, sectionName, newName),
+      `renaming section ${sectionName}`,
+      { ...options, source: options.source ?? 'rename_section' }
+    );
+  }
+
+  /**
+   * Reorder sections - the listed sections come first, in order, followed by the rest
+   */
+  async reorderSections(sectionNames: string[], options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => reorderTemplateSections(template, sectionNames),
+      'reordering sections',
+      { ...options, source: options.source ?? 'reorder_sections' }
+    );
+  }
+
+  /**
+   * Set a single item's value, adding the item (and its section) if needed
+   */
+  async setItem(sectionName: string, key: string, value: ItemValue, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => setTemplateItem(template, sectionName, key, value),
+      `setting item ${key} in section ${sectionName}`,
+      { ...options, source: options.source ?? 'set_item' }
+    );
+  }
+
+  /**
+   * Remove a single item from a section
+   */
+  async deleteItem(sectionName: string, key: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => deleteTemplateItem(template, sectionName, key),
+      `deleting item ${key} from section ${sectionName}`,
+      { ...options, source: options.source ?? 'delete_item' }
+    );
+  }
+
+  /**
+   * Change an item's key, keeping its value
+   */
+  async renameItem(sectionName: string, key: string, newKey: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => renameTemplateItem(template, sectionName, key, newKey),
+      `renaming item ${key} in section ${sectionName}`,
+      { ...options, source: options.source ?? 'rename_item' }
+    );
+  }
+
+  /**
+   * Move an item within its section or to another section
+   */
+  async moveItem(
+    sectionName: string,
+    key: string,
+    targetSectionName: string,
+    position?: number,
+    options: TemplateWriteOptions = {}
+  ): Promise<boolean> {
+    return this.applyEdit(
+      template => moveTemplateItem(template, sectionName, key, targetSectionName, position),
+      `moving item ${key} from section ${sectionName}`,
+      { ...options, source: options.source ?? 'move_item' }
+    );
+  }
+
   /**
    * List available presets
    */
@@ -250,26 +385,37 @@ export class CustomTemplateService implements TemplateService {
   }
 
   /**
-   * Load a preset
+   * Read a preset file, decrypting it if it is encrypted
    */
-  async loadPreset(presetName: string): Promise<boolean> {
+  private async readPreset(presetName: string): Promise<unknown> {
+    const presetPath = path.join(PRESETS_DIR, `${presetName}.json`);
+    return JSON.parse(decodeStoredContent(await fs.readFile(presetPath, 'utf8'), presetPath));
+  }
+
+  /**
+   * Work out the template loading a preset would produce, without saving anything
+   */
+  async getPresetTemplate(presetName: string, mode: PresetLoadMode = 'replace'): Promise<MemoryTemplate> {
+    const preset = await resolvePreset(presetName, name => this.readPreset(name));
+    return applyPreset(this.template, preset, mode);
+  }
+
+  /**
+   * Load a preset, following the presets it extends
+   */
+  async loadPreset(presetName: string, options: PresetLoadOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
     try {
-      const presetPath = path.join(PRESETS_DIR, `${presetName}.json`);
-      
-      // Read the preset file
-      const presetData = await fs.readFile(presetPath, 'utf8');
-      
-      // Parse the preset
-      const preset = JSON.parse(presetData);
-      
       // Update the template
-      this.template = preset;
+      this.template = await this.getPresetTemplate(presetName, options.mode);
       
       // Save the template
-      await this.saveTemplate();
+      await this.saveTemplate(options.source ?? `load_preset ${presetName}`);
       
       return true;
     } catch (error) {
+      if (error instanceof SecretDetectedError || error instanceof TemplateConflictError || error instanceof DecryptionError) throw error;
       console.error(`Error loading preset ${presetName}:`, error);
       return false;
     }
@@ -282,8 +428,8 @@ export class CustomTemplateService implements TemplateService {
     try {
       const presetPath = path.join(PRESETS_DIR, `${presetName}.json`);
       
-      // Save the current template as a preset
-      await fs.writeFile(presetPath, JSON.stringify(this.template, null, 2), 'utf8');
+      // Save the current template as a preset (its revision only makes sense for the template file)
+      await fs.writeFile(presetPath, encodeStoredContent(JSON.stringify({ sections: this.template.sections }, null, 2)), 'utf8');
       
       return true;
     } catch (error) {
@@ -292,15 +438,123 @@ export class CustomTemplateService implements TemplateService {
     }
   }
 
+  /**
+   * Get the revision history of the template, newest first
+   * @param limit Maximum number of revisions to return
+   */
+  async getHistory(limit?: number): Promise<TemplateRevision[]> {
+    const revisions = (await this.revisionLog.list()).reverse();
+    return limit !== undefined ? revisions.slice(0, limit) : revisions;
+  }
+
+  /**
+   * Get a single revision of the template
+   */
+  async getRevision(revisionId: number): Promise<TemplateRevision | null> {
+    return await this.revisionLog.get(revisionId);
+  }
+
+  /**
+   * Restore the template to an earlier revision
+   * @param revisionId The revision to restore
+   * @param options The source of the change and the revision it's based on
+   * @returns true if the template was restored, false otherwise
+   */
+  async rollback(revisionId: number, options: TemplateWriteOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
+    try {
+      const revision = await this.revisionLog.get(revisionId);
+      if (!revision) {
+        console.error(`Revision ${revisionId} not found`);
+        return false;
+      }
+      
+      const restoredTemplate = parseTemplate(revision.content);
+      if (!validateTemplate(restoredTemplate)) {
+        console.error(`Revision ${revisionId} is not a valid template`);
+        return false;
+      }
+      
+      this.template = restoredTemplate;
+      await this.saveTemplate(`${options.source ?? 'rollback'} (to revision ${revisionId})`);
+      
+      return true;
+    } catch (error) {
+      if (error instanceof SecretDetectedError || error instanceof TemplateConflictError) throw error;
+      console.error(`Error rolling back to revision ${revisionId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Apply an edit to the template and save it
+   * @param edit Returns the edited template, or throws if the edit can't be applied
+   * @param description What the edit does, for error messages
+   * @param options The source of the change and the revision it's based on
+   */
+  private async applyEdit(
+    edit: (template: MemoryTemplate) => MemoryTemplate,
+    description: string,
+    options: TemplateWriteOptions
+  ): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
+    try {
+      this.template = edit(this.template);
+      await this.saveTemplate(options.source);
+      return true;
+    } catch (error) {
+      if (error instanceof SecretDetectedError || error instanceof TemplateConflictError) throw error;
+      console.error(`Error ${description}:`, 
+        error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Make sure a change is based on the saved template, before every write
+   * Another process (the MCP server, a CLI or the safe sync manager) may have saved the
+   * template since this service read it: the change is then made to the saved template
+   * rather than to the copy held here, unless the caller based it on a revision of its own.
+   * @throws TemplateConflictError if the template has been saved since expectedRevision
+   */
+  private async checkRevision(expectedRevision?: string): Promise<void> {
+    let saved: { content: string; revision: string } | null = null;
+    try {
+      saved = await readSavedTemplate(TEMPLATE_FILE, decodeStoredContent);
+    } catch (error) {
+      if (error instanceof DecryptionError) throw error;
+      console.error('Error reading template to check its revision:', error);
+    }
+    
+    const currentRevision = saved?.revision ?? getTemplateRevision('');
+    if (saved && currentRevision !== this.savedRevision) {
+      // Pick up the other writer's change, so the edit (or a caller that re-reads) builds on it
+      await this.loadTemplate();
+      await this.revisionLog.append(generateTemplate(this.template), 'external edit')
+        .catch(error => console.error('Error recording template revision:', error));
+    }
+    
+    if (expectedRevision && currentRevision !== expectedRevision) {
+      throw new TemplateConflictError(expectedRevision, currentRevision);
+    }
+  }
+
   /**
    * Load the template from file
    */
   private async loadTemplate(): Promise<void> {
     try {
-      const templateContent = await fs.readFile(TEMPLATE_FILE, 'utf8');
+      // Revisions are of the decrypted content, as an encrypted file differs on every save
+      const templateContent = decodeStoredContent(await fs.readFile(TEMPLATE_FILE, 'utf8'), TEMPLATE_FILE);
       
       // Parse the template
-      this.template = parseTemplate(templateContent);
+      this.savedRevision = getTemplateRevision(templateContent);
+      this.template = {
+        ...parseTemplate(templateContent),
+        revision: this.savedRevision
+      };
       
       // Update the cache
       this.templateCache = {
@@ -314,15 +568,44 @@ export class CustomTemplateService implements TemplateService {
   }
 
   /**
-   * Save the template to file
+   * Save the template to file, recording the change in the history
+   * @param source The tool or command that made the change
+   * @throws SecretDetectedError if the template has secrets and the secrets policy is "reject"
    */
-  private async saveTemplate(): Promise<void> {
+  private async saveTemplate(source: string = 'unknown'): Promise<void> {
     try {
       // Generate markdown from the template
       const templateContent = generateTemplate(this.template);
       
-      // Save the template
-      await fs.writeFile(TEMPLATE_FILE, templateContent, 'utf8');
+      // A change with a secret in it is never written, and is dropped by going back to the saved template
+      try {
+        assertNoSecrets(templateContent, 'the template');
+      } catch (error) {
+        await this.loadTemplate().catch(() => undefined);
+        throw error;
+      }
+      
+      // Save the template - atomically, so other processes never read a partial file, and only if
+      // no other process has saved it since it was checked, while holding its lock
+      await withFileLock(TEMPLATE_FILE, async () => {
+        const saved = await readSavedTemplate(TEMPLATE_FILE, decodeStoredContent);
+        if (saved && saved.revision !== this.savedRevision) {
+          const expectedRevision = this.savedRevision ?? getTemplateRevision('');
+          await this.loadTemplate();
+          throw new TemplateConflictError(expectedRevision, saved.revision);
+        }
+        
+        await writeFileAtomic(TEMPLATE_FILE, encodeStoredContent(templateContent));
+        this.savedRevision = getTemplateRevision(templateContent);
+      });
+      this.template.revision = this.savedRevision!;
+      
+      // Record the revision - a history failure shouldn't lose the change itself
+      try {
+        await this.revisionLog.append(templateContent, source);
+      } catch (historyError) {
+        console.error('Error recording template revision:', historyError);
+      }
       
       // Update the cache
       this.templateCache = {
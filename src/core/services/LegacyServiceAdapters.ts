@@ -6,7 +6,7 @@ import { TemplateService } from './TemplateService.js';
 import { PlatformService } from './PlatformService.js';
 import { templateService as legacyTemplateService } from '../../services/templateService.js';
 import { platformService as legacyPlatformService } from '../../services/platformService.js';
-import { MemoryTemplate, TemplateSection, PlatformType, SyncStatus } from '../../types.js';
+import { MemoryTemplate, TemplateSection, TemplateRevision, TemplateWriteOptions, ItemValue, PresetLoadMode, PresetLoadOptions, PlatformType, SyncOptions, SyncStatus, SyncTargetState, TargetEdit } from '../../types.js';
 
 /**
  * Adapter for legacy template service
@@ -39,16 +39,65 @@ export class LegacyTemplateServiceAdapter implements TemplateService {
   /**
    * Update a section
    */
-  async updateSection(sectionName: string, content: string): Promise<boolean> {
-    await this.legacyService.updateSection(sectionName, content);
+  async updateSection(sectionName: string, content: string, options?: TemplateWriteOptions): Promise<boolean> {
+    await this.legacyService.updateSection(sectionName, content, options);
     return true; // Legacy service doesn't return a boolean, assume success
   }
   
   /**
    * Update the entire template
    */
-  async updateTemplate(content: string): Promise<boolean> {
-    return await this.legacyService.updateTemplate(content);
+  async updateTemplate(content: string, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.updateTemplate(content, options);
+  }
+  
+  /**
+   * Delete a section
+   */
+  async deleteSection(sectionName: string, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.deleteSection(sectionName, options);
+  }
+  
+  /**
+   * Rename a section
+   */
+  async renameSection(sectionName: string, newName: string, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.renameSection(sectionName, newName, options);
+  }
+  
+  /**
+   * Reorder sections
+   */
+  async reorderSections(sectionNames: string[], options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.reorderSections(sectionNames, options);
+  }
+  
+  /**
+   * Set an item
+   */
+  async setItem(sectionName: string, key: string, value: ItemValue, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.setItem(sectionName, key, value, options);
+  }
+  
+  /**
+   * Delete an item
+   */
+  async deleteItem(sectionName: string, key: string, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.deleteItem(sectionName, key, options);
+  }
+  
+  /**
+   * Rename an item
+   */
+  async renameItem(sectionName: string, key: string, newKey: string, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.renameItem(sectionName, key, newKey, options);
+  }
+  
+  /**
+   * Move an item
+   */
+  async moveItem(sectionName: string, key: string, targetSectionName: string, position?: number, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.moveItem(sectionName, key, targetSectionName, position, options);
   }
   
   /**
@@ -61,8 +110,15 @@ export class LegacyTemplateServiceAdapter implements TemplateService {
   /**
    * Load a preset
    */
-  async loadPreset(presetName: string): Promise<boolean> {
-    return await this.legacyService.loadPreset(presetName);
+  async loadPreset(presetName: string, options?: PresetLoadOptions): Promise<boolean> {
+    return await this.legacyService.loadPreset(presetName, options);
+  }
+  
+  /**
+   * Work out the template loading a preset would produce
+   */
+  async getPresetTemplate(presetName: string, mode?: PresetLoadMode): Promise<MemoryTemplate> {
+    return await this.legacyService.getPresetTemplate(presetName, mode);
   }
   
   /**
@@ -71,6 +127,27 @@ export class LegacyTemplateServiceAdapter implements TemplateService {
   async createPreset(presetName: string): Promise<boolean> {
     return await this.legacyService.createPreset(presetName);
   }
+  
+  /**
+   * Get the revision history
+   */
+  async getHistory(limit?: number): Promise<TemplateRevision[]> {
+    return await this.legacyService.getHistory(limit);
+  }
+  
+  /**
+   * Get a single revision
+   */
+  async getRevision(revisionId: number): Promise<TemplateRevision | null> {
+    return await this.legacyService.getRevision(revisionId);
+  }
+  
+  /**
+   * Roll back to a revision
+   */
+  async rollback(revisionId: number, options?: TemplateWriteOptions): Promise<boolean> {
+    return await this.legacyService.rollback(revisionId, options);
+  }
 }
 
 /**
@@ -89,30 +166,48 @@ export class LegacyPlatformServiceAdapter implements PlatformService {
   /**
    * Sync all platforms
    */
-  async syncAll(templateContent?: string): Promise<SyncStatus[]> {
+  async syncAll(templateContent?: string, options?: SyncOptions): Promise<SyncStatus[]> {
     // Convert legacy sync results to SyncStatus
-    const results = await this.legacyService.syncAll(templateContent);
+    const results = await this.legacyService.syncAll(templateContent, options);
     return results.map(result => ({
       platform: result.platform as PlatformType,
       success: result.success,
-      message: result.message
+      message: result.message,
+      dryRun: result.dryRun,
+      files: result.files
     }));
   }
   
   /**
    * Sync a specific platform
    */
-  async syncPlatform(platform: PlatformType, templateContent?: string): Promise<SyncStatus> {
+  async syncPlatform(platform: PlatformType, templateContent?: string, options?: SyncOptions): Promise<SyncStatus> {
     // In the legacy service, templateContent isn't a parameter to syncPlatform
     // but we need to implement this interface for compatibility
-    const result = await this.legacyService.syncPlatform(platform);
+    const result = await this.legacyService.syncPlatform(platform, options);
     return {
       platform: result.platform as PlatformType,
       success: result.success,
-      message: result.message
+      message: result.message,
+      dryRun: result.dryRun,
+      files: result.files
     };
   }
   
+  /**
+   * Find synced files edited since the last sync
+   */
+  async findTargetEdits(platform?: PlatformType): Promise<TargetEdit[]> {
+    return await this.legacyService.findTargetEdits(platform);
+  }
+  
+  /**
+   * List synced files with when they were last synced
+   */
+  async getSyncTargets(): Promise<SyncTargetState[]> {
+    return await this.legacyService.getSyncTargets();
+  }
+  
   /**
    * Get available platforms
    */
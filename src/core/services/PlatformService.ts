@@ -1,7 +1,7 @@
 /**
  * PlatformService interface for platform synchronization
  */
-import { PlatformType, SyncStatus } from '../../types.js';
+import { PlatformType, SyncOptions, SyncStatus, SyncTargetState, TargetEdit } from '../../types.js';
 
 export interface PlatformService {
   /**
@@ -11,13 +11,26 @@ export interface PlatformService {
   
   /**
    * Sync template content to all platforms
+   * With { dryRun: true } nothing is written and each status lists the file diffs instead
    */
-  syncAll(templateContent?: string): Promise<SyncStatus[]>;
+  syncAll(templateContent?: string, options?: SyncOptions): Promise<SyncStatus[]>;
   
   /**
    * Sync template content to a specific platform
+   * With { dryRun: true } nothing is written and the status lists the file diffs instead
    */
-  syncPlatform(platform: PlatformType, templateContent?: string): Promise<SyncStatus>;
+  syncPlatform(platform: PlatformType, templateContent?: string, options?: SyncOptions): Promise<SyncStatus>;
+  
+  /**
+   * Find synced files whose memory block was edited directly since the last sync
+   * @param platform Only check this platform's files (all platforms if omitted)
+   */
+  findTargetEdits(platform?: PlatformType): Promise<TargetEdit[]>;
+  
+  /**
+   * List the files each platform syncs to, with when they were last synced
+   */
+  getSyncTargets(): Promise<SyncTargetState[]>;
   
   /**
    * Get all available platforms
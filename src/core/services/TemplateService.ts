@@ -1,16 +1,22 @@
 /**
  * TemplateService interface for the memory template management
  */
-import { MemoryTemplate, TemplateSection } from '../../types.js';
+import { MemoryTemplate, TemplateSection, TemplateRevision, TemplateWriteOptions, ItemValue, PresetLoadMode, PresetLoadOptions } from '../../types.js';
 
 export interface TemplateService {
   /**
    * Initialize the template service
+   *
+   * Methods that change the template take a `TemplateWriteOptions`. When it has an
+   * `expectedRevision` that no longer matches the saved template, they throw a
+   * `TemplateConflictError` rather than returning false. Likewise, a change that
+   * contains what looks like a secret throws a `SecretDetectedError` when the
+   * secrets policy is "reject".
    */
   initialize(): Promise<void>;
   
   /**
-   * Get the full template
+   * Get the full template, including the revision it was saved as
    */
   getTemplate(): MemoryTemplate;
   
@@ -21,13 +27,60 @@ export interface TemplateService {
   
   /**
    * Update a specific section in the template
+   * @param options The source of the change and the revision it's based on
    */
-  updateSection(sectionName: string, content: string): Promise<boolean>;
+  updateSection(sectionName: string, content: string, options?: TemplateWriteOptions): Promise<boolean>;
   
   /**
    * Update the entire template
+   * @param options The source of the change and the revision it's based on
+   * @throws TemplateValidationError if the content has duplicate sections or keys, or unreadable items
    */
-  updateTemplate(content: string): Promise<boolean>;
+  updateTemplate(content: string, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Delete a section and all of its items
+   * @param options The source of the change and the revision it's based on
+   */
+  deleteSection(sectionName: string, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Rename a section, keeping its description and items
+   * @param options The source of the change and the revision it's based on
+   */
+  renameSection(sectionName: string, newName: string, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Reorder sections - the listed sections come first, in order, followed by the rest
+   * @param options The source of the change and the revision it's based on
+   */
+  reorderSections(sectionNames: string[], options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Set a single item's value, adding the item (and its section) if needed
+   * @param value Text as written after the colon, or a typed value: a list becomes list entries and an object sub-items
+   * @param options The source of the change and the revision it's based on
+   */
+  setItem(sectionName: string, key: string, value: ItemValue, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Remove a single item from a section
+   * @param options The source of the change and the revision it's based on
+   */
+  deleteItem(sectionName: string, key: string, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Change an item's key, keeping its value
+   * @param options The source of the change and the revision it's based on
+   */
+  renameItem(sectionName: string, key: string, newKey: string, options?: TemplateWriteOptions): Promise<boolean>;
+  
+  /**
+   * Move an item within its section or to another section
+   * @param position Zero-based index in the target section (defaults to the end)
+   * @param options The source of the change and the revision it's based on
+   */
+  moveItem(sectionName: string, key: string, targetSectionName: string, position?: number, options?: TemplateWriteOptions): Promise<boolean>;
   
   /**
    * List available presets
@@ -35,12 +88,37 @@ export interface TemplateService {
   listPresets(): Promise<string[]>;
   
   /**
-   * Load a preset
+   * Load a preset, following the presets it extends
+   * @param options How to load it (replacing or merging sections), the source of the change and the revision it's based on
    */
-  loadPreset(presetName: string): Promise<boolean>;
+  loadPreset(presetName: string, options?: PresetLoadOptions): Promise<boolean>;
+  
+  /**
+   * Work out the template loading a preset would produce, without saving anything
+   * @throws Error if the preset, or a preset it extends, can't be read or isn't valid
+   */
+  getPresetTemplate(presetName: string, mode?: PresetLoadMode): Promise<MemoryTemplate>;
   
   /**
    * Create a new preset from the current template
    */
   createPreset(presetName: string): Promise<boolean>;
+  
+  /**
+   * Get the revision history of the template, newest first
+   * @param limit Maximum number of revisions to return
+   */
+  getHistory(limit?: number): Promise<TemplateRevision[]>;
+  
+  /**
+   * Get a single revision of the template
+   */
+  getRevision(revisionId: number): Promise<TemplateRevision | null>;
+  
+  /**
+   * Restore the template to an earlier revision
+   * The restore is recorded as a new revision, so it can be undone too
+   * @param options The source of the change and the revision it's based on
+   */
+  rollback(revisionId: number, options?: TemplateWriteOptions): Promise<boolean>;
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * OnboardingImporter - Brings preferences written before myAI Memory into the template
+ *
+ * Scans the places teammates already keep preferences - Claude Code's ~/.claude/CLAUDE.md,
+ * the CLAUDE.md files it syncs to and Windsurf's global rules - for bullets outside the
+ * myAI Memory block, and plans adding them to the template. Nothing is written until the
+ * plan has been reviewed and applied.
+ */
+import path from 'path';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { ServiceFactory } from '../services/ServiceFactory.js';
+import { generateTemplate } from '../../templateParser.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { OnboardingCandidate, OnboardingSource, planOnboardingImport } from '../../utils/onboardingPlan.js';
+import { config } from '../../config.js';
+import { MemoryTemplate, PlatformType, SyncStatus } from '../../types.js';
+
+export interface OnboardingOptions {
+  paths?: string[]; // Scan these files instead of the known locations
+  skip?: number[]; // Ids of candidates to leave out
+  apply?: boolean; // Save the template with the new items and sync it (otherwise only preview the plan)
+  expectedRevision?: string; // Reject the import if the template has been saved since this revision
+  source?: string; // Recorded in the template history
+}
+
+export interface OnboardingResult {
+  files: string[]; // The files that were found and scanned
+  candidates: OnboardingCandidate[];
+  template: MemoryTemplate; // The template with the new items added
+  diff: string; // Unified diff from the current template to the planned one
+  applied: boolean;
+  syncResults?: SyncStatus[];
+}
+
+// The platforms whose files hold preferences worth importing
+const ONBOARDING_PLATFORMS: PlatformType[] = ['claude-code', 'windsurf'];
+
+/**
+ * List the files to scan, with the platform each belongs to
+ * Claude Code's own memory file and the configured Windsurf rules file come first,
+ * followed by the CLAUDE.md and global_rules.md files the platforms sync to.
+ */
+async function getOnboardingPaths(): Promise<{ platform: PlatformType; path: string }[]> {
+  const platformService = ServiceFactory.getPlatformService();
+
+  const candidates: { platform: PlatformType; path: string }[] = [
+    { platform: 'claude-code', path: path.join(homedir(), '.claude', 'CLAUDE.md') },
+    ...(config.paths?.windsurfMemoryPath ? [{ platform: 'windsurf' as PlatformType, path: config.paths.windsurfMemoryPath }] : []),
+    ...(await platformService.getSyncTargets())
+      .filter(target => ONBOARDING_PLATFORMS.includes(target.platform))
+      .map(({ platform, path }) => ({ platform, path }))
+  ];
+
+  // The same file can be listed more than once (e.g. ~/CLAUDE.md)
+  return candidates.filter((candidate, index, all) => all.findIndex(c => c.path === candidate.path) === index);
+}
+
+/**
+ * Work out which platform a file given by the user belongs to, from its name
+ */
+function getPlatformForPath(filePath: string): PlatformType {
+  return path.basename(filePath).toLowerCase() === 'global_rules.md' ? 'windsurf' : 'claude-code';
+}
+
+/**
+ * Plan importing the preferences already written in Claude Code and Windsurf files
+ * Without { apply: true } nothing is written, so the plan can be reviewed first (and
+ * candidates left out with skip). When applied, the template with the new items is
+ * saved and synced to every platform.
+ */
+export async function importOnboardingPreferences(options: OnboardingOptions = {}): Promise<OnboardingResult> {
+  const templateService = ServiceFactory.getTemplateService();
+  const platformService = ServiceFactory.getPlatformService();
+
+  const paths = options.paths
+    ? options.paths.map(filePath => ({ platform: getPlatformForPath(filePath), path: path.resolve(filePath) }))
+    : await getOnboardingPaths();
+
+  const sources: OnboardingSource[] = [];
+  for (const { platform, path: filePath } of paths) {
+    try {
+      sources.push({ platform, path: filePath, content: await fs.readFile(filePath, 'utf-8') });
+    } catch (err) {
+      // Files given explicitly must exist; the known locations often don't
+      if (options.paths) {
+        throw new Error(`Could not read ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  const current = templateService.getTemplate();
+  const plan = planOnboardingImport(current, sources, options.skip);
+
+  const currentContent = generateTemplate(current);
+  const plannedContent = generateTemplate(plan.template);
+  const result: OnboardingResult = {
+    files: sources.map(source => source.path),
+    candidates: plan.candidates,
+    template: plan.template,
+    diff: createUnifiedDiff(currentContent, plannedContent, 'template.md', 'template.md (onboarding)'),
+    applied: false
+  };
+
+  if (!options.apply || plannedContent === currentContent) {
+    return result;
+  }
+
+  const updated = await templateService.updateTemplate(plannedContent, {
+    source: options.source ?? 'onboard',
+    expectedRevision: options.expectedRevision
+  });
+  if (!updated) {
+    throw new Error('Failed to save the template with the imported preferences');
+  }
+
+  result.applied = true;
+  result.syncResults = await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+  return result;
+}
+
+/**
+ * Describe a candidate's value on one line
+ */
+function describeItem(candidate: OnboardingCandidate): string {
+  const { value, list } = candidate.item;
+  return [value, ...(list ?? [])].filter(Boolean).join('; ');
+}
+
+/**
+ * Format an onboarding result for display
+ */
+export function formatOnboardingResult(result: OnboardingResult): string {
+  if (result.files.length === 0) {
+    return 'No Claude Code or Windsurf files were found to import preferences from.';
+  }
+
+  const lines = [
+    `Scanned (${result.files.length}):`,
+    ...result.files.map(file => `  ${file}`)
+  ];
+
+  if (result.candidates.length === 0) {
+    lines.push('', 'No preferences were found outside the myAI Memory blocks.');
+    return lines.join('\n');
+  }
+
+  const newCount = result.candidates.filter(c => c.status === 'new').length;
+  lines.push('', `Candidates (${newCount} of ${result.candidates.length} to add):`);
+  for (const candidate of result.candidates) {
+    const label = candidate.status === 'new' ? '+' : `(${candidate.status})`;
+    lines.push(
+      `  ${candidate.id}. ${label} ${candidate.section} > ${candidate.item.key}: ${describeItem(candidate)}`,
+      `     from ${candidate.path}:${candidate.line}` +
+        (candidate.existing !== undefined ? `; the template has "${candidate.existing.replace(/\n/g, '; ')}"` : '')
+    );
+  }
+
+  lines.push('', result.diff ? result.diff.trimEnd() : 'The import leaves the template unchanged.');
+
+  if (result.applied) {
+    const successCount = result.syncResults?.filter(r => r.success).length ?? 0;
+    lines.push('', `Template saved with the new items and synced to ${successCount}/${result.syncResults?.length ?? 0} platforms.`);
+  } else if (newCount > 0) {
+    lines.push('', 'Nothing has been written. Run again with apply to add the new items, and skip to leave candidates out.');
+  }
+
+  return lines.join('\n');
+}
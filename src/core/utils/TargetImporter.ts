@@ -0,0 +1,135 @@
+/**
+ * TargetImporter - Pulls edits made directly in synced files back into the master template
+ *
+ * Teammates sometimes tweak the myAI Memory block inside a project's CLAUDE.md or
+ * Windsurf's global_rules.md. Each edited file is three-way merged into the master
+ * template, using the block the last sync wrote to it as the common ancestor, so the
+ * edit survives instead of being overwritten by the next sync.
+ */
+import { ServiceFactory } from '../services/ServiceFactory.js';
+import { parseTemplate, generateTemplate, getTemplateLayout } from '../../templateParser.js';
+import { mergeTargetEdits, MergePreference } from '../../utils/templateMerge.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { MemoryTemplate, MergeConflict, PlatformType, SyncStatus, TargetEdit } from '../../types.js';
+
+export interface PullOptions {
+  platform?: PlatformType; // Only pull from this platform's files
+  apply?: boolean; // Save the merged template and sync it (otherwise only preview the merge)
+  prefer?: MergePreference; // Which side wins a conflict (the master template by default)
+  expectedRevision?: string; // Reject the merge if the template has been saved since this revision
+  source?: string; // Recorded in the template history
+}
+
+export interface PullResult {
+  edits: TargetEdit[]; // The files that were edited since they were last synced
+  conflicts: (MergeConflict & { path: string })[];
+  template: MemoryTemplate; // The merged template
+  diff: string; // Unified diff from the current template to the merged one
+  applied: boolean;
+  syncResults?: SyncStatus[];
+}
+
+/**
+ * Merge the edits made in synced files into the master template
+ * Without { apply: true } nothing is written, so the merge can be reviewed first.
+ * When applied, the merged template is saved and synced to every platform, which
+ * also brings the edited files back in line with the master template.
+ */
+export async function pullTargetEdits(options: PullOptions = {}): Promise<PullResult> {
+  const templateService = ServiceFactory.getTemplateService();
+  const platformService = ServiceFactory.getPlatformService();
+
+  // The same file can be written by more than one platform (e.g. ~/CLAUDE.md)
+  const edits = (await platformService.findTargetEdits(options.platform))
+    .filter((edit, index, all) => all.findIndex(e => e.path === edit.path) === index);
+
+  const current = templateService.getTemplate();
+  let template: MemoryTemplate = {
+    ...getTemplateLayout(current),
+    sections: current.sections
+  };
+  const conflicts: PullResult['conflicts'] = [];
+
+  // Later files merge on top of earlier ones, so two files changing the same value conflict
+  for (const edit of edits) {
+    const merge = mergeTargetEdits(
+      parseTemplate(edit.base),
+      parseTemplate(edit.content),
+      template,
+      options.prefer
+    );
+    template = merge.template;
+    conflicts.push(...merge.conflicts.map(conflict => ({ ...conflict, path: edit.path })));
+  }
+
+  const currentContent = generateTemplate(current);
+  const mergedContent = generateTemplate(template);
+  const result: PullResult = {
+    edits,
+    conflicts,
+    template,
+    diff: createUnifiedDiff(currentContent, mergedContent, 'template.md', 'template.md (merged)'),
+    applied: false
+  };
+
+  if (!options.apply || edits.length === 0) {
+    return result;
+  }
+
+  if (mergedContent !== currentContent) {
+    const updated = await templateService.updateTemplate(mergedContent, {
+      source: options.source ?? 'pull',
+      expectedRevision: options.expectedRevision
+    });
+    if (!updated) {
+      throw new Error('Failed to save the merged template');
+    }
+  }
+
+  result.applied = true;
+  result.syncResults = await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+  return result;
+}
+
+/**
+ * Describe a value in a conflict
+ */
+function describeValue(value: string | undefined): string {
+  return value === undefined ? '(removed)' : `"${value}"`;
+}
+
+/**
+ * Format a pull result for display
+ */
+export function formatPullResult(result: PullResult): string {
+  if (result.edits.length === 0) {
+    return 'No synced files have been edited since they were last synced.';
+  }
+
+  const lines = [
+    `Edited since the last sync (${result.edits.length}):`,
+    ...result.edits.map(edit => `  ${edit.platform}: ${edit.path}`)
+  ];
+
+  if (result.conflicts.length > 0) {
+    lines.push('', `Conflicts (${result.conflicts.length}):`);
+    for (const conflict of result.conflicts) {
+      const label = conflict.key ? `${conflict.section} > ${conflict.key}` : `${conflict.section} (description)`;
+      lines.push(
+        `  ${label} in ${conflict.path}: file ${describeValue(conflict.target)}, ` +
+        `master ${describeValue(conflict.master)}, was ${describeValue(conflict.base)}`
+      );
+    }
+  }
+
+  lines.push('', result.diff ? result.diff.trimEnd() : 'The merge leaves the master template unchanged.');
+
+  if (result.applied) {
+    const successCount = result.syncResults?.filter(r => r.success).length ?? 0;
+    lines.push('', `Merged template saved and synced to ${successCount}/${result.syncResults?.length ?? 0} platforms.`);
+  } else {
+    lines.push('', 'Nothing has been written. Pull again with apply to save the merge and sync it.');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,217 @@
+/**
+ * TemplateWatcher - Syncs the memory to all platforms when the template is edited on disk
+ *
+ * Hand edits to `data/template.md` (or the master file) are picked up, validated and
+ * loaded into the template service, then fanned out through the platform service.
+ * Changes are debounced so an editor's burst of writes results in a single sync.
+ */
+import { promises as fs, watch, FSWatcher } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ServiceFactory } from '../services/ServiceFactory.js';
+import { parseTemplate, generateTemplate, validateTemplate } from '../../templateParser.js';
+import { extractMemoryBlock } from '../../utils/memoryBlock.js';
+import { decodeStoredContent } from '../../utils/encryption.js';
+import { syncState, hashContent } from '../../utils/syncState.js';
+import { config } from '../../config.js';
+import { SyncStatus } from '../../types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TEMPLATE_FILE = path.join(__dirname, '..', '..', '..', 'data', 'template.md');
+
+export interface TemplateWatcherOptions {
+  files?: string[]; // Files to watch (defaults to the template and the master file)
+  debounceMs?: number; // Quiet period before a change is synced (default 500ms)
+  syncIntervalMs?: number; // Periodic full sync as a fallback for missed events (defaults to config.syncInterval, 0 disables)
+}
+
+/**
+ * Watches template files and syncs platforms when they change
+ */
+export class TemplateWatcher {
+  private files: string[];
+  private debounceMs: number;
+  private syncIntervalMs: number;
+  private watchers: FSWatcher[] = [];
+  private timers = new Map<string, NodeJS.Timeout>();
+  private interval: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: TemplateWatcherOptions = {}) {
+    this.files = (options.files ?? [TEMPLATE_FILE, config.paths.masterTemplate]).map(file => path.resolve(file));
+    this.debounceMs = options.debounceMs ?? 500;
+    this.syncIntervalMs = options.syncIntervalMs ?? config.syncInterval;
+  }
+
+  /**
+   * The files being watched
+   */
+  getWatchedFiles(): string[] {
+    return [...this.files];
+  }
+
+  /**
+   * Start watching
+   * Directories are watched rather than the files themselves, so files that are
+   * replaced by a rename (as atomic saves and many editors do) or don't exist yet
+   * are still picked up.
+   */
+  start(): void {
+    if (this.watchers.length > 0) return;
+
+    const filesByDirectory = new Map<string, string[]>();
+    for (const file of this.files) {
+      const directory = path.dirname(file);
+      filesByDirectory.set(directory, [...(filesByDirectory.get(directory) || []), file]);
+    }
+
+    for (const [directory, files] of filesByDirectory) {
+      try {
+        const watcher = watch(directory, (_eventType, filename) => {
+          const changedFile = files.find(file => path.basename(file) === filename?.toString());
+          if (changedFile) {
+            this.scheduleChange(changedFile);
+          }
+        });
+        watcher.on('error', error => {
+          console.error(`Error watching ${directory}: ${error.message}`);
+        });
+        this.watchers.push(watcher);
+      } catch (error) {
+        console.error(`Unable to watch ${directory}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.syncIntervalMs > 0) {
+      this.interval = setInterval(() => {
+        this.enqueue(async () => {
+          const results = await this.syncTemplate();
+          console.error(`Periodic sync: ${this.summarize(results)}`);
+        });
+      }, this.syncIntervalMs);
+    }
+  }
+
+  /**
+   * Stop watching and cancel any pending syncs
+   */
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Handle a change to a watched file
+   * @returns The sync results, or null if the change was ignored
+   */
+  async handleChange(filePath: string): Promise<SyncStatus[] | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      // Deleted, or mid-rename - the next event will bring the new file
+      return null;
+    }
+
+    // A sync rewriting the master file recorded what it wrote in the sync ledger, and there
+    // is nothing to load back from it
+    const entry = await syncState.get(filePath);
+    if (entry && entry.hash === hashContent(content)) {
+      return null;
+    }
+
+    // The template is encrypted at rest when encryption is enabled
+    try {
+      content = decodeStoredContent(content, filePath);
+    } catch (error) {
+      console.error(`Ignoring change to ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+
+    // The master file keeps the memory in a delimited block, with the user's own notes around it
+    // (read without the block's surrounding whitespace, so the final newline is added back)
+    const memoryBlock = extractMemoryBlock(content);
+    const memoryContent = memoryBlock !== null ? `${memoryBlock}\n` : content;
+
+    const template = parseTemplate(memoryContent);
+    if (template.sections.length === 0 || !validateTemplate(template)) {
+      console.error(`Ignoring change to ${filePath}: not a valid memory template`);
+      return null;
+    }
+
+    // Nothing to do for the template service's own saves (already synced by whoever
+    // made them), or for edits that don't change the memory itself
+    const templateService = ServiceFactory.getTemplateService();
+    if (generateTemplate(template) === generateTemplate(templateService.getTemplate())) {
+      return null;
+    }
+
+    const updated = await templateService.updateTemplate(memoryContent, {
+      source: `watch:${path.basename(filePath)}`
+    });
+    if (!updated) {
+      console.error(`Ignoring change to ${filePath}: the template service rejected it`);
+      return null;
+    }
+
+    const results = await this.syncTemplate();
+    console.error(`${path.basename(filePath)} changed: ${this.summarize(results)}`);
+    return results;
+  }
+
+  /**
+   * Debounce changes to a file
+   */
+  private scheduleChange(filePath: string): void {
+    const pending = this.timers.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.timers.set(filePath, setTimeout(() => {
+      this.timers.delete(filePath);
+      this.enqueue(async () => {
+        await this.handleChange(filePath);
+      });
+    }, this.debounceMs));
+  }
+
+  /**
+   * Run syncs one at a time, so a slow sync can't interleave with the next change
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error(`Error in template watcher: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  /**
+   * Sync the template service's current template to all platforms
+   */
+  private async syncTemplate(): Promise<SyncStatus[]> {
+    const templateService = ServiceFactory.getTemplateService();
+    const platformService = ServiceFactory.getPlatformService();
+
+    return platformService.syncAll(generateTemplate(templateService.getTemplate()));
+  }
+
+  /**
+   * Summarize sync results for the log
+   */
+  private summarize(results: SyncStatus[]): string {
+    const successCount = results.filter(r => r.success).length;
+    return `synced to ${successCount}/${results.length} platforms`;
+  }
+}
@@ -4,7 +4,8 @@
 import { createServer } from 'http';
 import { templateService } from './services/templateService.js';
 import { platformService } from './services/platformService.js';
-import { generateTemplate } from './templateParser.js';
+import { generateTemplate, generateSection } from './templateParser.js';
+import { formatPlatformTargets } from './platformSync.js';
 import { PlatformType } from './types.js';
 import { z } from 'zod';
 
@@ -422,15 +423,8 @@ export class DirectMcpServer {
         };
       }
       
-      // Format section as markdown
-      let sectionText = `# ${section.title}\n`;
-      if (section.description) {
-        sectionText += `## ${section.description}\n`;
-      }
-      
-      for (const item of section.items) {
-        sectionText += `-~- ${item.key}: ${item.value}\n`;
-      }
+      // Format section as markdown, with list entries and sub-items
+      const sectionText = generateSection(section);
       
       return {
         content: [{ 
@@ -471,7 +465,7 @@ export class DirectMcpServer {
       
       try {
         // Update section in template store
-        await templateService.updateSection(sectionName, content);
+        await templateService.updateSection(sectionName, content, { source: 'update_section' });
         
         // Get the full template content (as object)
         const templateObj = await templateService.getTemplate();
@@ -535,7 +529,7 @@ export class DirectMcpServer {
         };
       }
       
-      const success = await templateService.updateTemplate(content);
+      const success = await templateService.updateTemplate(content, { source: 'update_template' });
       
       if (!success) {
         return {
@@ -619,7 +613,7 @@ export class DirectMcpServer {
         };
       }
       
-      const success = await templateService.loadPreset(presetName);
+      const success = await templateService.loadPreset(presetName, { source: 'load_preset' });
       
       if (!success) {
         return {
@@ -748,11 +742,12 @@ export class DirectMcpServer {
   private async handleListPlatforms() {
     try {
       const platforms = platformService.getPlatforms();
+      const targets = await platformService.getSyncTargets();
       
       return {
         content: [{ 
           type: 'text', 
-          text: `Configured platforms:\n${platforms.join('\n')}` 
+          text: `Configured platforms:\n${formatPlatformTargets(platforms, targets)}` 
         }]
       };
     } catch (error) {
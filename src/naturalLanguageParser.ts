@@ -12,7 +12,7 @@ import { MemoryTemplate } from './types.js';
 import { generateTemplate } from './templateParser.js';
 
 // Define section keywords for automatic categorization
-const sectionKeywords = {
+export const sectionKeywords: Record<string, string[]> = {
   'User Information': [
     'name', 'age', 'location', 'live', 'address', 'phone', 'email', 'birthday', 
     'work', 'job', 'family', 'spouse', 'child', 'children', 'pet', 'hobby', 
@@ -137,7 +137,7 @@ function findBestSectionMatch(partialName: string): string {
  * @param content The content to categorize
  * @returns The name of the best matching section
  */
-function determineBestSection(content: string): string {
+export function determineBestSection(content: string): string {
   // Default to User Information if no better match is found
   let bestSection = 'User Information';
   let bestScore = 0;
@@ -225,7 +225,7 @@ export async function processMemoryCommand(command: string): Promise<{ success:
     // If section doesn't exist, create it
     if (!section) {
       console.error(`Section "${memoryItem.section}" does not exist, creating it`);
-      const created = await templateService.createSection(memoryItem.section);
+      const created = await templateService.createSection(memoryItem.section, '', { source: 'remember' });
       if (!created) {
         return {
           success: false,
@@ -240,7 +240,7 @@ export async function processMemoryCommand(command: string): Promise<{ success:
     const formattedContent = formatContent(memoryItem.content);
     
     // Update the section
-    const success = await templateService.updateSection(memoryItem.section, formattedContent);
+    const success = await templateService.updateSection(memoryItem.section, formattedContent, { source: 'remember' });
     
     if (!success) {
       return {
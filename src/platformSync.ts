@@ -2,10 +2,21 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import puppeteer from 'puppeteer';
 import { homedir } from 'os';
-import { SyncStatus, PlatformType } from './types.js';
-import { generateTemplate } from './templateParser.js';
+import { SyncStatus, PlatformType, SyncOptions, SyncFileChange, SyncTargetState, TargetEdit } from './types.js';
+import { generateTemplate, parseTemplate } from './templateParser.js';
 import { config } from './config.js'; // Import the config object
+import { extractMemoryBlock, replaceMemoryBlock } from './utils/memoryBlock.js';
+import { createUnifiedDiff } from './utils/diff.js';
+import { applyProjectOverlay } from './utils/projectOverlay.js';
+import { syncState, hashContent } from './utils/syncState.js';
+import { discoverProjects, getProjectDiscoveryOptions } from './utils/projectDiscovery.js';
+import { mapWithConcurrency, withLock, withTimeout, TimeoutError } from './utils/concurrency.js';
+import { guardSecrets } from './utils/secretScanner.js';
 import * as fsSync from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
 
 // Custom logger that writes to stderr instead of stdout
 const logger = {
@@ -16,8 +27,26 @@ const logger = {
 /**
  * Base platform sync interface
  */
-interface PlatformSyncer {
-  sync(templateContent: string): Promise<SyncStatus>;
+export interface PlatformSyncer {
+  sync(templateContent: string, options?: SyncOptions): Promise<SyncStatus>;
+  /**
+   * List the files this syncer writes the memory block to, so edits made in them can be pulled back
+   */
+  getTargetPaths?(): Promise<string[]>;
+}
+
+/**
+ * Platforms that write into files projects usually commit (.cursor/rules,
+ * .github/copilot-instructions.md, AGENTS.md), so they are only synced when listed in
+ * sync.optInPlatforms in config.json
+ */
+export const OPT_IN_PLATFORMS: PlatformType[] = ['cursor', 'github-copilot', 'agents-md'];
+
+/**
+ * Check whether a platform is synced: every platform but the opt-in ones, and those listed in config.json
+ */
+export function isPlatformEnabled(platform: PlatformType): boolean {
+  return !OPT_IN_PLATFORMS.includes(platform) || config.sync.optInPlatforms.includes(platform);
 }
 
 /**
@@ -90,70 +119,237 @@ export async function ensureFileWritable(filePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Helper to render a memory section for a platform, dropping the sections not targeted at it
+ */
+function renderMemorySectionForPlatform(memorySection: string, platform: PlatformType): string {
+  return generateTemplate(parseTemplate(memorySection), platform);
+}
+
 /**
  * Helper to extract the myAI Memory section from template content
+ * @param platform If given, only the sections targeted at this platform are kept
  */
-function extractMyAIMemorySection(templateContent: string): string {
-  // Check if the template contains "# myAI Memory" section
-  if (templateContent.includes('# myAI Memory')) {
-    // Find the index of the "# myAI Memory" header
-    const startIndex = templateContent.indexOf('# myAI Memory');
-    
-    // Extract everything from that point onwards
-    return templateContent.substring(startIndex).trim();
+export function extractMyAIMemorySection(templateContent: string, platform?: PlatformType): string {
+  // Use the delimited block (or legacy "# myAI Memory" header onwards) if there is one
+  const memorySection = extractMemoryBlock(templateContent);
+  if (memorySection) {
+    return platform ? renderMemorySectionForPlatform(memorySection, platform) : memorySection;
   }
-  
+
+  // A template written without the "# myAI Memory" header still has its sections
+  const template = parseTemplate(templateContent);
+  if (template.sections.length > 0) {
+    return generateTemplate({ ...template, header: true, finalNewline: true }, platform);
+  }
+
   // If there's no myAI Memory section, create a minimal one
   return '# myAI Memory\n\n';
 }
 
 /**
- * Helper to update the myAI Memory section in a file
- * Using the simplified approach:
- * 1. If "# myAI Memory" exists, remove everything from that line to the end
- * 2. Append the new myAI Memory section
+ * Helper to check whether a file exists
  */
-async function updateMyAIMemorySection(filePath: string, memorySection: string): Promise<void> {
+async function fileExists(filePath: string): Promise<boolean> {
   try {
-    // Ensure the file is writable
-    if (!await ensureFileWritable(filePath)) {
-      throw new Error(`File not writable: ${filePath}`);
+    await fs.access(filePath);
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+/**
+ * Helper to apply new content to a file
+ * In a dry run nothing is written, and the change carries a unified diff instead
+ * @param filePath The file to write
+ * @param currentContent The current content, or null if the file doesn't exist yet
+ * @param updatedContent The content the file should have
+ * @returns What was (or would be) done to the file
+ */
+async function writeFileChange(
+  filePath: string,
+  currentContent: string | null,
+  updatedContent: string,
+  options: SyncOptions = {}
+): Promise<SyncFileChange> {
+  const action = currentContent === null
+    ? 'created'
+    : currentContent === updatedContent ? 'skipped-unchanged' : 'modified';
+
+  if (options.dryRun) {
+    return {
+      path: filePath,
+      action,
+      diff: createUnifiedDiff(currentContent ?? '', updatedContent, currentContent === null ? '/dev/null' : filePath, filePath),
+      bytesWritten: 0
+    };
+  }
+
+  if (action === 'skipped-unchanged') {
+    return { path: filePath, action, bytesWritten: 0 };
+  }
+
+  // A sync that has timed out stops writing, rather than carrying on after it was reported as failed
+  options.signal?.throwIfAborted();
+  await fs.writeFile(filePath, updatedContent, 'utf-8');
+  return { path: filePath, action, bytesWritten: Buffer.byteLength(updatedContent, 'utf-8') };
+}
+
+/**
+ * How updateMyAIMemorySection treats a particular file
+ */
+export interface MemoryFileOptions {
+  prepareContent?: (content: string) => string; // Edit applied to the existing content before the block is replaced
+  local?: boolean; // The file stays on this machine (the master file), so secrets are written as they are
+}
+
+/**
+ * Helper to update the myAI Memory section in a file
+ * Only the block between the myAI Memory markers is replaced, so content
+ * before and after it is preserved. Files with a legacy "# myAI Memory"
+ * header are migrated to markers on their first sync. Files that already have
+ * the right content aren't touched, and files modified outside of sync since
+ * they were last synced are flagged with drift.
+ */
+export async function updateMyAIMemorySection(
+  filePath: string,
+  memorySection: string,
+  options: SyncOptions = {},
+  { prepareContent, local = false }: MemoryFileOptions = {}
+): Promise<SyncFileChange> {
+  // Syncs running at the same time can write the same file, so updates to it are serialized
+  const startTime = Date.now();
+  return withLock(path.resolve(filePath), async () => {
+    try {
+      const exists = await fileExists(filePath);
+
+      // Read the file
+      const content = exists ? await fs.readFile(filePath, 'utf-8') : '';
+
+      // Apply the secrets policy, so an API key in the memory isn't copied into every repo
+      const safeMemorySection = local ? memorySection : guardSecrets(memorySection, filePath);
+
+      // Replace the delimited block, migrating or appending as needed
+      const preparedContent = prepareContent ? prepareContent(content) : content;
+      const updatedContent = replaceMemoryBlock(preparedContent, safeMemorySection);
+
+      // A file that no longer matches what the last sync wrote has been modified outside of sync
+      const entry = await syncState.get(filePath);
+      const drift = exists && entry !== null && entry.hash !== hashContent(content);
+      if (drift) {
+        console.error(`${filePath} was modified outside of sync since it was last synced at ${entry.syncedAt}`);
+      }
+
+      // A sync that has timed out stops before touching the file
+      options.signal?.throwIfAborted();
+
+      // Ensure the file is writable (a dry run only needs to read it, and an up to date file isn't touched)
+      if (!options.dryRun && (!exists || updatedContent !== content) && !await ensureFileWritable(filePath)) {
+        const error: NodeJS.ErrnoException = new Error(`File not writable: ${filePath}`);
+        error.code = 'EACCES';
+        throw error;
+      }
+
+      const change = await writeFileChange(filePath, exists ? content : null, updatedContent, options);
+      if (drift) {
+        change.drift = true;
+      }
+      change.durationMs = Date.now() - startTime;
+
+      if (!options.dryRun) {
+        console.error(change.action === 'skipped-unchanged'
+          ? `myAI Memory section in ${filePath} is up to date`
+          : `Successfully updated myAI Memory section in ${filePath}`);
+
+        // Record the sync in the ledger, so the next one can skip the file or spot changes made to it
+        try {
+          await syncState.record(filePath, safeMemorySection, updatedContent);
+        } catch (stateErr) {
+          console.error(`Failed to record sync state for ${filePath}:`, stateErr);
+        }
+      }
+      return change;
+    } catch (err) {
+      console.error(`Error updating myAI Memory section in ${filePath}:`, err);
+      throw err;
     }
-    
-    // Read the file
-    let content = await fs.readFile(filePath, 'utf-8');
-    
-    // Check if it has a myAI Memory section
-    const hasMemorySection = content.includes('# myAI Memory');
-    
-    if (hasMemorySection) {
-      // Remove everything from "# myAI Memory" to the end of the file
-      content = content.replace(/# myAI Memory[\s\S]*$/, '');
-      // Trim any trailing whitespace
-      content = content.trim();
-      // Append the new myAI Memory section with proper spacing
-      content = `${content}\n\n${memorySection}`;
-    } else {
-      // Append the myAI Memory section at the end with proper spacing
-      content = content.trim();
-      content = `${content}\n\n${memorySection}`;
+  });
+}
+
+/**
+ * Find the files of a syncer whose memory block was edited since it was last synced
+ * Files that have never been synced, or no longer have a memory block, are skipped
+ * as there is nothing to merge them against.
+ * @param platform The platform reported for the edits
+ * @param syncer The syncer whose files are checked
+ * @returns The edited files, with the block last written to each
+ */
+export async function findEditedTargets(platform: PlatformType, syncer: PlatformSyncer): Promise<TargetEdit[]> {
+  if (!syncer.getTargetPaths) {
+    return [];
+  }
+
+  const edits: TargetEdit[] = [];
+  for (const filePath of await syncer.getTargetPaths()) {
+    const entry = await syncState.get(filePath);
+    if (!entry) {
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (err) {
+      continue;
+    }
+
+    const memorySection = extractMemoryBlock(content);
+    if (memorySection !== null && memorySection !== entry.memory) {
+      edits.push({ platform, path: filePath, base: entry.memory, content: memorySection });
     }
-    
-    // Write the updated content back to the file
-    await fs.writeFile(filePath, content, 'utf-8');
-    console.error(`Successfully updated myAI Memory section in ${filePath}`);
-  } catch (err) {
-    console.error(`Error updating myAI Memory section in ${filePath}:`, err);
-    throw err;
   }
+
+  return edits;
 }
 
 /**
- * Check if CLAUDE.md is gitignored in a project
+ * Get when each file of a syncer was last synced, and whether it has been modified since
+ * @param platform The platform reported for the files
+ * @param syncer The syncer whose files are listed
+ */
+export async function getTargetStates(platform: PlatformType, syncer: PlatformSyncer): Promise<SyncTargetState[]> {
+  if (!syncer.getTargetPaths) {
+    return [];
+  }
+
+  const states: SyncTargetState[] = [];
+  for (const filePath of await syncer.getTargetPaths()) {
+    const entry = await syncState.get(filePath);
+    if (!entry) {
+      states.push({ platform, path: filePath });
+      continue;
+    }
+
+    const content = await fs.readFile(filePath, 'utf-8').catch(() => null);
+    states.push({
+      platform,
+      path: filePath,
+      lastSyncedAt: entry.syncedAt,
+      drift: content === null || hashContent(content) !== entry.hash
+    });
+  }
+
+  return states;
+}
+
+/**
+ * Check if a file is gitignored in a project
  * @param projectPath The path to the project root
- * @returns True if CLAUDE.md is gitignored, false otherwise
+ * @param fileName The file path relative to the project root (defaults to CLAUDE.md)
+ * @returns True if the file is gitignored, false otherwise
  */
-async function isClaudeMdGitignored(projectPath: string): Promise<boolean> {
+async function isFileGitignored(projectPath: string, fileName: string = 'CLAUDE.md'): Promise<boolean> {
   try {
     const gitignorePath = path.join(projectPath, '.gitignore');
     
@@ -167,74 +363,411 @@ async function isClaudeMdGitignored(projectPath: string): Promise<boolean> {
     
     // Read the .gitignore file
     const gitignoreContent = await fs.readFile(gitignorePath, 'utf-8');
-    
-    // Check if CLAUDE.md is mentioned
-    const lines = gitignoreContent.split('\n');
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      // Check for any of these patterns that would match CLAUDE.md
-      if (
-        trimmedLine === 'CLAUDE.md' ||
-        trimmedLine === '/CLAUDE.md' ||
-        trimmedLine === '**/CLAUDE.md' ||
-        trimmedLine === 'CLAUDE.*'
-      ) {
-        return true;
-      }
-    }
-    
+    return isIgnoredBy(gitignoreContent, fileName);
+  } catch (err) {
+    console.error(`Error checking if ${fileName} is gitignored in ${projectPath}:`, err);
     return false;
+  }
+}
+
+/**
+ * Check whether .gitignore content has a line ignoring a file
+ * Only whole lines count, so comments and other patterns that mention the file don't,
+ * and a later "!" line for the file un-ignores it again.
+ * @param fileName The file path relative to the project root
+ */
+function isIgnoredBy(gitignoreContent: string, fileName: string): boolean {
+  const baseName = path.basename(fileName);
+  const stem = baseName.replace(/\.[^.]+$/, '');
+  // Any of these patterns match the file (e.g. CLAUDE.md)
+  const patterns = [fileName, `/${fileName}`, `**/${baseName}`, `${stem}.*`];
+
+  let ignored = false;
+  for (const line of gitignoreContent.split('\n')) {
+    const trimmedLine = line.trim();
+    if (patterns.includes(trimmedLine)) {
+      ignored = true;
+    } else if (trimmedLine.startsWith('!') && patterns.includes(trimmedLine.slice(1))) {
+      ignored = false;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Check whether git tracks a file in a project
+ * Adding a tracked file to .gitignore doesn't untrack it, so memory written into it would be committed.
+ * @param fileName The file path relative to the project root
+ * @returns False if the file isn't tracked, the project isn't a git repository or git isn't installed
+ */
+async function isFileTrackedByGit(projectPath: string, fileName: string): Promise<boolean> {
+  try {
+    await execFileAsync('git', ['ls-files', '--error-unmatch', '--', fileName.split(path.sep).join('/')], { cwd: projectPath });
+    return true;
   } catch (err) {
-    console.error(`Error checking if CLAUDE.md is gitignored in ${projectPath}:`, err);
     return false;
   }
 }
 
 /**
- * Adds CLAUDE.md to the .gitignore file of a project
+ * Adds a file to the .gitignore file of a project
  * @param projectPath The path to the project root
+ * @param fileName The file path relative to the project root (defaults to CLAUDE.md)
+ * @returns What was (or would be) done to the .gitignore file
  */
-async function addClaudeMdToGitignore(projectPath: string): Promise<void> {
-  try {
-    const gitignorePath = path.join(projectPath, '.gitignore');
-    
-    // Create .gitignore if it doesn't exist
-    let content = '';
+async function addFileToGitignore(
+  projectPath: string,
+  fileName: string = 'CLAUDE.md',
+  options: SyncOptions = {}
+): Promise<SyncFileChange> {
+  const gitignorePath = path.join(projectPath, '.gitignore');
+
+  // Every platform adds its file to the same .gitignore, so updates to it are serialized
+  return withLock(gitignorePath, async () => {
     try {
-      await fs.access(gitignorePath);
-      content = await fs.readFile(gitignorePath, 'utf-8');
-    } catch (err) {
-      // .gitignore doesn't exist, create it
-      console.error(`Creating new .gitignore file in ${projectPath}`);
-    }
-    
-    // Add CLAUDE.md to .gitignore if it's not already there
-    if (!content.includes('CLAUDE.md')) {
-      // Add a header if this is a new file
-      if (!content.trim()) {
-        content = '# Git ignore file\n\n';
-      }
-      
-      // Make sure it ends with a newline
-      if (content.length > 0 && !content.endsWith('\n')) {
-        content += '\n';
+      // Create .gitignore if it doesn't exist
+      let currentContent: string | null = null;
+      try {
+        await fs.access(gitignorePath);
+        currentContent = await fs.readFile(gitignorePath, 'utf-8');
+      } catch (err) {
+        // .gitignore doesn't exist, create it
+        console.error(`Creating new .gitignore file in ${projectPath}`);
       }
+
+      // Add the file to .gitignore if it's not already ignored
+      let content = currentContent ?? '';
+      if (!isIgnoredBy(content, fileName)) {
+        // Add a header if this is a new file
+        if (!content.trim()) {
+          content = '# Git ignore file\n\n';
+        }
       
-      // Add CLAUDE.md
-      content += '/CLAUDE.md\n';
+        // Make sure it ends with a newline
+        if (content.length > 0 && !content.endsWith('\n')) {
+          content += '\n';
+        }
       
+        // Add the file, anchored to the project root
+        content += `/${fileName}\n`;
+      }
+
       // Write the updated content back to the file
-      await fs.writeFile(gitignorePath, content, 'utf-8');
-      console.error(`Added CLAUDE.md to .gitignore in ${projectPath}`);
+      const change = await writeFileChange(gitignorePath, currentContent, content, options);
+      if (change.action !== 'skipped-unchanged' && !options.dryRun) {
+        console.error(`Added ${fileName} to .gitignore in ${projectPath}`);
+      }
+      return change;
+    } catch (err) {
+      console.error(`Error adding ${fileName} to .gitignore in ${projectPath}:`, err);
+      throw err;
     }
+  });
+}
+
+/**
+ * List the project directories to sync
+ * The roots, globs, depth and git detection come from the "projects" section of
+ * config.json, and projects with a .myai-nosync marker are left out.
+ * @param projectsPath The folder that holds the user's projects, used when no roots are configured
+ * @returns Absolute paths of the project directories
+ */
+async function listProjectDirectories(projectsPath: string): Promise<string[]> {
+  const projects = await discoverProjects(getProjectDiscoveryOptions(expandTildePath(projectsPath)));
+  return projects
+    .filter(project => !project.skipped)
+    .map(project => project.path);
+}
+
+/**
+ * Get a short code for why syncing a file failed
+ * @returns The Node.js error code (e.g. EACCES), ETIMEDOUT for a timeout, or EUNKNOWN
+ */
+export function getSyncErrorCode(err: unknown): string {
+  if (err instanceof TimeoutError) {
+    return 'ETIMEDOUT';
+  }
+  const code = (err as NodeJS.ErrnoException | undefined)?.code;
+  return typeof code === 'string' ? code : 'EUNKNOWN';
+}
+
+/**
+ * Build the entry for a file that couldn't be synced
+ * @param durationMs How long was spent on the file before it failed
+ */
+export function buildFailedFileChange(filePath: string, err: unknown, durationMs?: number): SyncFileChange {
+  return {
+    path: filePath,
+    action: 'failed',
+    bytesWritten: 0,
+    durationMs,
+    errorCode: getSyncErrorCode(err),
+    error: err instanceof Error ? err.message : String(err)
+  };
+}
+
+/**
+ * Outcome of syncing a single target file
+ */
+interface TargetOutcome {
+  path: string;
+  files: SyncFileChange[]; // Every file change, including .gitignore updates, or the failed target
+  error?: string;
+}
+
+/**
+ * Sync a single target file, giving up after the configured per-target timeout
+ * @param filePath The memory file being synced
+ * @param task Writes the file (and anything that goes with it), returning every file change
+ * @returns The file changes, with the time taken on the memory file's change, or the error
+ */
+async function syncTarget(filePath: string, task: () => Promise<SyncFileChange[]>): Promise<TargetOutcome> {
+  const startTime = Date.now();
+  try {
+    const files = await withTimeout(task(), config.sync.targetTimeoutMs, 'Sync');
+    const change = files.find(file => file.path === filePath);
+    if (change) {
+      change.durationMs = Date.now() - startTime;
+    }
+    return { path: filePath, files };
+  } catch (err) {
+    console.error(`Error updating ${filePath}:`, err);
+    const failure = buildFailedFileChange(filePath, err, Date.now() - startTime);
+    return { path: filePath, files: [failure], error: failure.error };
+  }
+}
+
+/**
+ * Sync target files in parallel, at most the configured concurrency at once
+ * @returns The outcome of each target, in the order given
+ */
+function syncTargets<T>(items: T[], sync: (item: T) => Promise<TargetOutcome>): Promise<TargetOutcome[]> {
+  return mapWithConcurrency(items, config.sync.concurrency, sync);
+}
+
+/**
+ * Add the outcomes of synced targets to a syncer's results
+ */
+function collectTargetOutcomes(
+  outcomes: TargetOutcome[],
+  successfulSyncs: string[],
+  failedSyncs: { path: string; error: string }[],
+  files: SyncFileChange[]
+): void {
+  for (const outcome of outcomes) {
+    files.push(...outcome.files);
+    if (outcome.error === undefined) {
+      successfulSyncs.push(outcome.path);
+    } else {
+      failedSyncs.push({ path: outcome.path, error: outcome.error });
+    }
+  }
+}
+
+/**
+ * Run a syncer, giving up after the configured per-platform timeout
+ * The syncer's signal is aborted on timeout, so it stops writing files (and Claude Web closes
+ * its browser). Claude Web has no platform timeout, as it waits up to 5 minutes for the user
+ * to log in. Errors are returned as a failed status rather than thrown.
+ * @returns The sync status, with how long the sync took
+ */
+export async function runSyncer(
+  platform: PlatformType,
+  syncer: PlatformSyncer,
+  templateContent: string,
+  options: SyncOptions = {}
+): Promise<SyncStatus> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const abort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  let status: SyncStatus;
+  try {
+    const timeoutMs = platform === 'claude-web' ? 0 : config.sync.platformTimeoutMs;
+    status = await withTimeout(
+      syncer.sync(templateContent, { ...options, signal: controller.signal }),
+      timeoutMs,
+      'Sync',
+      controller
+    );
   } catch (err) {
-    console.error(`Error adding CLAUDE.md to .gitignore in ${projectPath}:`, err);
-    throw err;
+    console.error(`Error syncing with ${platform}:`, err);
+    status = {
+      platform,
+      success: false,
+      message: `Error syncing with ${platform}: ${err instanceof Error ? err.message : String(err)}`
+    };
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+  }
+  return { ...status, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Format how long a sync took for display
+ * @returns e.g. " (1.2s)", or an empty string if the duration isn't known
+ */
+export function formatSyncDuration(durationMs?: number): string {
+  if (durationMs === undefined) {
+    return '';
+  }
+  return durationMs < 1000 ? ` (${durationMs}ms)` : ` (${(durationMs / 1000).toFixed(1)}s)`;
+}
+
+/**
+ * Describe how many memory files a sync wrote and skipped, and which ones had been modified outside of sync
+ * @param memoryPaths Paths of the memory files that were synced
+ * @param files Every file change of the sync, including .gitignore updates
+ * @returns A suffix for the status message, e.g. " (2 written, 38 skipped-unchanged, slowest /projects/app/CLAUDE.md (120ms))"
+ */
+function describeFileOutcomes(memoryPaths: string[], files: SyncFileChange[]): string {
+  const memoryFiles = files.filter(file => memoryPaths.includes(file.path));
+  const skippedCount = memoryFiles.filter(file => file.action === 'skipped-unchanged').length;
+  const tracked = memoryFiles.filter(file => file.action === 'skipped-tracked').map(file => file.path);
+  const drifted = memoryFiles.filter(file => file.drift).map(file => file.path);
+
+  // The slowest file shows which target is holding the sync up
+  const slowest = memoryFiles.length > 1
+    ? memoryFiles.reduce((a, b) => ((b.durationMs ?? 0) > (a.durationMs ?? 0) ? b : a))
+    : undefined;
+  const slowestText = slowest?.durationMs !== undefined ? `, slowest ${slowest.path}${formatSyncDuration(slowest.durationMs)}` : '';
+
+  return ` (${memoryFiles.length - skippedCount - tracked.length} written, ${skippedCount} skipped-unchanged${slowestText})` +
+    (drifted.length > 0 ? `. Modified outside of sync since the last sync: ${drifted.join(', ')}` : '') +
+    (tracked.length > 0 ? `. Not written, as git tracks them: ${tracked.join(', ')}` : '');
+}
+
+/**
+ * Describe the outcome of a sync that writes a single file
+ * @param label Human readable name of the file used in the message (e.g. "Windsurf memory")
+ */
+export function describeFileSync(label: string, change: SyncFileChange): string {
+  const outcome = change.action === 'skipped-unchanged'
+    ? `${label} at ${change.path} is up to date (skipped-unchanged)`
+    : `Successfully updated ${label} at ${change.path}`;
+
+  return change.drift ? `${outcome}. It was modified outside of sync since the last sync` : outcome;
+}
+
+/**
+ * Build the sync status for a syncer that writes many files
+ * @param label Human readable name of the files used in the message (e.g. "CLAUDE.md")
+ * @param successfulSyncs Paths of the memory files that were (or would be) updated
+ * @param failedSyncs Memory files that could not be updated
+ * @param files Every file change, including .gitignore updates and failed files
+ */
+function buildFileSyncStatus(
+  platform: PlatformType,
+  label: string,
+  successfulSyncs: string[],
+  failedSyncs: { path: string; error: string }[],
+  files: SyncFileChange[],
+  options: SyncOptions = {}
+): SyncStatus {
+  const failures = failedSyncs.map(f => `${f.path}: ${f.error}`).join(', ');
+
+  if (options.dryRun) {
+    const checkedFiles = files.filter(file => file.action !== 'failed');
+    const changedCount = checkedFiles.filter(file => !file.action.startsWith('skipped-')).length;
+    return {
+      platform,
+      success: successfulSyncs.length > 0,
+      message: `Dry run: ${changedCount} of ${checkedFiles.length} files would change for ${label}` +
+        (failedSyncs.length > 0 ? `. Errors: ${failures}` : ''),
+      dryRun: true,
+      files
+    };
+  }
+
+  if (successfulSyncs.length === 0) {
+    return {
+      platform,
+      success: false,
+      message: `Failed to update any ${label} files. Errors: ${failures}`,
+      files
+    };
+  } else if (failedSyncs.length === 0) {
+    return {
+      platform,
+      success: true,
+      message: `Successfully synced ${successfulSyncs.length} ${label} files${describeFileOutcomes(successfulSyncs, files)}`,
+      files
+    };
+  } else {
+    return {
+      platform,
+      success: true,
+      message: `Partially successful: Synced ${successfulSyncs.length} ${label} files, ${failedSyncs.length} failures${describeFileOutcomes(successfulSyncs, files)}`,
+      files
+    };
   }
 }
 
+/**
+ * Format the file changes of a sync for display, with their diffs in a dry run
+ * @param files The file changes from a sync status
+ * @returns One "action: path (duration)" line per file, each followed by its diff if there is one
+ */
+export function formatSyncFileChanges(files: SyncFileChange[] = []): string {
+  return files
+    .map(file => {
+      // Node.js error messages already start with their code
+      const failure = file.errorCode && !file.error?.startsWith(`${file.errorCode}:`)
+        ? `${file.errorCode}: ${file.error}`
+        : file.error;
+      const notes = file.action === 'failed'
+        ? ` - ${failure}`
+        : file.drift ? ' (modified outside of sync since the last sync)' : '';
+      return `  ${file.action}: ${file.path}${formatSyncDuration(file.durationMs)}${notes}\n${file.diff ?? ''}`;
+    })
+    .join('');
+}
+
+/**
+ * Format sync results as JSON, for tools and scripts to read the outcome of each file
+ * @returns The results as { results: SyncStatus[] }
+ */
+export function formatSyncResultsJson(results: SyncStatus[]): string {
+  return JSON.stringify({ results }, null, 2);
+}
+
+/**
+ * Format the configured platforms for display, each with the files it syncs to and when they were last synced
+ * @param platforms The configured platforms
+ * @param targets The files of every platform, from the platform service
+ */
+export function formatPlatformTargets(platforms: PlatformType[], targets: SyncTargetState[]): string {
+  return platforms
+    .map(platform => {
+      const lines = targets
+        .filter(target => target.platform === platform)
+        .map(target => {
+          const synced = target.lastSyncedAt ? `last synced ${target.lastSyncedAt}` : 'never synced';
+          return `  ${target.path} - ${synced}${target.drift ? ' (modified outside of sync since)' : ''}`;
+        });
+      return [platform, ...lines].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Build the sync status for a dry run of a syncer that writes a single file
+ */
+function buildDryRunStatus(platform: PlatformType, label: string, change: SyncFileChange): SyncStatus {
+  const outcome = change.action === 'skipped-unchanged' ? 'left unchanged' : change.action;
+  return {
+    platform,
+    success: true,
+    message: `Dry run: ${label} at ${change.path} would be ${outcome}`,
+    dryRun: true,
+    files: [change]
+  };
+}
+
 /**
  * Claude Code synchronization (CLAUDE.md files in project roots)
+ * Projects with a .myai-memory.md overlay get it merged on top of the master memory
  */
 export class ClaudeCodeSyncer implements PlatformSyncer {
   private projectRoots: string[] = [];
@@ -258,14 +791,25 @@ export class ClaudeCodeSyncer implements PlatformSyncer {
     console.error('ClaudeCodeSyncer initialized - will search common project directories for CLAUDE.md files');
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    const targetPaths = [path.join(homedir(), 'CLAUDE.md')];
+    try {
+      const directories = await listProjectDirectories(this.claudeProjectsPath);
+      targetPaths.push(...directories.map(dirPath => path.join(dirPath, 'CLAUDE.md')));
+    } catch (err) {
+      console.error(`Error accessing projects directory ${this.claudeProjectsPath}:`, err);
+    }
+    return targetPaths;
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     console.error('ClaudeCodeSyncer.sync called, claudeProjectsPath:', this.claudeProjectsPath);
     
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Claude Code sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'claude-code',
@@ -278,130 +822,73 @@ export class ClaudeCodeSyncer implements PlatformSyncer {
       const resolvedProjectsPath = expandTildePath(this.claudeProjectsPath);
       console.error(`Resolved projects path: ${resolvedProjectsPath}`);
       
+      // Extract the "myAI Memory" section, and the Claude Code view of it
+      const fullMemorySection = extractMyAIMemorySection(templateContent);
+      const memorySection = renderMemorySectionForPlatform(fullMemorySection, 'claude-code');
+      
       // Start with home directory CLAUDE.md
       const homeClaudeMdPath = path.join(homedir(), 'CLAUDE.md');
       const successfulSyncs: string[] = [];
       const failedSyncs: { path: string; error: string }[] = [];
+      const files: SyncFileChange[] = [];
       
       // Handle home directory CLAUDE.md
       console.error(`Checking home directory CLAUDE.md at ${homeClaudeMdPath}`);
-      try {
-        // Ensure writable
-        const homeFileWritable = await ensureFileWritable(homeClaudeMdPath);
-        if (homeFileWritable) {
-          // Extract the "myAI Memory" section
-          const memorySection = extractMyAIMemorySection(templateContent);
-          if (memorySection) {
-            // Update the memory section
-            await updateMyAIMemorySection(homeClaudeMdPath, memorySection);
-            successfulSyncs.push(homeClaudeMdPath);
-            console.error(`Successfully updated ${homeClaudeMdPath}`);
-          } else {
-            failedSyncs.push({
-              path: homeClaudeMdPath,
-              error: 'Failed to extract "myAI Memory" section from template'
-            });
-          }
-        } else {
-          failedSyncs.push({
-            path: homeClaudeMdPath,
-            error: 'Could not make file writable'
-          });
-        }
-      } catch (err) {
-        console.error(`Error updating ${homeClaudeMdPath}:`, err);
-        failedSyncs.push({
-          path: homeClaudeMdPath,
-          error: err instanceof Error ? err.message : String(err)
-        });
-      }
+      const outcomes = [
+        await syncTarget(homeClaudeMdPath, async () => [await updateMyAIMemorySection(homeClaudeMdPath, memorySection, options)])
+      ];
       
       try {
-        // Check if the projects directory exists
-        await fs.access(resolvedProjectsPath);
-        
-        // Get all directories within the project directory
-        const dirEntries = await fs.readdir(resolvedProjectsPath, { withFileTypes: true });
-        const directories = dirEntries.filter(entry => entry.isDirectory());
-        
+        const directories = await listProjectDirectories(resolvedProjectsPath);
+
         console.error(`Found ${directories.length} project directories to check for CLAUDE.md files`);
         
-        // Extract the "myAI Memory" section
-        const memorySection = extractMyAIMemorySection(templateContent);
-        if (!memorySection) {
-          throw new Error('Failed to extract "myAI Memory" section from template');
-        }
-        
-        // Check each directory for a CLAUDE.md file
-        for (const dir of directories) {
-          try {
-            const dirPath = path.join(resolvedProjectsPath, dir.name);
-            const claudeMdPath = path.join(dirPath, 'CLAUDE.md');
+        // Update each project's CLAUDE.md, several at once
+        outcomes.push(...await syncTargets(directories, dirPath => {
+          const claudeMdPath = path.join(dirPath, 'CLAUDE.md');
+          return syncTarget(claudeMdPath, async () => {
+            const projectFiles: SyncFileChange[] = [];
             
             // First, ensure CLAUDE.md is gitignored
-            const isGitignored = await isClaudeMdGitignored(dirPath);
+            const isGitignored = await isFileGitignored(dirPath);
             if (!isGitignored) {
               console.error(`CLAUDE.md is not gitignored in ${dirPath}. Adding to .gitignore...`);
               try {
-                await addClaudeMdToGitignore(dirPath);
-                console.error(`Successfully added CLAUDE.md to .gitignore in ${dirPath}`);
+                projectFiles.push(await addFileToGitignore(dirPath, 'CLAUDE.md', options));
               } catch (gitignoreErr) {
                 console.error(`Failed to add CLAUDE.md to .gitignore in ${dirPath}:`, gitignoreErr);
                 // Continue anyway - we'll still update the file
               }
             }
             
-            // Check if CLAUDE.md exists and ensure it's writable
-            const isWritable = await ensureFileWritable(claudeMdPath);
-            if (isWritable) {
-              // Update the memory section
-              await updateMyAIMemorySection(claudeMdPath, memorySection);
-              successfulSyncs.push(claudeMdPath);
-              console.error(`Successfully updated ${claudeMdPath}`);
-            } else {
-              failedSyncs.push({
-                path: claudeMdPath,
-                error: 'Could not make file writable'
-              });
-            }
-          } catch (err) {
-            console.error(`Error updating ${dir.name}/CLAUDE.md:`, err);
-            failedSyncs.push({
-              path: `${dir.name}/CLAUDE.md`,
-              error: err instanceof Error ? err.message : String(err)
-            });
-          }
-        }
+            // Merge the project's own overlay (if it has one) on top of the master memory
+            const projectMemorySection = renderMemorySectionForPlatform(
+              await applyProjectOverlay(dirPath, fullMemorySection),
+              'claude-code'
+            );
+            
+            // Update the memory section
+            projectFiles.push(await updateMyAIMemorySection(claudeMdPath, projectMemorySection, options));
+            return projectFiles;
+          });
+        }));
       } catch (err) {
         console.error(`Error accessing projects directory ${resolvedProjectsPath}:`, err);
         failedSyncs.push({
           path: resolvedProjectsPath,
           error: err instanceof Error ? err.message : String(err)
         });
+        files.push(buildFailedFileChange(resolvedProjectsPath, err));
       }
       
-      // Update last sync time
-      this.lastSyncTime = now;
+      collectTargetOutcomes(outcomes, successfulSyncs, failedSyncs, files);
       
-      if (successfulSyncs.length === 0) {
-        return {
-          platform: 'claude-code',
-          success: false,
-          message: `Failed to update any CLAUDE.md files. Errors: ${failedSyncs.map(f => `${f.path}: ${f.error}`).join(', ')}`
-        };
-      } else if (failedSyncs.length === 0) {
-        return {
-          platform: 'claude-code',
-          success: true,
-          message: `Successfully updated ${successfulSyncs.length} CLAUDE.md files`
-        };
-      } else {
-        return {
-          platform: 'claude-code',
-          success: true,
-          message: `Partially successful: Updated ${successfulSyncs.length} CLAUDE.md files, ${failedSyncs.length} failures`
-        };
+      // Update last sync time
+      if (!options.dryRun) {
+        this.lastSyncTime = now;
       }
+      
+      return buildFileSyncStatus('claude-code', 'CLAUDE.md', successfulSyncs, failedSyncs, files, options);
     } catch (err) {
       console.error('Error in ClaudeCodeSyncer.sync:', err);
       return {
@@ -423,7 +910,17 @@ export class ClaudeWebSyncer implements PlatformSyncer {
     this.email = options?.email;
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
+    // The current preferences are only visible after logging in, so a dry run can't diff them
+    if (options.dryRun) {
+      return {
+        platform: 'claude-web',
+        success: true,
+        message: 'Dry run: Claude.ai profile preferences would be replaced with the myAI Memory section',
+        dryRun: true
+      };
+    }
+    
     logger.log('Syncing with Claude Web Profile Settings...');
     
     // Launch browser
@@ -433,7 +930,15 @@ export class ClaudeWebSyncer implements PlatformSyncer {
       args: ['--no-sandbox']
     });
     
+    // Closing the browser when the sync is aborted also ends whatever the page is waiting for
+    const closeOnAbort = () => {
+      logger.log('Sync aborted, closing browser...');
+      browser.close().catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', closeOnAbort, { once: true });
+    
     try {
+      options.signal?.throwIfAborted();
       const page = await browser.newPage();
       
       // Set default timeout
@@ -482,8 +987,10 @@ export class ClaudeWebSyncer implements PlatformSyncer {
       const preferencesTextarea = await page.waitForSelector('textarea[name="preferences"]');
       
       if (preferencesTextarea) {
+        options.signal?.throwIfAborted();
+        
         // Extract myAI Memory section from template content
-        const myAIMemorySection = extractMyAIMemorySection(templateContent);
+        const myAIMemorySection = guardSecrets(extractMyAIMemorySection(templateContent, 'claude-web'), 'Claude.ai profile preferences');
         
         // Update preferences content
         logger.log('Updating profile preferences...');
@@ -530,7 +1037,7 @@ export class ClaudeWebSyncer implements PlatformSyncer {
         message: 'Successfully updated Claude.ai profile preferences'
       };
     } catch (err) {
-      if (browser) {
+      if (browser.connected) {
         await browser.close();
       }
       
@@ -540,6 +1047,8 @@ export class ClaudeWebSyncer implements PlatformSyncer {
         success: false,
         message: `Failed to sync with Claude.ai profile settings: ${err instanceof Error ? err.message : String(err)}`
       };
+    } finally {
+      options.signal?.removeEventListener('abort', closeOnAbort);
     }
   }
 }
@@ -575,12 +1084,16 @@ export class WindsurfSyncer implements PlatformSyncer {
     }
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    return [expandTildePath(this.rulesPath)];
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Windsurf sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'windsurf',
@@ -593,28 +1106,15 @@ export class WindsurfSyncer implements PlatformSyncer {
       const resolvedPath = expandTildePath(this.rulesPath);
       console.error(`Preparing to sync with Windsurf at resolved path: ${resolvedPath}`);
       
-      // Ensure directory exists and file is writable
-      const isWritable = await ensureFileWritable(resolvedPath);
-      if (!isWritable) {
-        return {
-          platform: 'windsurf',
-          success: false,
-          message: `Failed to sync with Windsurf: Could not make file writable: ${resolvedPath}`
-        };
-      }
-      
-      // Extract the "myAI Memory" section
-      const memorySection = extractMyAIMemorySection(templateContent);
-      if (!memorySection) {
-        return {
-          platform: 'windsurf',
-          success: false,
-          message: 'Failed to extract "myAI Memory" section from template'
-        };
-      }
+      // Extract the sections of the "myAI Memory" section meant for Windsurf
+      const memorySection = extractMyAIMemorySection(templateContent, 'windsurf');
       
       // Update the memory section (this handles creating/replacing logic)
-      await updateMyAIMemorySection(resolvedPath, memorySection);
+      const change = await updateMyAIMemorySection(resolvedPath, memorySection, options);
+      
+      if (options.dryRun) {
+        return buildDryRunStatus('windsurf', 'Windsurf memory', change);
+      }
       
       // Update last sync time
       this.lastSyncTime = now;
@@ -622,19 +1122,230 @@ export class WindsurfSyncer implements PlatformSyncer {
       return {
         platform: 'windsurf',
         success: true,
-        message: `Successfully updated Windsurf memory at ${resolvedPath}`
+        message: describeFileSync('Windsurf memory', change),
+        files: [change]
       };
     } catch (err) {
       console.error('Error syncing with Windsurf:', err);
       return {
         platform: 'windsurf',
         success: false,
-        message: `Failed to sync with Windsurf: ${err instanceof Error ? err.message : String(err)}`
+        message: `Failed to sync with Windsurf: ${err instanceof Error ? err.message : String(err)}`,
+        files: [buildFailedFileChange(expandTildePath(this.rulesPath), err)]
       };
     }
   }
 }
 
+/**
+ * Shared synchronization for platforms that read a memory file from every project
+ * Subclasses choose the file, and can add global files outside the projects path
+ */
+abstract class ProjectFileSyncer implements PlatformSyncer {
+  private lastSyncTime: number = 0;
+  private syncCooldown: number = 5000; // 5 second cooldown
+  protected claudeProjectsPath: string;
+
+  /** Platform reported in the sync status */
+  protected abstract readonly platform: PlatformType;
+  /** File path relative to each project root */
+  protected abstract readonly relativePath: string;
+  /** Human readable name used in status messages */
+  protected abstract readonly label: string;
+
+  constructor(claudeProjectsPath?: string) {
+    this.claudeProjectsPath = claudeProjectsPath || path.join(homedir(), 'CascadeProjects');
+  }
+
+  /**
+   * Files outside the projects path that should also receive the memory block
+   */
+  protected getGlobalPaths(): string[] {
+    return [];
+  }
+
+  /**
+   * Adjust a target file's existing content before the memory block is written
+   */
+  protected prepareContent(content: string): string {
+    return content;
+  }
+
+  /**
+   * Write the memory block into a single target file
+   */
+  protected writeMemoryBlock(filePath: string, memorySection: string, options: SyncOptions): Promise<SyncFileChange> {
+    return updateMyAIMemorySection(filePath, memorySection, options, { prepareContent: content => this.prepareContent(content) });
+  }
+
+  async getTargetPaths(): Promise<string[]> {
+    const targetPaths = this.getGlobalPaths();
+    try {
+      const directories = await listProjectDirectories(this.claudeProjectsPath);
+      targetPaths.push(...directories.map(dirPath => path.join(dirPath, this.relativePath)));
+    } catch (err) {
+      console.error(`Error accessing projects directory ${this.claudeProjectsPath}:`, err);
+    }
+    return targetPaths;
+  }
+
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
+    try {
+      const now = Date.now();
+
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
+        console.error(`Skipping ${this.label} sync - within cooldown period (${this.syncCooldown}ms)`);
+        return {
+          platform: this.platform,
+          success: true,
+          message: `Skipped update to ${this.label} files (within throttle period)`
+        };
+      }
+
+      const memorySection = extractMyAIMemorySection(templateContent, this.platform);
+      const successfulSyncs: string[] = [];
+      const failedSyncs: { path: string; error: string }[] = [];
+      const files: SyncFileChange[] = [];
+
+      // Global files
+      const outcomes = await syncTargets(this.getGlobalPaths(), globalPath =>
+        syncTarget(globalPath, async () => [await this.writeMemoryBlock(globalPath, memorySection, options)])
+      );
+
+      // Project files, several at once
+      try {
+        const directories = await listProjectDirectories(this.claudeProjectsPath);
+        console.error(`Found ${directories.length} project directories to update ${this.label} files in`);
+
+        outcomes.push(...await syncTargets(directories, dirPath => {
+          const filePath = path.join(dirPath, this.relativePath);
+          return syncTarget(filePath, async () => {
+            const projectFiles: SyncFileChange[] = [];
+
+            // A file the project has committed is left alone, or personal memory would be committed with it
+            if (await isFileTrackedByGit(dirPath, this.relativePath)) {
+              console.error(`Skipping ${filePath}: it is tracked by git`);
+              return [{ path: filePath, action: 'skipped-tracked', bytesWritten: 0 }];
+            }
+
+            // Keep personal memory out of version control, like CLAUDE.md
+            if (!await isFileGitignored(dirPath, this.relativePath)) {
+              try {
+                projectFiles.push(await addFileToGitignore(dirPath, this.relativePath, options));
+              } catch (gitignoreErr) {
+                console.error(`Failed to add ${this.relativePath} to .gitignore in ${dirPath}:`, gitignoreErr);
+              }
+            }
+
+            projectFiles.push(await this.writeMemoryBlock(filePath, memorySection, options));
+            return projectFiles;
+          });
+        }));
+      } catch (err) {
+        console.error(`Error accessing projects directory ${this.claudeProjectsPath}:`, err);
+        failedSyncs.push({
+          path: this.claudeProjectsPath,
+          error: err instanceof Error ? err.message : String(err)
+        });
+        files.push(buildFailedFileChange(this.claudeProjectsPath, err));
+      }
+
+      collectTargetOutcomes(outcomes, successfulSyncs, failedSyncs, files);
+
+      // Update last sync time
+      if (!options.dryRun) {
+        this.lastSyncTime = now;
+      }
+
+      return buildFileSyncStatus(this.platform, this.label, successfulSyncs, failedSyncs, files, options);
+    } catch (err) {
+      console.error(`Error in ${this.label} sync:`, err);
+      return {
+        platform: this.platform,
+        success: false,
+        message: `Failed to sync ${this.label} files: ${err instanceof Error ? err.message : String(err)}`
+      };
+    }
+  }
+}
+
+/**
+ * Name of the Cursor rule file written into each rules directory
+ */
+const CURSOR_RULE_FILE = 'myai-memory.mdc';
+
+/**
+ * MDC front-matter for the myAI Memory Cursor rule
+ * alwaysApply makes Cursor include the rule in every request
+ */
+const CURSOR_RULE_FRONT_MATTER = [
+  '---',
+  'description: myAI Memory - personal preferences synced by myAI Memory Sync',
+  'globs:',
+  'alwaysApply: true',
+  '---'
+].join('\n');
+
+/**
+ * Helper to make sure a Cursor rule file starts with MDC front-matter
+ * Cursor ignores .mdc rules without it, so it is added before the memory block is written
+ */
+function addCursorRuleFrontMatter(content: string): string {
+  if (content.trimStart().startsWith('---')) {
+    return content;
+  }
+
+  return `${CURSOR_RULE_FRONT_MATTER}\n\n${content.trim()}`;
+}
+
+/**
+ * Cursor synchronization (.cursor/rules/*.mdc files in project roots and the global rules folder)
+ */
+export class CursorSyncer extends ProjectFileSyncer {
+  protected readonly platform = 'cursor' as const;
+  protected readonly relativePath = path.join('.cursor', 'rules', CURSOR_RULE_FILE);
+  protected readonly label = 'Cursor rule';
+  private globalRulesPath: string;
+
+  /**
+   * @param globalRulesPath A folder to also write the rule into, outside any project (none by
+   *   default: Cursor only reads rules from a project's .cursor/rules)
+   */
+  constructor(claudeProjectsPath?: string, globalRulesPath?: string) {
+    super(claudeProjectsPath);
+    const rulesPath = globalRulesPath ?? config.paths?.cursorRulesPath;
+    this.globalRulesPath = rulesPath ? expandTildePath(rulesPath) : '';
+    console.error(`CursorSyncer initialized with projects path: ${this.claudeProjectsPath}, global rules: ${this.globalRulesPath || 'none'}`);
+  }
+
+  protected getGlobalPaths(): string[] {
+    return this.globalRulesPath ? [path.join(this.globalRulesPath, CURSOR_RULE_FILE)] : [];
+  }
+
+  protected prepareContent(content: string): string {
+    return addCursorRuleFrontMatter(content);
+  }
+}
+
+/**
+ * GitHub Copilot synchronization (.github/copilot-instructions.md in project roots)
+ */
+export class CopilotSyncer extends ProjectFileSyncer {
+  protected readonly platform = 'github-copilot' as const;
+  protected readonly relativePath = path.join('.github', 'copilot-instructions.md');
+  protected readonly label = 'Copilot instructions';
+}
+
+/**
+ * AGENTS.md synchronization (the cross-tool agent instructions file in project roots)
+ */
+export class AgentsMdSyncer extends ProjectFileSyncer {
+  protected readonly platform = 'agents-md' as const;
+  protected readonly relativePath = 'AGENTS.md';
+  protected readonly label = 'AGENTS.md';
+}
+
 /**
  * Platform synchronization manager
  */
@@ -645,6 +1356,15 @@ export class PlatformSyncManager {
     // Default syncers
     this.syncers.set('claude-code', new ClaudeCodeSyncer());
     this.syncers.set('windsurf', new WindsurfSyncer());
+    if (isPlatformEnabled('cursor')) {
+      this.syncers.set('cursor', new CursorSyncer());
+    }
+    if (isPlatformEnabled('github-copilot')) {
+      this.syncers.set('github-copilot', new CopilotSyncer());
+    }
+    if (isPlatformEnabled('agents-md')) {
+      this.syncers.set('agents-md', new AgentsMdSyncer());
+    }
     // Claude web syncer requires credentials, so it's not created by default
   }
   
@@ -657,23 +1377,21 @@ export class PlatformSyncManager {
   
   /**
    * Sync template with all platforms
+   * Platforms are synced in parallel, up to the configured concurrency, and each result says how long it took.
+   * Pass { dryRun: true } to get a diff of every file that would change without writing anything
    */
-  async syncAll(templateContent: string): Promise<SyncStatus[]> {
-    const results: SyncStatus[] = [];
-    
-    for (const [platform, syncer] of this.syncers.entries()) {
+  async syncAll(templateContent: string, options?: SyncOptions): Promise<SyncStatus[]> {
+    return mapWithConcurrency(Array.from(this.syncers.entries()), config.sync.concurrency, ([platform, syncer]) => {
       logger.log(`Syncing with platform: ${platform}`);
-      const result = await syncer.sync(templateContent);
-      results.push(result);
-    }
-    
-    return results;
+      return runSyncer(platform, syncer, templateContent, options);
+    });
   }
   
   /**
    * Sync template with a specific platform
+   * Pass { dryRun: true } to get a diff of every file that would change without writing anything
    */
-  async syncPlatform(platform: PlatformType, templateContent: string): Promise<SyncStatus> {
+  async syncPlatform(platform: PlatformType, templateContent: string, options?: SyncOptions): Promise<SyncStatus> {
     const syncer = this.syncers.get(platform);
     
     if (!syncer) {
@@ -684,6 +1402,6 @@ export class PlatformSyncManager {
       };
     }
     
-    return await syncer.sync(templateContent);
+    return await runSyncer(platform, syncer, templateContent, options);
   }
 }
\ No newline at end of file
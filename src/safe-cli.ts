@@ -8,6 +8,7 @@
 import { program } from 'commander';
 import { SafeSyncManager } from './safeSyncManager.js';
 import chalk from 'chalk';
+import { formatSyncFileChanges, formatSyncDuration, formatSyncResultsJson } from './platformSync.js';
 
 const safeSyncManager = new SafeSyncManager();
 
@@ -21,21 +22,31 @@ program
 program
   .command('sync')
   .description('Sync myAI Memory to all supported platforms')
-  .action(async () => {
-    console.log(chalk.blue('📡 Syncing myAI Memory to all platforms...'));
+  .option('--json', 'Print the result of each platform and file as JSON', false)
+  .action(async (options) => {
+    if (!options.json) {
+      console.log(chalk.blue('📡 Syncing myAI Memory to all platforms...'));
+    }
     
     try {
       const results = await safeSyncManager.syncToPlatforms();
+      
+      if (options.json) {
+        console.log(formatSyncResultsJson(results));
+        return;
+      }
+      
       const successCount = results.filter(r => r.success).length;
       const totalCount = results.length;
       
       console.log(chalk.green(`✅ Synced to ${successCount}/${totalCount} platforms`));
       
-      // Show detailed results
+      // Show detailed results, with any files that failed
       for (const result of results) {
         const statusColor = result.success ? chalk.green : chalk.red;
         const statusIcon = result.success ? '✅' : '❌';
-        console.log(statusColor(`${statusIcon} ${result.platform}: ${result.message}`));
+        console.log(statusColor(`${statusIcon} ${result.platform}: ${result.message}${formatSyncDuration(result.durationMs)}`));
+        process.stdout.write(chalk.red(formatSyncFileChanges(result.files?.filter(file => file.action === 'failed'))));
       }
     } catch (err: any) {
       console.error(chalk.red(`❌ Error syncing: ${err.message}`));
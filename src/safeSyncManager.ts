@@ -3,8 +3,10 @@ import { promises as fs } from 'fs';
 import { homedir } from 'os';
 import { SyncStatus, PlatformType } from './types.js';
 import { BackupManager } from './utils/backup.js';
+import { writeFileAtomic } from './utils/templateRevision.js';
 import { config } from './config.js';
-import { ClaudeCodeSyncer, WindsurfSyncer } from './platformSync.js';
+import { ClaudeCodeSyncer, WindsurfSyncer, runSyncer } from './platformSync.js';
+import { SecretDetectedError, assertNoSecrets } from './utils/secretScanner.js';
 
 /**
  * SafeSyncManager - Restricted version of PlatformSyncManager
@@ -62,8 +64,12 @@ export class SafeSyncManager {
    * Creates a backup before making any changes
    * @param newContent The new content to write
    * @returns Success status
+   * @throws SecretDetectedError if the content has secrets and the secrets policy is "reject"
    */
   async updateMasterFile(newContent: string): Promise<boolean> {
+    // Rejected before the backup, so the caller learns why
+    assertNoSecrets(newContent, 'the master file');
+    
     try {
       // Create a backup first
       const backupPath = await this.createBackup();
@@ -72,8 +78,8 @@ export class SafeSyncManager {
         return false;
       }
       
-      // Write the new content to the master file
-      await fs.writeFile(this.masterPath, newContent, 'utf-8');
+      // Write the new content to the master file, atomically so a concurrent reader never sees half of it
+      await writeFileAtomic(this.masterPath, newContent);
       console.log(`✅ Successfully updated master file at ${this.masterPath}`);
       return true;
     } catch (err: any) {
@@ -125,6 +131,7 @@ export class SafeSyncManager {
       // Update the master file
       return await this.updateMasterFile(updatedContent);
     } catch (err: any) {
+      if (err instanceof SecretDetectedError) throw err;
       console.error(`Error updating section: ${err}`);
       return false;
     }
@@ -180,31 +187,9 @@ export class SafeSyncManager {
       // Sync results
       const results: SyncStatus[] = [];
       
-      // Sync to Claude Code (CLAUDE.md files)
-      try {
-        const claudeResult = await this.claudeCodeSyncer.sync(masterContent);
-        results.push(claudeResult);
-      } catch (err: any) {
-        console.error('Error syncing to Claude Code:', err);
-        results.push({
-          platform: 'claude-code',
-          success: false,
-          message: `Error: ${err.message}`
-        });
-      }
-      
-      // Sync to Windsurf
-      try {
-        const windsurfResult = await this.windsurfSyncer.sync(masterContent);
-        results.push(windsurfResult);
-      } catch (err: any) {
-        console.error('Error syncing to Windsurf:', err);
-        results.push({
-          platform: 'windsurf',
-          success: false,
-          message: `Error: ${err.message}`
-        });
-      }
+      // Sync to Claude Code (CLAUDE.md files) and Windsurf, timing each
+      results.push(await runSyncer('claude-code', this.claudeCodeSyncer, masterContent));
+      results.push(await runSyncer('windsurf', this.windsurfSyncer, masterContent));
       
       return results;
     } catch (err: any) {
@@ -1,11 +1,25 @@
-import { promises as fs } from 'fs';
 import path from 'path';
 import { homedir } from 'os';
-import { SyncStatus, PlatformType } from '../types.js';
+import { SyncStatus, PlatformType, SyncOptions, SyncTargetState, TargetEdit } from '../types.js';
 import { generateTemplate } from '../templateParser.js';
 import { templateService } from './templateService.js';
 import { config } from '../config.js';
-import { ClaudeCodeSyncer, ensureFileWritable } from '../platformSync.js';
+import {
+  ClaudeCodeSyncer,
+  CursorSyncer,
+  CopilotSyncer,
+  AgentsMdSyncer,
+  PlatformSyncer,
+  extractMyAIMemorySection,
+  updateMyAIMemorySection,
+  findEditedTargets,
+  getTargetStates,
+  describeFileSync,
+  buildFailedFileChange,
+  runSyncer,
+  isPlatformEnabled
+} from '../platformSync.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
 
 // Import the memory cache service dynamically - handles if Anthropic features are not enabled
 let memoryCacheService: any = null;
@@ -22,13 +36,6 @@ try {
   console.error('Memory cache service could not be imported');
 }
 
-/**
- * Base platform sync interface
- */
-interface PlatformSyncer {
-  sync(templateContent: string): Promise<SyncStatus>;
-}
-
 /**
  * Windsurf synchronization (global_rules.md file)
  */
@@ -41,12 +48,16 @@ export class WindsurfSyncer implements PlatformSyncer {
     this.rulesPath = rulesPath || path.join(homedir(), '.windsurf', 'global_rules.md');
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    return [this.rulesPath];
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Windsurf sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'windsurf',
@@ -55,13 +66,19 @@ export class WindsurfSyncer implements PlatformSyncer {
         };
       }
       
-      // Create directory if it doesn't exist
-      const dir = path.dirname(this.rulesPath);
-      await fs.mkdir(dir, { recursive: true });
+      // Replace the memory block in the global_rules.md file with the sections meant for Windsurf, keeping the user's own rules
+      const memorySection = extractMyAIMemorySection(templateContent, 'windsurf');
+      const change = await updateMyAIMemorySection(this.rulesPath, memorySection, options);
       
-      // Write the template to the global_rules.md file
-      console.error(`Writing template to ${this.rulesPath}`);
-      await fs.writeFile(this.rulesPath, templateContent, 'utf-8');
+      if (options.dryRun) {
+        return {
+          platform: 'windsurf',
+          success: true,
+          message: `Dry run: global_rules.md at ${this.rulesPath} would be ${change.action === 'skipped-unchanged' ? 'left unchanged' : change.action}`,
+          dryRun: true,
+          files: [change]
+        };
+      }
       
       // Update last sync time
       this.lastSyncTime = now;
@@ -69,14 +86,16 @@ export class WindsurfSyncer implements PlatformSyncer {
       return {
         platform: 'windsurf',
         success: true,
-        message: `Successfully updated global_rules.md at ${this.rulesPath}`
+        message: describeFileSync('global_rules.md', change),
+        files: [change]
       };
     } catch (err) {
       console.error('Error syncing with Windsurf:', err);
       return {
         platform: 'windsurf',
         success: false,
-        message: `Failed to sync with Windsurf: ${err instanceof Error ? err.message : String(err)}`
+        message: `Failed to sync with Windsurf: ${err instanceof Error ? err.message : String(err)}`,
+        files: [buildFailedFileChange(this.rulesPath, err)]
       };
     }
   }
@@ -96,8 +115,17 @@ export class ClaudeWebSyncer implements PlatformSyncer {
     this.headless = options?.headless ?? true;
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
+      if (options.dryRun) {
+        return {
+          platform: 'claude-web',
+          success: true,
+          message: 'Dry run: Claude Web profile preferences would be replaced with the myAI Memory section',
+          dryRun: true
+        };
+      }
+      
       const now = Date.now();
       
       // Check if we're within the cooldown period
@@ -147,12 +175,16 @@ export class MasterSyncer implements PlatformSyncer {
     this.masterPath = masterPath || (config.paths.masterTemplate || path.join(homedir(), 'myAI Master.md'));
   }
   
-  async sync(templateContent: string): Promise<SyncStatus> {
+  async getTargetPaths(): Promise<string[]> {
+    return [this.masterPath];
+  }
+  
+  async sync(templateContent: string, options: SyncOptions = {}): Promise<SyncStatus> {
     try {
       const now = Date.now();
       
-      // Check if we're within the cooldown period
-      if (now - this.lastSyncTime < this.syncCooldown) {
+      // Check if we're within the cooldown period (dry runs write nothing, so they aren't throttled)
+      if (!options.dryRun && now - this.lastSyncTime < this.syncCooldown) {
         console.error(`Skipping Master template sync - within cooldown period (${this.syncCooldown}ms)`);
         return {
           platform: 'master',
@@ -161,38 +193,37 @@ export class MasterSyncer implements PlatformSyncer {
         };
       }
       
-      // Ensure the file is writable
-      const isWritable = await ensureFileWritable(this.masterPath);
-      if (!isWritable) {
+      // Replace the memory block in the Master template file, keeping any notes around it.
+      // The master file holds the whole template, so it isn't redacted: the watcher would
+      // otherwise load the redacted copy back into the template.
+      const change = await updateMyAIMemorySection(this.masterPath, templateContent, options, { local: true });
+      
+      if (options.dryRun) {
         return {
           platform: 'master',
-          success: false,
-          message: `Failed to sync with Master template: Permission denied. Could not make file writable: ${this.masterPath}`
+          success: true,
+          message: `Dry run: Master template at ${this.masterPath} would be ${change.action === 'skipped-unchanged' ? 'left unchanged' : change.action}`,
+          dryRun: true,
+          files: [change]
         };
       }
       
-      // Create directory if it doesn't exist (should be handled by ensureFileWritable, but just to be safe)
-      const dir = path.dirname(this.masterPath);
-      await fs.mkdir(dir, { recursive: true });
-      
-      // Write the template to the Master template file
-      console.error(`Writing template to Master file ${this.masterPath}`);
-      await fs.writeFile(this.masterPath, templateContent, 'utf-8');
-      
       // Update last sync time
       this.lastSyncTime = now;
       
       return {
         platform: 'master',
         success: true,
-        message: `Successfully updated Master template at ${this.masterPath}`
+        message: describeFileSync('Master template', change),
+        files: [change]
       };
     } catch (err) {
       console.error('Error syncing with Master template:', err);
       return {
         platform: 'master',
         success: false,
-        message: `Failed to sync with Master template: ${err instanceof Error ? err.message : String(err)}`
+        message: `Failed to sync with Master template: ${err instanceof Error ? err.message : String(err)}`,
+        files: [buildFailedFileChange(this.masterPath, err)]
       };
     }
   }
@@ -233,6 +264,23 @@ export class PlatformService {
     this.syncers.set('windsurf', new WindsurfSyncer(config.paths?.windsurfMemoryPath));
     console.error(`WindsurfSyncer initialized with path from config: ${config.paths?.windsurfMemoryPath}`);
     
+    // Cursor rules, Copilot instructions and AGENTS.md are usually committed, so they are only written when opted in
+    if (isPlatformEnabled('cursor')) {
+      this.configuredPlatforms.add('cursor');
+      this.syncers.set('cursor', new CursorSyncer(config.paths?.claudeProjectsPath, config.paths?.cursorRulesPath));
+      console.error(`CursorSyncer initialized with rules path from config: ${config.paths?.cursorRulesPath || 'none'}`);
+    }
+    
+    if (isPlatformEnabled('github-copilot')) {
+      this.configuredPlatforms.add('github-copilot');
+      this.syncers.set('github-copilot', new CopilotSyncer(config.paths?.claudeProjectsPath));
+    }
+    
+    if (isPlatformEnabled('agents-md')) {
+      this.configuredPlatforms.add('agents-md');
+      this.syncers.set('agents-md', new AgentsMdSyncer(config.paths?.claudeProjectsPath));
+    }
+    
     // Optionally set up Claude Web syncer if configured
     try {
       const config = await this.loadConfig();
@@ -348,47 +396,36 @@ export class PlatformService {
   
   /**
    * Sync template with all platforms
+   * A dry run returns a diff per file instead of writing
    */
-  async syncAll(templateContent?: string): Promise<SyncStatus[]> {
+  async syncAll(templateContent?: string, options: SyncOptions = {}): Promise<SyncStatus[]> {
     if (!this.initialized) await this.initialize();
     
     // Get template content if not provided
-    if (!templateContent) {
-      const template = await templateService.getTemplate();
-      templateContent = generateTemplate(template);
-    }
+    const content = templateContent || generateTemplate(await templateService.getTemplate());
     
-    const results: SyncStatus[] = [];
     console.error(`Syncing with all configured platforms (${this.configuredPlatforms.size}): ${Array.from(this.configuredPlatforms).join(', ')}`);
     
-    for (const platform of this.configuredPlatforms) {
+    // Platforms are synced in parallel, up to the configured concurrency
+    const results = await mapWithConcurrency(Array.from(this.configuredPlatforms), config.sync.concurrency, async (platform): Promise<SyncStatus> => {
       const syncer = this.syncers.get(platform);
-      if (syncer) {
-        console.error(`Syncing with platform: ${platform}`);
-        try {
-          const result = await syncer.sync(templateContent);
-          results.push(result);
-          console.error(`Sync result for ${platform}: ${result.success ? 'Success' : 'Failure'} - ${result.message}`);
-        } catch (err) {
-          console.error(`Error syncing with ${platform}:`, err);
-          results.push({
-            platform,
-            success: false,
-            message: `Error syncing with ${platform}: ${err instanceof Error ? err.message : String(err)}`
-          });
-        }
-      } else {
+      if (!syncer) {
         console.error(`No syncer configured for platform: ${platform}`);
-        results.push({
+        return {
           platform,
           success: false,
           message: `No syncer configured for platform: ${platform}`
-        });
+        };
       }
-    }
+      
+      console.error(`Syncing with platform: ${platform}`);
+      const result = await runSyncer(platform, syncer, content, options);
+      console.error(`Sync result for ${platform}: ${result.success ? 'Success' : 'Failure'} - ${result.message}`);
+      return result;
+    });
     
     // Update memory cache after successful sync (if available)
-    if (memoryCacheService && memoryCacheService.updateCacheAfterSync) {
+    if (!options.dryRun && memoryCacheService && memoryCacheService.updateCacheAfterSync) {
       try {
         console.error('Updating memory cache after sync...');
         await memoryCacheService.updateCacheAfterSync();
@@ -404,8 +441,9 @@ export class PlatformService {
   
   /**
    * Sync template with a specific platform
+   * A dry run returns a diff per file instead of writing
    */
-  async syncPlatform(platform: PlatformType): Promise<SyncStatus> {
+  async syncPlatform(platform: PlatformType, options: SyncOptions = {}): Promise<SyncStatus> {
     if (!this.initialized) await this.initialize();
     
     if (!this.configuredPlatforms.has(platform)) {
@@ -428,7 +466,46 @@ export class PlatformService {
       };
     }
     
-    return await syncer.sync(templateContent);
+    return await runSyncer(platform, syncer, templateContent, options);
+  }
+  
+  /**
+   * Find synced files whose memory block was edited directly since the last sync
+   * Only configured platforms are checked
+   */
+  async findTargetEdits(platform?: PlatformType): Promise<TargetEdit[]> {
+    if (!this.initialized) await this.initialize();
+    
+    if (platform && !this.configuredPlatforms.has(platform)) {
+      throw new Error(`Platform ${platform} is disabled`);
+    }
+    
+    const edits: TargetEdit[] = [];
+    for (const name of platform ? [platform] : this.configuredPlatforms) {
+      const syncer = this.syncers.get(name);
+      if (syncer) {
+        edits.push(...await findEditedTargets(name, syncer));
+      }
+    }
+    
+    return edits;
+  }
+  
+  /**
+   * List the files each configured platform syncs to, with when they were last synced
+   */
+  async getSyncTargets(): Promise<SyncTargetState[]> {
+    if (!this.initialized) await this.initialize();
+    
+    const states: SyncTargetState[] = [];
+    for (const platform of this.configuredPlatforms) {
+      const syncer = this.syncers.get(platform);
+      if (syncer) {
+        states.push(...await getTargetStates(platform, syncer));
+      }
+    }
+    
+    return states;
   }
   
   /**
@@ -1,8 +1,35 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { MemoryTemplate, TemplateSection, Preset } from '../types.js';
+import { MemoryTemplate, TemplateSection, TemplateItem, Preset, TemplateRevision, TemplateWriteOptions, ItemValue, PresetLoadMode, PresetLoadOptions } from '../types.js';
 import { parseTemplate, generateTemplate, validateTemplate } from '../templateParser.js';
+import { RevisionLog } from '../utils/revisionLog.js';
+import {
+  TemplateConflictError,
+  getTemplateRevision,
+  writeFileAtomic,
+  readSavedTemplate,
+  withFileLock
+} from '../utils/templateRevision.js';
+import { SecretDetectedError, assertNoSecrets } from '../utils/secretScanner.js';
+import { TemplateValidationError, assertValidTemplate } from '../utils/templateValidation.js';
+import { resolvePreset, applyPreset } from '../utils/presets.js';
+import {
+  EncryptionKeyError,
+  DecryptionError,
+  checkEncryptionConfig,
+  encodeStoredContent,
+  decodeStoredContent
+} from '../utils/encryption.js';
+import {
+  setTemplateItem,
+  deleteTemplateItem,
+  renameTemplateItem,
+  moveTemplateItem,
+  deleteTemplateSection,
+  renameTemplateSection,
+  reorderTemplateSections
+} from '../utils/templateEdits.js';
 import { homedir } from 'os';
 
 // Determine file paths
@@ -10,6 +37,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = path.join(__dirname, '..', '..', 'data');
 const TEMPLATE_FILE = path.join(DATA_DIR, 'template.md');
 const PRESETS_DIR = path.join(DATA_DIR, 'presets');
+const HISTORY_FILE = path.join(DATA_DIR, 'history', 'revisions.jsonl');
 
 // Cache configuration
 const CACHE_EXPIRATION_MS = 60 * 1000; // 1 minute cache
@@ -24,6 +52,9 @@ export class TemplateService {
     timestamp: number;
   } | null = null;
   private initialized = false;
+  private revisionLog = new RevisionLog(HISTORY_FILE);
+  // The revision of the template file as this service last read or wrote it (null before it exists)
+  private savedRevision: string | null = null;
 
   /**
    * Initialize the template service
@@ -32,6 +63,8 @@ export class TemplateService {
     if (this.initialized) return;
 
     try {
+      checkEncryptionConfig();
+      
       // Create data directories if they don't exist
       await fs.mkdir(DATA_DIR, { recursive: true });
       await fs.mkdir(PRESETS_DIR, { recursive: true });
@@ -39,7 +72,14 @@ export class TemplateService {
       // Try to load existing template
       try {
         await this.loadTemplate();
+        
+        // Start the history with the current template, or record edits made outside the service
+        const latestRevision = await this.revisionLog.latest();
+        await this.revisionLog.append(generateTemplate(this.template), latestRevision ? 'external edit' : 'initial');
       } catch (err) {
+        // An encrypted template that can't be read must not be replaced by the default
+        if (err instanceof EncryptionKeyError || err instanceof DecryptionError) throw err;
+        
         // If no template exists, create a default one
         this.template = {
           sections: [
@@ -61,7 +101,7 @@ export class TemplateService {
           ]
         };
         
-        await this.saveTemplate();
+        await this.saveTemplate('initial');
       }
       
       // Create default presets if they don't exist
@@ -87,8 +127,13 @@ export class TemplateService {
     }
     
     console.error('Loading template from file');
-    const templateContent = await fs.readFile(TEMPLATE_FILE, 'utf-8');
-    this.template = parseTemplate(templateContent);
+    // Revisions are of the decrypted content, as an encrypted file differs on every save
+    const templateContent = decodeStoredContent(await fs.readFile(TEMPLATE_FILE, 'utf-8'), TEMPLATE_FILE);
+    this.savedRevision = getTemplateRevision(templateContent);
+    this.template = {
+      ...parseTemplate(templateContent),
+      revision: this.savedRevision
+    };
     
     // Update cache
     this.templateCache = {
@@ -101,13 +146,42 @@ export class TemplateService {
   
   /**
    * Save the current template to storage
+   * @param source The tool or command that made the change, recorded in the history
+   * @throws SecretDetectedError if the template has secrets and the secrets policy is "reject"
    */
-  async saveTemplate(): Promise<void> {
+  async saveTemplate(source = 'unknown'): Promise<void> {
     const templateContent = generateTemplate(this.template);
     
-    // Save to primary data file
+    // A change with a secret in it is never written, and is dropped by going back to the saved template
+    try {
+      assertNoSecrets(templateContent, 'the template');
+    } catch (err) {
+      this.templateCache = null;
+      await this.loadTemplate().catch(() => undefined);
+      throw err;
+    }
+    
+    // Save to primary data file, unless another process has saved it since it was checked
     console.error(`Saving template to ${TEMPLATE_FILE}`);
-    await fs.writeFile(TEMPLATE_FILE, templateContent, 'utf-8');
+    await withFileLock(TEMPLATE_FILE, async () => {
+      const saved = await readSavedTemplate(TEMPLATE_FILE, decodeStoredContent);
+      if (saved && saved.revision !== this.savedRevision) {
+        const expectedRevision = this.savedRevision ?? getTemplateRevision('');
+        await this.refreshTemplate();
+        throw new TemplateConflictError(expectedRevision, saved.revision);
+      }
+      
+      await writeFileAtomic(TEMPLATE_FILE, encodeStoredContent(templateContent));
+      this.savedRevision = getTemplateRevision(templateContent);
+    });
+    this.template.revision = this.savedRevision!;
+    
+    // Record the revision - a history failure shouldn't lose the change itself
+    try {
+      await this.revisionLog.append(templateContent, source);
+    } catch (err) {
+      console.error('Failed to record template revision:', err);
+    }
     
     // Update cache
     this.templateCache = {
@@ -118,6 +192,29 @@ export class TemplateService {
     // Don't save platform-specific files here; the platformService will handle that
   }
   
+  /**
+   * Make sure a change is based on the saved template, before every write
+   * Another process may have saved the template since this service read it: the change is
+   * then made to the saved template rather than to the copy held here, unless the caller
+   * based it on a revision of its own.
+   * @throws TemplateConflictError if the template has been saved since expectedRevision
+   */
+  private async checkRevision(expectedRevision?: string): Promise<void> {
+    const saved = await readSavedTemplate(TEMPLATE_FILE, decodeStoredContent).catch(() => null);
+    const currentRevision = saved?.revision ?? getTemplateRevision('');
+    
+    if (saved && currentRevision !== this.savedRevision) {
+      // Pick up the other writer's change, so the edit (or a caller that re-reads) builds on it
+      await this.refreshTemplate();
+      await this.revisionLog.append(generateTemplate(this.template), 'external edit')
+        .catch(err => console.error('Failed to record template revision:', err));
+    }
+    
+    if (expectedRevision && currentRevision !== expectedRevision) {
+      throw new TemplateConflictError(expectedRevision, currentRevision);
+    }
+  }
+  
   /**
    * Get the full template
    */
@@ -436,7 +533,9 @@ export class TemplateService {
   /**
    * Create a new section in the template if it doesn't exist
    */
-  async createSection(sectionName: string, description = ""): Promise<boolean> {
+  async createSection(sectionName: string, description = "", options: TemplateWriteOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
     try {
       console.error(`Creating new section: ${sectionName}`);
       
@@ -463,9 +562,10 @@ export class TemplateService {
       console.error(`Created new section: ${sectionName}`);
       
       // Save the updated template
-      await this.saveTemplate();
+      await this.saveTemplate(options.source ?? 'create_section');
       return true;
     } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError) throw err;
       console.error(`Failed to create section ${sectionName}:`, err);
       return false;
     }
@@ -474,7 +574,9 @@ export class TemplateService {
   /**
    * Update a specific section in the template
    */
-  async updateSection(sectionName: string, content: string): Promise<boolean> {
+  async updateSection(sectionName: string, content: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
     try {
       console.error(`Updating section: ${sectionName}`);
       
@@ -513,29 +615,33 @@ export class TemplateService {
         const existingSection = this.template.sections[sectionIndex];
         
         // Create a map of existing items by key for easy lookup
-        const existingItemsMap = new Map<string, string>();
+        const existingItemsMap = new Map<string, TemplateItem>();
         for (const item of existingSection.items) {
-          existingItemsMap.set(item.key.toLowerCase(), item.value);
+          existingItemsMap.set(item.key.toLowerCase(), { ...item });
         }
         
-        // Add or update items from the new section
+        // Add or update items from the new section, keeping private items private
+        // unless the new content sets their visibility itself
         for (const newItem of newSection.items) {
-          existingItemsMap.set(newItem.key.toLowerCase(), newItem.value);
+          const existingItem = existingItemsMap.get(newItem.key.toLowerCase());
+          const visibility = newItem.visibility ?? existingItem?.visibility;
+          existingItemsMap.set(newItem.key.toLowerCase(), {
+            ...newItem,
+            // Keep the original key with its casing
+            key: existingItem?.key ?? newItem.key,
+            ...(visibility ? { visibility } : {})
+          });
         }
         
         // Rebuild items array
-        const mergedItems = Array.from(existingItemsMap.entries()).map(([key, value]) => {
-          // Find the original key with correct casing
-          const originalKey = [...existingSection.items, ...newSection.items]
-            .find(item => item.key.toLowerCase() === key)?.key || key;
-          
-          return { key: originalKey, value };
-        });
+        const mergedItems = Array.from(existingItemsMap.values());
         
         // Update the section
         this.template.sections[sectionIndex] = {
           ...existingSection,
-          items: mergedItems
+          items: mergedItems,
+          platforms: newSection.platforms ?? existingSection.platforms,
+          visibility: newSection.visibility ?? existingSection.visibility
         };
         
         console.error(`Updated existing section: ${sectionName} with ${mergedItems.length} items`);
@@ -546,9 +652,10 @@ export class TemplateService {
       }
       
       // Save the updated template
-      await this.saveTemplate();
+      await this.saveTemplate(options.source ?? 'update_section');
       return true;
     } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError) throw err;
       console.error(`Failed to update section ${sectionName}:`, err);
       return false;
     }
@@ -557,38 +664,153 @@ export class TemplateService {
   /**
    * Update the entire template
    */
-  async updateTemplate(templateContent: string): Promise<boolean> {
+  async updateTemplate(templateContent: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
     try {
-      const newTemplate = parseTemplate(templateContent);
-      
-      if (!validateTemplate(newTemplate)) {
-        return false;
-      }
-      
-      this.template = newTemplate;
-      await this.saveTemplate();
+      this.template = assertValidTemplate(templateContent).template;
+      await this.saveTemplate(options.source ?? 'update_template');
       return true;
     } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError || err instanceof TemplateValidationError) throw err;
       console.error('Failed to update template:', err);
       return false;
     }
   }
   
   /**
-   * Load a preset profile
+   * Delete a section and all of its items
+   */
+  async deleteSection(sectionName: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => deleteTemplateSection(template, sectionName),
+      `delete section ${sectionName}`,
+      { ...options, source: options.source ?? 'delete_section' }
+    );
+  }
+  
+  /**
+   * Rename a section, keeping its description and items
+   */
+  async renameSection(sectionName: string, newName: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => renameTemplateSection(template, sectionName, newName),
+      `rename section ${sectionName}`,
+      { ...options, source: options.source ?? 'rename_section' }
+    );
+  }
+  
+  /**
+   * Reorder sections - the listed sections come first, in order, followed by the rest
+   */
+  async reorderSections(sectionNames: string[], options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => reorderTemplateSections(template, sectionNames),
+      'reorder sections',
+      { ...options, source: options.source ?? 'reorder_sections' }
+    );
+  }
+  
+  /**
+   * Set a single item's value, adding the item (and its section) if needed
+   */
+  async setItem(sectionName: string, key: string, value: ItemValue, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => setTemplateItem(template, sectionName, key, value),
+      `set item ${key} in section ${sectionName}`,
+      { ...options, source: options.source ?? 'set_item' }
+    );
+  }
+  
+  /**
+   * Remove a single item from a section
    */
-  async loadPreset(presetName: string): Promise<boolean> {
+  async deleteItem(sectionName: string, key: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => deleteTemplateItem(template, sectionName, key),
+      `delete item ${key} from section ${sectionName}`,
+      { ...options, source: options.source ?? 'delete_item' }
+    );
+  }
+  
+  /**
+   * Change an item's key, keeping its value
+   */
+  async renameItem(sectionName: string, key: string, newKey: string, options: TemplateWriteOptions = {}): Promise<boolean> {
+    return this.applyEdit(
+      template => renameTemplateItem(template, sectionName, key, newKey),
+      `rename item ${key} in section ${sectionName}`,
+      { ...options, source: options.source ?? 'rename_item' }
+    );
+  }
+  
+  /**
+   * Move an item within its section or to another section
+   */
+  async moveItem(
+    sectionName: string,
+    key: string,
+    targetSectionName: string,
+    position?: number,
+    options: TemplateWriteOptions = {}
+  ): Promise<boolean> {
+    return this.applyEdit(
+      template => moveTemplateItem(template, sectionName, key, targetSectionName, position),
+      `move item ${key} from section ${sectionName}`,
+      { ...options, source: options.source ?? 'move_item' }
+    );
+  }
+  
+  /**
+   * Apply an edit to the template and save it
+   */
+  private async applyEdit(
+    edit: (template: MemoryTemplate) => MemoryTemplate,
+    description: string,
+    options: TemplateWriteOptions
+  ): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
     try {
-      const presetPath = path.join(PRESETS_DIR, `${presetName.toLowerCase()}.json`);
-      const presetContent = await fs.readFile(presetPath, 'utf-8');
-      const preset: Preset = JSON.parse(presetContent);
-      
-      // Keep the same sections structure but update the content
-      this.template.sections = preset.sections;
+      this.template = edit(this.template);
+      await this.saveTemplate(options.source);
+      return true;
+    } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError) throw err;
+      console.error(`Failed to ${description}:`, err);
+      return false;
+    }
+  }
+  
+  /**
+   * Read a preset file, decrypting it if it is encrypted
+   */
+  private async readPreset(presetName: string): Promise<unknown> {
+    const presetPath = path.join(PRESETS_DIR, `${presetName.toLowerCase()}.json`);
+    return JSON.parse(decodeStoredContent(await fs.readFile(presetPath, 'utf-8'), presetPath));
+  }
+  
+  /**
+   * Work out the template loading a preset would produce, without saving anything
+   */
+  async getPresetTemplate(presetName: string, mode: PresetLoadMode = 'replace'): Promise<MemoryTemplate> {
+    const preset = await resolvePreset(presetName, name => this.readPreset(name));
+    return applyPreset(this.template, preset, mode);
+  }
+  
+  /**
+   * Load a preset profile, following the presets it extends
+   */
+  async loadPreset(presetName: string, options: PresetLoadOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
+    try {
+      this.template = await this.getPresetTemplate(presetName, options.mode);
       
-      await this.saveTemplate();
+      await this.saveTemplate(options.source ?? `load_preset ${presetName}`);
       return true;
     } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError || err instanceof DecryptionError) throw err;
       console.error(`Failed to load preset ${presetName}:`, err);
       return false;
     }
@@ -615,7 +837,7 @@ export class TemplateService {
       };
       
       const presetPath = path.join(PRESETS_DIR, `${presetName.toLowerCase()}.json`);
-      await fs.writeFile(presetPath, JSON.stringify(preset, null, 2), 'utf-8');
+      await fs.writeFile(presetPath, encodeStoredContent(JSON.stringify(preset, null, 2)), 'utf-8');
       return true;
     } catch (err) {
       console.error(`Failed to create preset ${presetName}:`, err);
@@ -623,6 +845,50 @@ export class TemplateService {
     }
   }
   
+  /**
+   * Get the revision history of the template, newest first
+   */
+  async getHistory(limit?: number): Promise<TemplateRevision[]> {
+    const revisions = (await this.revisionLog.list()).reverse();
+    return limit !== undefined ? revisions.slice(0, limit) : revisions;
+  }
+  
+  /**
+   * Get a single revision of the template
+   */
+  async getRevision(revisionId: number): Promise<TemplateRevision | null> {
+    return this.revisionLog.get(revisionId);
+  }
+  
+  /**
+   * Restore the template to an earlier revision
+   */
+  async rollback(revisionId: number, options: TemplateWriteOptions = {}): Promise<boolean> {
+    await this.checkRevision(options.expectedRevision);
+    
+    try {
+      const revision = await this.revisionLog.get(revisionId);
+      if (!revision) {
+        console.error(`Revision ${revisionId} not found`);
+        return false;
+      }
+      
+      const restoredTemplate = parseTemplate(revision.content);
+      if (!validateTemplate(restoredTemplate)) {
+        console.error(`Revision ${revisionId} is not a valid template`);
+        return false;
+      }
+      
+      this.template = restoredTemplate;
+      await this.saveTemplate(`${options.source ?? 'rollback'} (to revision ${revisionId})`);
+      return true;
+    } catch (err) {
+      if (err instanceof SecretDetectedError || err instanceof TemplateConflictError) throw err;
+      console.error(`Failed to roll back to revision ${revisionId}:`, err);
+      return false;
+    }
+  }
+  
   /**
    * Create default presets if they don't exist
    */
@@ -719,7 +985,7 @@ export class TemplateService {
     }
     
     const presetPath = path.join(PRESETS_DIR, `${presetName.toLowerCase()}.json`);
-    await fs.writeFile(presetPath, JSON.stringify(preset, null, 2), 'utf-8');
+    await fs.writeFile(presetPath, encodeStoredContent(JSON.stringify(preset, null, 2)), 'utf-8');
   }
 }
 
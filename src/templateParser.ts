@@ -1,26 +1,212 @@
-import { MemoryTemplate, TemplateSection, TemplateItem } from './types.js';
+import { MemoryTemplate, TemplateSection, TemplateItem, TemplateDiagnostic, PlatformType, Visibility } from './types.js';
+
+// Section targeting rules, e.g. "<!-- platforms: claude-code, windsurf -->" or "<!-- exclude-platforms: claude-web -->"
+const PLATFORM_RULE_PATTERN = /^<!--\s*(exclude-)?platforms:\s*(.*?)\s*-->$/;
+
+// Section visibility, on its own line after the header: "<!-- private -->"
+const SECTION_VISIBILITY_PATTERN = /^<!--\s*(private|public)\s*-->$/;
+
+// Item visibility, at the end of the item line: "-~- Key: Value <!-- private -->"
+const ITEM_VISIBILITY_PATTERN = /\s*<!--\s*(private|public)\s*-->$/;
+
+// A list entry of the item above it, indented: "  - Entry"
+const LIST_ENTRY_PATTERN = /^\s+-\s+(.*)$/;
+
+// The start or end of a fenced code block: "```" or "~~~"
+const CODE_FENCE_PATTERN = /^(```|~~~)/;
+
+/**
+ * Check whether a section should be synced to a platform
+ * Sections without rules go everywhere; exclusions win over inclusions
+ */
+export function isSectionTargeted(section: TemplateSection, platform: PlatformType): boolean {
+  const rules = section.platforms;
+  if (!rules) {
+    return true;
+  }
+  
+  if (rules.exclude?.includes(platform)) {
+    return false;
+  }
+  
+  if (rules.include && rules.include.length > 0) {
+    return rules.include.includes(platform);
+  }
+  
+  return true;
+}
+
+/**
+ * Check whether a section or item is kept out of synced files
+ */
+export function isPrivate(entry: TemplateSection | TemplateItem): boolean {
+  return entry.visibility === 'private';
+}
+
+/**
+ * Get the part of a template that may be synced: without private sections and items
+ */
+export function getPublicTemplate(template: MemoryTemplate): MemoryTemplate {
+  return {
+    ...template,
+    sections: template.sections
+      .filter(section => !isPrivate(section))
+      .map(section => ({
+        ...section,
+        items: section.items
+          .filter(item => !isPrivate(item))
+          .map(item => item.items ? { ...item, items: item.items.filter(subItem => !isPrivate(subItem)) } : item)
+      }))
+  };
+}
+
+/**
+ * Parse an item line (-~- Key: Value, optionally followed by <!-- private -->)
+ * @returns The item, or null if the line has no key
+ */
+function parseItemLine(line: string): TemplateItem | null {
+  let itemContent = line.substring(3).trim();
+  const visibilityMatch = ITEM_VISIBILITY_PATTERN.exec(itemContent);
+  if (visibilityMatch) {
+    itemContent = itemContent.substring(0, visibilityMatch.index);
+  }
+  
+  const colonIndex = itemContent.indexOf(':');
+  if (colonIndex <= 0) {
+    return null;
+  }
+  
+  const key = itemContent.substring(0, colonIndex).trim();
+  const value = itemContent.substring(colonIndex + 1).trim();
+  return visibilityMatch ? { key, value, visibility: visibilityMatch[1] as Visibility } : { key, value };
+}
+
+/**
+ * A template parsed from markdown, with the lines it came from
+ */
+export interface ParsedTemplate {
+  template: MemoryTemplate;
+  warnings: TemplateDiagnostic[]; // Lines that look like items but couldn't be read as one
+  lineNumbers: Map<TemplateSection | TemplateItem, number>; // 1-based line of each section header and item
+}
 
 /**
  * Parse a markdown template string into a structured MemoryTemplate object
+ * Free text, comments, code blocks and blank lines are kept as raw lines, so
+ * generateTemplate writes them back where they were.
  */
 export function parseTemplate(markdownContent: string): MemoryTemplate {
+  return parseTemplateWithWarnings(markdownContent).template;
+}
+
+/**
+ * Parse a markdown template, reporting "-~-" lines that aren't items as warnings
+ */
+export function parseTemplateWithWarnings(markdownContent: string): ParsedTemplate {
   const lines = markdownContent.split('\n');
   const sections: TemplateSection[] = [];
+  const warnings: TemplateDiagnostic[] = [];
+  const lineNumbers = new Map<TemplateSection | TemplateItem, number>();
+  
+  // A final newline ends the last line rather than starting another one
+  const finalNewline = lines[lines.length - 1] === '';
+  if (finalNewline) {
+    lines.pop();
+  }
+  
+  // Lines all ending in "\r\n" are read without the "\r", and written back with it; with mixed
+  // line endings, the lines that have one keep it as written
+  const endedLines = finalNewline ? lines : lines.slice(0, -1);
+  const crlf = endedLines.length > 0 && endedLines.every(line => line.endsWith('\r'));
+  if (crlf) {
+    endedLines.forEach((line, index) => {
+      lines[index] = line.slice(0, -1);
+    });
+  }
+  
+  // Raw lines between the "# myAI Memory" header and the first section
+  const preamble: string[] = [];
+  const hasHeader = lines.length === 0 || lines[0] === '# myAI Memory';
+  let inCodeBlock = false;
   
   let currentSection: TemplateSection | null = null;
+  // Still in the lines right below the section header (description, targeting rules, visibility)
+  let inSectionHeader = false;
+  // The targeting rule and visibility lines of the current section, as written
+  let headerLines: string[] = [];
+  // The last top-level item, which indented list entries and sub-items belong to
+  let currentItem: TemplateItem | null = null;
+  // Item and list entry lines as written, kept once the items are complete if they differ from the generated ones
+  const writtenLines = new Map<TemplateItem, { line: string; indent: string; listLines: string[] }>();
+  // The section or item that raw lines are written after
+  let rawOwner: TemplateSection | TemplateItem | null = null;
+  
+  const addRaw = (line: string) => {
+    if (rawOwner) {
+      rawOwner.raw = [...(rawOwner.raw ?? []), line];
+    } else {
+      preamble.push(line);
+    }
+  };
+  
+  const warn = (code: string, message: string, line: number) => {
+    warnings.push({
+      severity: 'warning',
+      code,
+      message,
+      line,
+      ...(currentSection ? { section: currentSection.title } : {})
+    });
+  };
+  
+  // The blank lines that end a section separate it from the next one, rather than belonging to its last item
+  const closeSection = (section: TemplateSection, isLast: boolean) => {
+    if (!sameLines(headerLines, generateHeaderLines(section))) {
+      section.headerLines = headerLines;
+    }
+    
+    const raw = rawOwner?.raw ?? [];
+    let blankLines = 0;
+    while (raw.length > blankLines && raw[raw.length - 1 - blankLines] === '') {
+      blankLines++;
+    }
+    
+    if (rawOwner && blankLines > 0) {
+      if (blankLines === raw.length) {
+        delete rawOwner.raw;
+      } else {
+        rawOwner.raw = raw.slice(0, raw.length - blankLines);
+      }
+    }
+    
+    if (blankLines !== (isLast ? 0 : 1)) {
+      section.blankLinesAfter = blankLines;
+    }
+    sections.push(section);
+  };
   
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
+    const indented = /^\s/.test(lines[i]);
     
-    // Skip empty lines and the initial "# myAI Memory" header
-    if (line === '' || line === '# myAI Memory') {
+    // Keep code blocks as they are, even lines in them that look like headers or items
+    if (inCodeBlock || CODE_FENCE_PATTERN.test(line)) {
+      if (CODE_FENCE_PATTERN.test(line)) {
+        inCodeBlock = !inCodeBlock;
+      }
+      addRaw(lines[i]);
       continue;
     }
     
-    // Handle section headers (# Section Title)
-    if (line.startsWith('# ') && line !== '# myAI Memory') {
+    // Skip the "# myAI Memory" header on the first line
+    if (i === 0 && hasHeader) {
+      continue;
+    }
+    
+    // Handle section headers (# Section Title); a "# myAI Memory" line anywhere else before them is free text
+    if (line.startsWith('# ') && (currentSection || line !== '# myAI Memory')) {
       if (currentSection) {
-        sections.push(currentSection);
+        closeSection(currentSection, false);
       }
       
       currentSection = {
@@ -28,60 +214,396 @@ export function parseTemplate(markdownContent: string): MemoryTemplate {
         description: '',
         items: []
       };
+      if (lines[i] !== `# ${currentSection.title}`) {
+        currentSection.titleLine = lines[i];
+      }
+      currentItem = null;
+      rawOwner = currentSection;
+      inSectionHeader = true;
+      headerLines = [];
+      lineNumbers.set(currentSection, i + 1);
+      continue;
+    }
+    
+    if (!currentSection) {
+      addRaw(lines[i]);
       continue;
     }
     
-    // Handle description lines (## Description)
-    if (line.startsWith('## ') && currentSection) {
+    // Handle the description (## Description), only on the line right after the header
+    if (inSectionHeader && lines[i - 1].trim().startsWith('# ') && line.startsWith('## ')) {
       currentSection.description = line.substring(3);
+      if (lines[i] !== `## ${currentSection.description}`) {
+        currentSection.descriptionLine = lines[i];
+      }
+      continue;
+    }
+    
+    // Handle targeting rules and visibility, in the lines right below the header
+    if (inSectionHeader && readHeaderLine(currentSection, line)) {
+      headerLines.push(lines[i]);
       continue;
     }
+    inSectionHeader = false;
     
-    // Handle preference items (-~- Key: Value)
-    if (line.startsWith('-~-') && currentSection) {
-      const itemContent = line.substring(3).trim();
-      const colonIndex = itemContent.indexOf(':');
+    // Handle preference items (-~- Key: Value), and indented sub-items of the item above
+    if (line.startsWith('-~-')) {
+      const item = parseItemLine(line);
+      if (!item) {
+        warn('malformed-item', `"${line}" has no "Key:", so it is kept as text rather than an item`, i + 1);
+        addRaw(lines[i]);
+        continue;
+      }
       
-      if (colonIndex > 0) {
-        const key = itemContent.substring(0, colonIndex).trim();
-        const value = itemContent.substring(colonIndex + 1).trim();
-        
-        currentSection.items.push({ key, value });
+      if (indented && currentItem) {
+        currentItem.items = [...(currentItem.items ?? []), item];
+        writtenLines.set(item, { line: lines[i], indent: '  ', listLines: [] });
+      } else {
+        currentSection.items.push(item);
+        currentItem = item;
+        writtenLines.set(item, { line: lines[i], indent: '', listLines: [] });
       }
+      rawOwner = item;
+      lineNumbers.set(item, i + 1);
+      continue;
     }
+    
+    // Handle list entries of the item above (  - Entry)
+    const listMatch = LIST_ENTRY_PATTERN.exec(lines[i]);
+    if (listMatch && currentItem) {
+      currentItem.list = [...(currentItem.list ?? []), listMatch[1].trim()];
+      writtenLines.get(currentItem)?.listLines.push(lines[i]);
+      continue;
+    }
+    
+    // Anything else is free text, kept as it is
+    addRaw(lines[i]);
   }
   
   // Add the last section if it exists
   if (currentSection) {
-    sections.push(currentSection);
+    closeSection(currentSection, true);
   }
   
-  return { sections };
+  for (const [item, written] of writtenLines) {
+    if (written.line !== generateItemLine(item, written.indent)) {
+      item.line = written.line;
+    }
+    if (!sameLines(written.listLines, (item.list ?? []).map(entry => generateListLine(entry, written.indent)))) {
+      item.listLines = written.listLines;
+    }
+  }
+  
+  // An empty line after the header is the usual layout, and what generateTemplate writes by default
+  const template: MemoryTemplate = sameLines(preamble, hasHeader && lines.length > 0 ? [''] : [])
+    ? { sections }
+    : { preamble, sections };
+  if (!hasHeader) {
+    template.header = false;
+  }
+  if (!finalNewline) {
+    template.finalNewline = false;
+  }
+  if (crlf) {
+    template.lineEnding = '\r\n';
+  }
+  return { template, warnings, lineNumbers };
 }
 
 /**
- * Generate a markdown string from a MemoryTemplate object
+ * Read a targeting rule (<!-- platforms: a, b --> / <!-- exclude-platforms: a, b -->) or
+ * visibility (<!-- private --> / <!-- public -->) line into a section
+ * Repeated rules add to each other.
+ * @returns Whether the line was one
  */
-export function generateTemplate(template: MemoryTemplate): string {
-  let markdown = '# myAI Memory\n\n';
-  
-  for (const section of template.sections) {
-    markdown += `# ${section.title}\n`;
+function readHeaderLine(section: TemplateSection, line: string): boolean {
+  const ruleMatch = PLATFORM_RULE_PATTERN.exec(line);
+  if (ruleMatch) {
+    const side = ruleMatch[1] ? 'exclude' : 'include';
+    const platforms = ruleMatch[2]
+      .split(',')
+      .map(platform => platform.trim())
+      .filter(platform => platform !== '') as PlatformType[];
     
-    if (section.description) {
-      markdown += `## ${section.description}\n`;
+    section.platforms = {
+      ...section.platforms,
+      [side]: [...(section.platforms?.[side] ?? []), ...platforms]
+    };
+    return true;
+  }
+  
+  const visibilityMatch = SECTION_VISIBILITY_PATTERN.exec(line);
+  if (visibilityMatch) {
+    section.visibility = visibilityMatch[1] as Visibility;
+    return true;
+  }
+  
+  return false;
+}
+
+/**
+ * Generate a section's targeting rule and visibility lines
+ */
+function generateHeaderLines(section: TemplateSection): string[] {
+  const lines: string[] = [];
+  if (section.platforms?.include?.length) {
+    lines.push(`<!-- platforms: ${section.platforms.include.join(', ')} -->`);
+  }
+  if (section.platforms?.exclude?.length) {
+    lines.push(`<!-- exclude-platforms: ${section.platforms.exclude.join(', ')} -->`);
+  }
+  if (section.visibility) {
+    lines.push(`<!-- ${section.visibility} -->`);
+  }
+  return lines;
+}
+
+/**
+ * Get a section's targeting rule and visibility lines: as written, unless the rules or
+ * visibility have changed since, and as generated otherwise
+ */
+function getHeaderLines(section: TemplateSection): string[] {
+  if (section.headerLines) {
+    const written: TemplateSection = { title: section.title, description: '', items: [] };
+    const unchanged = section.headerLines.every(line => readHeaderLine(written, line.trim()))
+      && sameLines(generateHeaderLines(written), generateHeaderLines(section));
+    if (unchanged) {
+      return section.headerLines;
     }
-    
-    for (const item of section.items) {
-      markdown += `-~- ${item.key}: ${item.value}\n`;
+  }
+  return generateHeaderLines(section);
+}
+
+/**
+ * Check whether two lists of lines are the same
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Get how a template was laid out in its markdown, so a copy of it is written the same way
+ */
+export function getTemplateLayout(
+  template: MemoryTemplate
+): Pick<MemoryTemplate, 'preamble' | 'header' | 'finalNewline' | 'lineEnding'> {
+  return {
+    ...(template.preamble ? { preamble: template.preamble } : {}),
+    ...(template.header === false ? { header: false } : {}),
+    ...(template.finalNewline === false ? { finalNewline: false } : {}),
+    ...(template.lineEnding === '\r\n' ? { lineEnding: template.lineEnding } : {})
+  };
+}
+
+/**
+ * Get a line as written, if it still reads as the line that would be generated,
+ * and as generated otherwise
+ * @param read Reads the written line, trimmed, back into what it was generated from
+ */
+function getWrittenLine(written: string | undefined, generated: string, read: (line: string) => string | null): string {
+  return written !== undefined && read(written.trim()) === read(generated.trim()) && read(generated.trim()) !== null
+    ? written
+    : generated;
+}
+
+/**
+ * Generate the markdown for a single section
+ * @param platform Render the section as synced to this platform, without targeting rules or private items
+ */
+export function generateSection(section: TemplateSection, platform?: PlatformType): string {
+  // Lines as written are only kept in the full template
+  const titleLine = `# ${section.title}`;
+  let markdown = `${platform ? titleLine : getWrittenLine(section.titleLine, titleLine, readTitleLine)}\n`;
+  
+  if (section.description) {
+    const descriptionLine = `## ${section.description}`;
+    markdown += `${platform ? descriptionLine : getWrittenLine(section.descriptionLine, descriptionLine, readDescriptionLine)}\n`;
+  }
+  
+  // Targeting rules and visibility are only kept in the full template
+  if (!platform) {
+    markdown += generateRaw(getHeaderLines(section));
+  }
+  
+  markdown += generateRaw(section.raw);
+  
+  for (const item of section.items) {
+    if (!(platform && isPrivate(item))) {
+      markdown += generateItem(item, platform);
     }
-    
-    markdown += '\n';
   }
   
   return markdown;
 }
 
+/**
+ * Generate the markdown for an item, with its list entries and sub-items on the lines below
+ * @param platform Render the item as synced to this platform, without private sub-items
+ */
+function generateItem(item: TemplateItem, platform?: PlatformType, indent = ''): string {
+  let markdown = `${platform ? generateItemLine(item, indent, platform) : getItemLine(item, indent)}\n`;
+  
+  (item.list ?? []).forEach((entry, index) => {
+    const listLine = generateListLine(entry, indent);
+    markdown += `${platform ? listLine : getWrittenLine(item.listLines?.[index], listLine, readListLine)}\n`;
+  });
+  
+  for (const subItem of item.items ?? []) {
+    if (!(platform && isPrivate(subItem))) {
+      markdown += generateItem(subItem, platform, `${indent}  `);
+    }
+  }
+  
+  return markdown + generateRaw(item.raw);
+}
+
+/**
+ * Generate an item's own line, without its list entries and sub-items
+ * @param platform Render the line as synced to this platform, without the visibility
+ */
+function generateItemLine(item: TemplateItem, indent: string, platform?: PlatformType): string {
+  const visibility = !platform && item.visibility ? ` <!-- ${item.visibility} -->` : '';
+  const hasChildren = Boolean(item.list?.length || item.items?.length);
+  // "Key:" rather than "Key: " when the value is only on the lines below
+  const separator = item.value || !hasChildren ? ': ' : ':';
+  return `${indent}-~- ${item.key}${separator}${item.value}${visibility}`;
+}
+
+/**
+ * Get an item's line: as written, unless its key, value or visibility has changed since, or
+ * it has moved in or out of another item, and as generated otherwise
+ */
+function getItemLine(item: TemplateItem, indent: string): string {
+  const generated = generateItemLine(item, indent);
+  if (item.line === undefined || /^\s/.test(item.line) !== (indent !== '')) {
+    return generated;
+  }
+  return getWrittenLine(item.line, generated, readItemLine);
+}
+
+/**
+ * Generate a list entry line of an item
+ */
+function generateListLine(entry: string, indent: string): string {
+  return `${indent}  - ${entry}`;
+}
+
+/**
+ * Read a trimmed "# Title" line as its title
+ */
+function readTitleLine(line: string): string | null {
+  return line.startsWith('# ') ? line.substring(2) : null;
+}
+
+/**
+ * Read a trimmed "## Description" line as its description
+ */
+function readDescriptionLine(line: string): string | null {
+  return line.startsWith('## ') ? line.substring(3) : null;
+}
+
+/**
+ * Read a trimmed item line as its key, value and visibility
+ */
+function readItemLine(line: string): string | null {
+  const item = line.startsWith('-~-') ? parseItemLine(line) : null;
+  return item ? JSON.stringify([item.key, item.value, item.visibility ?? null]) : null;
+}
+
+/**
+ * Read a trimmed list entry line as its entry
+ */
+function readListLine(line: string): string | null {
+  return /^-\s+(.*)$/.exec(line)?.[1].trim() ?? null;
+}
+
+/**
+ * Write raw lines back as they were read
+ */
+function generateRaw(raw: string[] = []): string {
+  return raw.map(line => `${line}\n`).join('');
+}
+
+/**
+ * Get an item's value as written, including its list entries and sub-items
+ * Used to compare items, so a change to any part of the value counts as a change.
+ */
+export function getItemText(item: TemplateItem): string {
+  return [
+    item.value,
+    ...(item.list ?? []).map(entry => `- ${entry}`),
+    ...(item.items ?? []).map(subItem => `${subItem.key}: ${subItem.value}`)
+  ].filter(line => line !== '').join('\n');
+}
+
+/**
+ * Generate a markdown string from a MemoryTemplate object
+ * @param platform Render the view for this platform: only the public sections and items targeted at it,
+ * without the targeting rules
+ */
+export function generateTemplate(template: MemoryTemplate, platform?: PlatformType): string {
+  // Platform views always have the header, which synced files are read by; the full template keeps its own layout
+  const hasHeader = platform !== undefined || template.header !== false;
+  let markdown = hasHeader ? '# myAI Memory\n' : '';
+  markdown += generateRaw(template.preamble ?? (hasHeader ? [''] : []));
+  
+  const sections = platform
+    ? template.sections.filter(section => !isPrivate(section) && isSectionTargeted(section, platform))
+    : template.sections;
+  
+  // Sections are separated by an empty line unless they were written with a different number
+  sections.forEach((section, index) => {
+    const blankLines = section.blankLinesAfter ?? (index < sections.length - 1 ? 1 : 0);
+    markdown += generateSection(section, platform) + '\n'.repeat(blankLines);
+  });
+  
+  if (platform) {
+    return markdown;
+  }
+  const content = template.finalNewline === false ? markdown.replace(/\n$/, '') : markdown;
+  return template.lineEnding === '\r\n' ? content.replace(/\n/g, '\r\n') : content;
+}
+
+/**
+ * Check that a visibility read from a template is one of the known values
+ */
+function isValidVisibility(visibility: unknown): boolean {
+  return visibility === undefined || visibility === 'public' || visibility === 'private';
+}
+
+/**
+ * Check that raw lines are single lines of text
+ */
+function isValidRaw(raw: unknown): boolean {
+  return raw === undefined || (Array.isArray(raw) && raw.every(line => typeof line === 'string' && !line.includes('\n')));
+}
+
+/**
+ * Check that a line kept as written is a single line of text
+ */
+function isValidLine(line: unknown): boolean {
+  return line === undefined || (typeof line === 'string' && !line.includes('\n'));
+}
+
+/**
+ * Give an item the value of another, including its list entries and sub-items
+ */
+export function assignItemValue(item: TemplateItem, source: TemplateItem): void {
+  item.value = source.value;
+  
+  if (source.list) {
+    item.list = [...source.list];
+  } else {
+    delete item.list;
+  }
+  
+  if (source.items) {
+    item.items = source.items.map(subItem => ({ ...subItem }));
+  } else {
+    delete item.items;
+  }
+}
+
 /**
  * Validate that a template has the correct structure and formatting
  */
@@ -90,6 +612,20 @@ export function validateTemplate(template: MemoryTemplate): boolean {
     return false;
   }
   
+  if (!isValidRaw(template.preamble)) {
+    return false;
+  }
+  
+  for (const flag of [template.header, template.finalNewline]) {
+    if (flag !== undefined && typeof flag !== 'boolean') {
+      return false;
+    }
+  }
+  
+  if (template.lineEnding !== undefined && template.lineEnding !== '\n' && template.lineEnding !== '\r\n') {
+    return false;
+  }
+  
   for (const section of template.sections) {
     if (typeof section.title !== 'string' || !section.title) {
       return false;
@@ -103,16 +639,125 @@ export function validateTemplate(template: MemoryTemplate): boolean {
       return false;
     }
     
-    for (const item of section.items) {
-      if (typeof item.key !== 'string' || !item.key) {
-        return false;
+    if (section.platforms !== undefined) {
+      for (const platforms of [section.platforms.include, section.platforms.exclude]) {
+        if (platforms !== undefined && (!Array.isArray(platforms) || platforms.some(p => typeof p !== 'string'))) {
+          return false;
+        }
       }
+    }
+    
+    if (!isValidVisibility(section.visibility)) {
+      return false;
+    }
+    
+    if (!isValidLine(section.titleLine) || !isValidLine(section.descriptionLine)) {
+      return false;
+    }
+    
+    if (!isValidRaw(section.raw) || !isValidRaw(section.headerLines)) {
+      return false;
+    }
+    
+    if (section.blankLinesAfter !== undefined && !(Number.isInteger(section.blankLinesAfter) && section.blankLinesAfter >= 0)) {
+      return false;
+    }
+    
+    if (!section.items.every(item => isValidItem(item, false))) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check an item, and its list entries and sub-items
+ * @param isSubItem Sub-items can't have lists or sub-items of their own
+ */
+function isValidItem(item: TemplateItem, isSubItem: boolean): boolean {
+  if (typeof item.key !== 'string' || !item.key) {
+    return false;
+  }
+  
+  if (typeof item.value !== 'string') {
+    return false;
+  }
+  
+  if (!isValidVisibility(item.visibility)) {
+    return false;
+  }
+  
+  if (!isValidRaw(item.raw) || !isValidLine(item.line) || !isValidRaw(item.listLines)) {
+    return false;
+  }
+  
+  if (item.list !== undefined) {
+    if (isSubItem || !Array.isArray(item.list) || item.list.some(entry => typeof entry !== 'string' || /[\r\n]/.test(entry))) {
+      return false;
+    }
+  }
+  
+  if (item.items !== undefined) {
+    if (isSubItem || !Array.isArray(item.items) || !item.items.every(subItem => isValidItem(subItem, true))) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Merge an overlay template on top of a base template
+ * Sections are matched by title and items by key (both case-insensitive).
+ * Overlay values win, and sections or items the base doesn't have are appended.
+ */
+export function mergeTemplates(base: MemoryTemplate, overlay: MemoryTemplate): MemoryTemplate {
+  const sections: TemplateSection[] = base.sections.map(section => ({
+    ...section,
+    items: section.items.map(item => ({ ...item }))
+  }));
+  
+  for (const overlaySection of overlay.sections) {
+    const section = sections.find(
+      s => s.title.toLowerCase() === overlaySection.title.toLowerCase()
+    );
+    
+    if (!section) {
+      sections.push({
+        ...overlaySection,
+        items: overlaySection.items.map(item => ({ ...item }))
+      });
+      continue;
+    }
+    
+    if (overlaySection.description) {
+      section.description = overlaySection.description;
+    }
+    
+    if (overlaySection.platforms) {
+      section.platforms = overlaySection.platforms;
+    }
+    
+    if (overlaySection.visibility) {
+      section.visibility = overlaySection.visibility;
+    }
+    
+    for (const overlayItem of overlaySection.items) {
+      const item = section.items.find(
+        i => i.key.toLowerCase() === overlayItem.key.toLowerCase()
+      );
       
-      if (typeof item.value !== 'string') {
-        return false;
+      if (item) {
+        assignItemValue(item, overlayItem);
+        if (overlayItem.visibility) {
+          item.visibility = overlayItem.visibility;
+        }
+      } else {
+        section.items.push({ ...overlayItem });
       }
     }
   }
   
-  return true;
-}
\ No newline at end of file
+  return { ...getTemplateLayout(base), sections };
+}
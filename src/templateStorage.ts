@@ -2,7 +2,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { MemoryTemplate, TemplateSection, Preset } from './types.js';
-import { parseTemplate, generateTemplate, validateTemplate } from './templateParser.js';
+import { parseTemplate, generateTemplate } from './templateParser.js';
+import { validateTemplateContent, formatDiagnostics } from './utils/templateValidation.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = path.join(__dirname, '..', 'data');
@@ -148,9 +149,10 @@ export class TemplateStorage {
    */
   async updateTemplate(templateContent: string): Promise<boolean> {
     try {
-      const newTemplate = parseTemplate(templateContent);
+      const { template: newTemplate, diagnostics, valid } = validateTemplateContent(templateContent);
       
-      if (!validateTemplate(newTemplate)) {
+      if (!valid) {
+        console.error(`Template is not valid:\n${formatDiagnostics(diagnostics)}`);
         return false;
       }
       
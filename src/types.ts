@@ -5,32 +5,157 @@
 // Memory template structure
 export interface MemoryTemplate {
   sections: TemplateSection[];
+  revision?: string; // Token for the saved template, changes whenever the template file does
+  preamble?: string[]; // Raw lines between the "# myAI Memory" header and the first section (one empty line if missing)
+  header?: boolean; // false if the markdown didn't start with the "# myAI Memory" header (written if missing)
+  finalNewline?: boolean; // false if the markdown didn't end with a newline (written if missing)
+  lineEnding?: '\n' | '\r\n'; // '\r\n' if every line of the markdown ended with one ('\n' if missing)
 }
 
 export interface TemplateSection {
   title: string;
   description: string;
   items: TemplateItem[];
+  platforms?: SectionPlatformRules;
+  visibility?: Visibility;
+  titleLine?: string; // The "# Title" line as written, if that differs from how it is generated
+  descriptionLine?: string; // The "## Description" line as written, if that differs from how it is generated
+  headerLines?: string[]; // Targeting rule and visibility lines as written, if that differs from how they are generated
+  raw?: string[]; // Free text, comments, code blocks and blank lines between the header lines and the first item
+  blankLinesAfter?: number; // Empty lines before the next section (1 if missing, 0 after the last section)
+}
+
+// Private sections and items stay in the template (and the MCP tools) but are never synced
+export type Visibility = 'public' | 'private';
+
+// Which platforms receive a section (every platform when there are no rules)
+export interface SectionPlatformRules {
+  include?: PlatformType[]; // Only these platforms receive the section
+  exclude?: PlatformType[]; // These platforms never receive the section
 }
 
 export interface TemplateItem {
   key: string;
-  value: string;
+  value: string; // As written after the colon ('' for an item that only has a list or sub-items)
+  visibility?: Visibility;
+  list?: string[]; // List entries, written "  - Entry" on the lines below the item
+  items?: TemplateItem[]; // Sub-items, written "  -~- Key: Value" below the item (one level only)
+  raw?: string[]; // Free text, comments, code blocks and blank lines after the item, as written
+  line?: string; // The item line as written, if that differs from how it is generated
+  listLines?: string[]; // The list entry lines as written, if that differs from how they are generated
+}
+
+// A value read as its type: "true"/"false", numbers and ISO dates are typed, anything else
+// (or anything in double quotes) is a string
+export type ItemScalar = string | number | boolean | Date;
+
+// The typed value of an item: its list, its sub-items, or its own value
+export type ItemValue = ItemScalar | ItemScalar[] | { [key: string]: ItemScalar };
+
+// A problem found when parsing or validating a template
+// Errors stop the template from being saved; warnings are reported but don't
+export interface TemplateDiagnostic {
+  severity: 'error' | 'warning';
+  code: string; // e.g. "duplicate-key" or "malformed-item"
+  message: string;
+  line?: number; // 1-based line in the markdown, missing if the template wasn't parsed from markdown
+  section?: string; // Title of the section the problem is in
 }
 
 // Platform synchronization
-export type PlatformType = 'claude-web' | 'claude-code' | 'windsurf' | 'master';
+export type PlatformType =
+  | 'claude-web'
+  | 'claude-code'
+  | 'windsurf'
+  | 'cursor'
+  | 'github-copilot'
+  | 'agents-md'
+  | 'master';
 
 export interface SyncStatus {
   platform: PlatformType;
   success: boolean;
   message: string;
+  dryRun?: boolean;
+  files?: SyncFileChange[];
+  durationMs?: number; // How long the platform took to sync
+}
+
+// What a sync did (or, in a dry run, would do) to a single file
+// A file that already has the right content is skipped, without being touched, and so is
+// a project file git tracks, which would otherwise commit the memory
+export type SyncFileAction = 'created' | 'modified' | 'skipped-unchanged' | 'skipped-tracked' | 'failed';
+
+export interface SyncFileChange {
+  path: string;
+  action: SyncFileAction;
+  diff?: string; // Unified diff, only included in dry runs
+  drift?: boolean; // The file was modified outside of sync since it was last synced
+  bytesWritten?: number; // 0 if the file was skipped, failed or this is a dry run
+  durationMs?: number; // How long the file took to sync, including its .gitignore update
+  errorCode?: string; // Why a failed file couldn't be synced, e.g. EACCES or ETIMEDOUT
+  error?: string; // The error message of a failed file
+}
+
+// A file a platform syncs to, and when it was last synced
+export interface SyncTargetState {
+  platform: PlatformType;
+  path: string;
+  lastSyncedAt?: string; // ISO 8601, missing if the file has never been synced
+  drift?: boolean; // The file was modified outside of sync since it was last synced
+}
+
+// A synced file whose memory block was edited in place since it was last written
+export interface TargetEdit {
+  platform: PlatformType;
+  path: string;
+  base: string; // The memory block as it was last written by a sync
+  content: string; // The memory block as it is now
+}
+
+// A value that was changed both in a synced file and in the master template since the last sync
+export interface MergeConflict {
+  section: string;
+  key?: string; // Missing for a conflict over the section description
+  base?: string; // Value when the file was last synced (missing if it didn't exist)
+  target?: string; // Value in the file (missing if it was removed there)
+  master?: string; // Value in the master template (missing if it was removed there)
+}
+
+export interface SyncOptions {
+  dryRun?: boolean; // Compute the changes without writing anything
+  signal?: AbortSignal; // Aborted when the sync has timed out, so no more files are written
+}
+
+// Options for a change to the template
+export interface TemplateWriteOptions {
+  source?: string; // The tool or command making the change, recorded in the history
+  expectedRevision?: string; // Reject the change if the template has been saved since this revision
+}
+
+// Template history
+export interface TemplateRevision {
+  id: number;
+  timestamp: string; // ISO 8601
+  source: string; // The tool or command that made the change (e.g. "update_section", "cli:presets load")
+  content: string; // The full template markdown after the change
 }
 
 // Preset configuration
 export interface Preset {
   name: string;
   sections: TemplateSection[];
+  extends?: string; // Name of a preset whose sections this one builds on; its own sections and items win
+  partial?: boolean; // Loading replaces only the sections the preset has, and keeps the template's others
+}
+
+// How a preset is loaded: its sections replace the template's (only the ones it has, for a
+// partial preset), or are merged into them, with the preset's values winning
+export type PresetLoadMode = 'replace' | 'merge';
+
+// Options for loading a preset
+export interface PresetLoadOptions extends TemplateWriteOptions {
+  mode?: PresetLoadMode; // "replace" if missing
 }
 
 // MCP types
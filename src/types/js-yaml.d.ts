@@ -0,0 +1,23 @@
+declare module 'js-yaml' {
+  export class Schema {}
+
+  export const JSON_SCHEMA: Schema;
+
+  export interface LoadOptions {
+    filename?: string;
+    schema?: Schema;
+  }
+
+  export interface DumpOptions {
+    indent?: number;
+    lineWidth?: number;
+    noRefs?: boolean;
+    schema?: Schema;
+  }
+
+  export function load(input: string, options?: LoadOptions): unknown;
+
+  export function dump(value: unknown, options?: DumpOptions): string;
+
+  export class YAMLException extends Error {}
+}
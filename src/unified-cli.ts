@@ -5,11 +5,22 @@
  * A single command-line interface for all server operations
  */
 import { program } from 'commander';
+import { promises as fs } from 'fs';
 import { startServer } from './core/index.js';
 import { version } from './version.js';
 import { ServiceFactory, ImplementationType } from './core/services/ServiceFactory.js';
 import { processMemoryCommand } from './core/utils/MemoryCommandProcessor.js';
 import { emergencySync } from './utils/emergency-sync.js';
+import { formatSyncFileChanges, formatSyncDuration, formatSyncResultsJson } from './platformSync.js';
+import { TemplateWatcher } from './core/utils/TemplateWatcher.js';
+import { pullTargetEdits, formatPullResult } from './core/utils/TargetImporter.js';
+import { importOnboardingPreferences, formatOnboardingResult } from './core/utils/OnboardingImporter.js';
+import { generateTemplate } from './templateParser.js';
+import { createUnifiedDiff } from './utils/diff.js';
+import { getEncryptionKey, readKeyFile, reencryptStoredData, decodeStoredContent } from './utils/encryption.js';
+import { validateTemplateContent, formatValidationResult, formatDiagnostics } from './utils/templateValidation.js';
+import { exportTemplate, importTemplate, getTemplateFormat, isTemplateFormat, TEMPLATE_FORMATS } from './utils/templateFormats.js';
+import { config } from './config.js';
 
 async function main() {
   program
@@ -26,6 +37,7 @@ async function main() {
     .option('-d, --direct', 'Use direct implementation instead of SDK', false)
     .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
     .option('--debug', 'Enable debug mode', false)
+    .option('-w, --watch', 'Sync automatically when the template is edited on disk', false)
     .action(async (options) => {
       try {
         const transportType = options.transport === 'http' ? 'http' : 'stdio';
@@ -39,7 +51,8 @@ async function main() {
           transport: transportType,
           port: transportType === 'http' ? port : undefined,
           debug: options.debug,
-          implementationType
+          implementationType,
+          watch: options.watch
         });
         
         // The server will keep running until terminated
@@ -86,7 +99,9 @@ async function main() {
     .command('sync')
     .description('Sync memory across all platforms')
     .option('-e, --emergency', 'Perform emergency sync (fixes permissions)', false)
-    .option('-p, --platform <name>', 'Sync only specific platform')
+    .option('-p, --platform <name>', 'Sync only specific platform (claude-code, claude-web, windsurf, cursor, github-copilot, agents-md)')
+    .option('-n, --dry-run', 'Show a diff of every file that would change without writing anything', false)
+    .option('--json', 'Print the result of each platform and file as JSON', false)
     .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
     .action(async (options) => {
       try {
@@ -94,7 +109,9 @@ async function main() {
           console.log('Performing emergency sync...');
           await emergencySync();
         } else {
-          console.log('Syncing memory across platforms...');
+          if (!options.json) {
+            console.log('Syncing memory across platforms...');
+          }
           
           const implementationType = options.implementation === 'legacy'
             ? ImplementationType.LEGACY
@@ -103,27 +120,44 @@ async function main() {
           ServiceFactory.setImplementationType(implementationType);
           await ServiceFactory.initializeServices();
           
-          console.log(`Using ${implementationType} service implementations`);
+          if (!options.json) {
+            console.log(`Using ${implementationType} service implementations`);
+          }
           
           const platformService = ServiceFactory.getPlatformService();
+          const syncOptions = { dryRun: options.dryRun };
           
           let results;
           
           if (options.platform) {
-            console.log(`Syncing platform: ${options.platform}`);
-            results = [await platformService.syncPlatform(options.platform)];
+            if (!options.json) {
+              console.log(`Syncing platform: ${options.platform}`);
+            }
+            results = [await platformService.syncPlatform(options.platform, undefined, syncOptions)];
           } else {
-            results = await platformService.syncAll();
+            results = await platformService.syncAll(undefined, syncOptions);
           }
           
-          const successCount = results.filter(r => r.success).length;
-          const failCount = results.length - successCount;
+          if (options.json) {
+            console.log(formatSyncResultsJson(results));
+          } else {
+            const successCount = results.filter(r => r.success).length;
+            const failCount = results.length - successCount;
           
-          console.log(`Sync completed: ${successCount} successful, ${failCount} failed`);
+            if (options.dryRun) {
+              console.log(`Dry run completed (no files were written): ${successCount} successful, ${failCount} failed`);
+            } else {
+              console.log(`Sync completed: ${successCount} successful, ${failCount} failed`);
+            }
           
-          for (const result of results) {
-            const status = result.success ? '✅' : '❌';
-            console.log(`${status} ${result.platform}: ${result.message}`);
+            for (const result of results) {
+              const status = result.success ? '✅' : '❌';
+              console.log(`${status} ${result.platform}: ${result.message}${formatSyncDuration(result.durationMs)}`);
+              // Every file in a dry run, otherwise only the ones that failed
+              process.stdout.write(formatSyncFileChanges(
+                options.dryRun ? result.files : result.files?.filter(file => file.action === 'failed')
+              ));
+            }
           }
         }
         
@@ -134,6 +168,81 @@ async function main() {
       }
     });
   
+  // Pull command
+  program
+    .command('pull')
+    .description('Merge edits made directly in synced files (CLAUDE.md, global_rules.md, ...) back into the template')
+    .option('-p, --platform <name>', 'Only pull from a specific platform (claude-code, claude-web, windsurf, cursor, github-copilot, agents-md)')
+    .option('-a, --apply', 'Save the merged template and sync it (otherwise only preview the merge)', false)
+    .option('--prefer <side>', 'Which side wins a conflict (master, target)', 'master')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (options) => {
+      try {
+        if (options.prefer !== 'master' && options.prefer !== 'target') {
+          console.error(`❌ Invalid --prefer value: ${options.prefer} (expected master or target)`);
+          process.exit(1);
+        }
+        
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const result = await pullTargetEdits({
+          platform: options.platform,
+          apply: options.apply,
+          prefer: options.prefer,
+          source: 'cli:pull'
+        });
+        
+        console.log(formatPullResult(result));
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error pulling edits: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // Onboard command
+  program
+    .command('onboard')
+    .description('Import preferences already written in ~/.claude/CLAUDE.md, CLAUDE.md files and Windsurf rules')
+    .argument('[files...]', 'Files to import from (defaults to the known Claude Code and Windsurf locations)')
+    .option('-s, --skip <numbers>', 'Comma-separated numbers of candidates from the plan to leave out')
+    .option('-a, --apply', 'Add the new items to the template and sync it (otherwise only preview the plan)', false)
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (files: string[], options) => {
+      try {
+        const skip = options.skip ? String(options.skip).split(',').map(id => parseInt(id, 10)) : undefined;
+        if (skip?.some(id => isNaN(id))) {
+          console.error(`❌ Invalid --skip value: ${options.skip} (expected numbers such as 2,5)`);
+          process.exit(1);
+        }
+        
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const result = await importOnboardingPreferences({
+          paths: files.length > 0 ? files : undefined,
+          skip,
+          apply: options.apply,
+          source: 'cli:onboard'
+        });
+        
+        console.log(formatOnboardingResult(result));
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error importing preferences: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
   // Presets command
   program
     .command('presets')
@@ -177,9 +286,15 @@ async function main() {
     .command('load')
     .description('Load a preset')
     .argument('<name>', 'The name of the preset to load')
+    .option('-m, --mode <mode>', 'replace (swap in the preset\'s sections) or merge (add its sections and items)', 'replace')
     .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
     .action(async (name, options) => {
       try {
+        if (options.mode !== 'replace' && options.mode !== 'merge') {
+          console.error(`❌ Invalid --mode value: ${options.mode} (expected replace or merge)`);
+          process.exit(1);
+        }
+        
         console.log(`Loading preset: ${name}`);
         
         const implementationType = options.implementation === 'legacy'
@@ -194,7 +309,7 @@ async function main() {
         const templateService = ServiceFactory.getTemplateService();
         const platformService = ServiceFactory.getPlatformService();
         
-        const success = await templateService.loadPreset(name);
+        const success = await templateService.loadPreset(name, { source: 'cli:presets load', mode: options.mode });
         
         if (success) {
           console.log(`✅ Preset '${name}' loaded successfully`);
@@ -215,6 +330,44 @@ async function main() {
       }
     });
   
+  program
+    .command('presets')
+    .command('diff')
+    .description('Show what loading a preset would change, without loading it')
+    .argument('<name>', 'The name of the preset to compare with the template')
+    .option('-m, --mode <mode>', 'replace (swap in the preset\'s sections) or merge (add its sections and items)', 'replace')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (name, options) => {
+      try {
+        if (options.mode !== 'replace' && options.mode !== 'merge') {
+          console.error(`❌ Invalid --mode value: ${options.mode} (expected replace or merge)`);
+          process.exit(1);
+        }
+        
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const presetTemplate = await templateService.getPresetTemplate(name, options.mode);
+        const diff = createUnifiedDiff(
+          generateTemplate(templateService.getTemplate()),
+          generateTemplate(presetTemplate),
+          'template.md',
+          `template.md (preset ${name})`
+        );
+        
+        console.log(diff || `Loading preset '${name}' would leave the template unchanged`);
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error comparing preset: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
   program
     .command('presets')
     .command('create')
@@ -251,6 +404,488 @@ async function main() {
       }
     });
   
+  // Watch command
+  program
+    .command('watch')
+    .description('Sync to all platforms whenever the template is edited on disk')
+    .option('-f, --file <path...>', 'Files to watch (defaults to data/template.md and the master file)')
+    .option('--debounce <ms>', 'Wait this long after the last change before syncing', '500')
+    .option('--interval <ms>', 'Also sync periodically (defaults to syncInterval from config.json, 0 disables)')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        console.log(`Using ${implementationType} service implementations`);
+        
+        const watcher = new TemplateWatcher({
+          files: options.file,
+          debounceMs: parseInt(options.debounce, 10),
+          syncIntervalMs: options.interval !== undefined ? parseInt(options.interval, 10) : undefined
+        });
+        watcher.start();
+        
+        console.log(`👀 Watching for changes (Ctrl+C to stop):`);
+        for (const file of watcher.getWatchedFiles()) {
+          console.log(`  ${file}`);
+        }
+        
+        process.on('SIGINT', () => {
+          watcher.stop();
+          process.exit(0);
+        });
+        
+        // The watcher keeps the process running until interrupted
+      } catch (error) {
+        console.error(`Error starting watcher: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // Section commands
+  const sections = program
+    .command('sections')
+    .description('Delete, rename and reorder memory sections');
+  
+  sections
+    .command('delete')
+    .description('Delete a section and all of its items')
+    .argument('<name>', 'The section to delete')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (name, options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.deleteSection(name, { source: 'cli:sections delete' });
+        
+        if (success) {
+          console.log(`✅ Section '${name}' deleted`);
+          
+          console.log('Syncing to platforms...');
+          await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+          
+          console.log('✅ Template synced to all platforms');
+        } else {
+          console.error(`❌ Failed to delete section '${name}'`);
+        }
+        
+        process.exit(success ? 0 : 1);
+      } catch (error) {
+        console.error(`Error deleting section: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  sections
+    .command('rename')
+    .description('Rename a section, keeping its items')
+    .argument('<name>', 'The section to rename')
+    .argument('<newName>', 'The new section name')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (name, newName, options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.renameSection(name, newName, { source: 'cli:sections rename' });
+        
+        if (success) {
+          console.log(`✅ Section '${name}' renamed to '${newName}'`);
+          
+          console.log('Syncing to platforms...');
+          await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+          
+          console.log('✅ Template synced to all platforms');
+        } else {
+          console.error(`❌ Failed to rename section '${name}'`);
+        }
+        
+        process.exit(success ? 0 : 1);
+      } catch (error) {
+        console.error(`Error renaming section: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  sections
+    .command('reorder')
+    .description('Reorder sections (unlisted sections follow in their current order)')
+    .argument('<names...>', 'Sections in their new order')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (names, options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.reorderSections(names, { source: 'cli:sections reorder' });
+        
+        if (success) {
+          console.log('✅ Sections reordered');
+          
+          console.log('Syncing to platforms...');
+          await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+          
+          console.log('✅ Template synced to all platforms');
+        } else {
+          console.error('❌ Failed to reorder sections');
+        }
+        
+        process.exit(success ? 0 : 1);
+      } catch (error) {
+        console.error(`Error reordering sections: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // Validate command
+  program
+    .command('validate')
+    .description('Check a template for problems, with line numbers')
+    .argument('[file]', 'Template file to check (defaults to the saved template)')
+    .option('--json', 'Print the diagnostics as JSON', false)
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (file, options) => {
+      try {
+        let content: string;
+        if (file) {
+          content = decodeStoredContent(await fs.readFile(file, 'utf-8'), file);
+        } else {
+          const implementationType = options.implementation === 'legacy'
+            ? ImplementationType.LEGACY
+            : ImplementationType.CUSTOM;
+          
+          ServiceFactory.setImplementationType(implementationType);
+          await ServiceFactory.initializeServices();
+          content = generateTemplate(ServiceFactory.getTemplateService().getTemplate());
+        }
+        
+        const result = validateTemplateContent(content);
+        if (options.json) {
+          console.log(JSON.stringify({ valid: result.valid, diagnostics: result.diagnostics }, null, 2));
+        } else {
+          console.log(`${result.valid ? '✅' : '❌'} ${formatValidationResult(result)}`);
+        }
+        
+        process.exit(result.valid ? 0 : 1);
+      } catch (error) {
+        console.error(`Error validating template: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // Export and import commands
+  program
+    .command('export')
+    .description('Export the template as JSON, YAML or a markdown list')
+    .argument('[file]', 'File to write (prints the template if missing)')
+    .option('-f, --format <format>', `Format to write (${TEMPLATE_FORMATS.join(', ')}); defaults to the file extension, or json`)
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (file, options) => {
+      try {
+        const format = options.format ?? (file ? getTemplateFormat(file) : null) ?? 'json';
+        if (!isTemplateFormat(format)) {
+          console.error(`❌ Unknown format "${format}"; use one of: ${TEMPLATE_FORMATS.join(', ')}`);
+          process.exit(1);
+        }
+        
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const content = exportTemplate(ServiceFactory.getTemplateService().getTemplate(), format);
+        
+        if (file) {
+          await fs.writeFile(file, content, 'utf-8');
+          console.log(`✅ Template exported to ${file} (${format})`);
+        } else {
+          process.stdout.write(content);
+        }
+        
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error exporting template: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  program
+    .command('import')
+    .description('Import a template from JSON, YAML or a markdown list')
+    .argument('<file>', 'File to import')
+    .option('-f, --format <format>', `Format of the file (${TEMPLATE_FORMATS.join(', ')}); defaults to the file extension`)
+    .option('-s, --strategy <strategy>', 'merge (add to the current template, imported values win) or replace', 'merge')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (file, options) => {
+      try {
+        const format: string | null = options.format ?? getTemplateFormat(file);
+        if (!isTemplateFormat(format)) {
+          console.error(`❌ Unknown format${format ? ` "${format}"` : ''}; use --format with one of: ${TEMPLATE_FORMATS.join(', ')}`);
+          process.exit(1);
+        }
+        if (options.strategy !== 'merge' && options.strategy !== 'replace') {
+          console.error(`❌ Unknown strategy "${options.strategy}"; use merge or replace`);
+          process.exit(1);
+        }
+        
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const content = decodeStoredContent(await fs.readFile(file, 'utf-8'), file);
+        const result = importTemplate(templateService.getTemplate(), content, format, options.strategy);
+        
+        const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+        if (warnings.length > 0) {
+          console.log(`Warnings:\n${formatDiagnostics(warnings)}`);
+        }
+        
+        const success = await templateService.updateTemplate(generateTemplate(result.template), { source: 'cli:import' });
+        
+        if (success) {
+          console.log(`✅ Template imported from ${file} (${options.strategy}, ${result.template.sections.length} sections)`);
+          
+          // Sync with platforms
+          console.log('Syncing to platforms...');
+          await platformService.syncAll();
+          
+          console.log('✅ Template synced to all platforms');
+        } else {
+          console.error(`❌ Failed to import template from ${file}`);
+        }
+        
+        process.exit(success ? 0 : 1);
+      } catch (error) {
+        console.error(`Error importing template: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // History commands
+  const history = program
+    .command('history')
+    .description('Browse and restore revisions of the memory template');
+  
+  history
+    .command('list')
+    .description('List revisions, newest first')
+    .option('-l, --limit <count>', 'Maximum number of revisions to list')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const limit = options.limit !== undefined ? parseInt(options.limit, 10) : undefined;
+        const revisions = await templateService.getHistory(limit);
+        
+        if (revisions.length === 0) {
+          console.log('No revisions recorded yet');
+        } else {
+          for (const revision of revisions) {
+            console.log(`#${revision.id}  ${revision.timestamp}  ${revision.source}`);
+          }
+        }
+        
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error listing history: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  history
+    .command('diff')
+    .description('Show the changes between two revisions')
+    .argument('<from>', 'The older revision')
+    .argument('[to]', 'The newer revision (defaults to the latest)')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (from, to, options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const fromRevision = await templateService.getRevision(parseInt(from, 10));
+        const toRevision = to !== undefined
+          ? await templateService.getRevision(parseInt(to, 10))
+          : (await templateService.getHistory(1))[0] || null;
+        
+        if (!fromRevision || !toRevision) {
+          console.error(`❌ Revision ${!fromRevision ? from : to} not found`);
+          process.exit(1);
+        }
+        
+        const diff = createUnifiedDiff(
+          fromRevision.content,
+          toRevision.content,
+          `revision ${fromRevision.id}`,
+          `revision ${toRevision.id}`
+        );
+        console.log(diff || `No differences between revision ${fromRevision.id} and revision ${toRevision.id}`);
+        
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error comparing revisions: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  history
+    .command('rollback')
+    .description('Restore the template to an earlier revision and sync it')
+    .argument('<revision>', 'The revision to restore')
+    .option('-i, --implementation <type>', 'Service implementation type (custom, legacy)', 'custom')
+    .action(async (revision, options) => {
+      try {
+        const implementationType = options.implementation === 'legacy'
+          ? ImplementationType.LEGACY
+          : ImplementationType.CUSTOM;
+        
+        ServiceFactory.setImplementationType(implementationType);
+        await ServiceFactory.initializeServices();
+        
+        const templateService = ServiceFactory.getTemplateService();
+        const platformService = ServiceFactory.getPlatformService();
+        
+        const success = await templateService.rollback(parseInt(revision, 10), { source: 'cli:history rollback' });
+        
+        if (success) {
+          console.log(`✅ Template rolled back to revision ${revision}`);
+          
+          console.log('Syncing to platforms...');
+          await platformService.syncAll(generateTemplate(templateService.getTemplate()));
+          
+          console.log('✅ Template synced to all platforms');
+        } else {
+          console.error(`❌ Failed to roll back to revision ${revision}`);
+        }
+        
+        process.exit(success ? 0 : 1);
+      } catch (error) {
+        console.error(`Error rolling back: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  // Encryption commands
+  const encryption = program
+    .command('encryption')
+    .description('Encrypt, decrypt and rotate the key of the template, its history, presets and backups');
+  
+  encryption
+    .command('encrypt')
+    .description('Encrypt the existing files with the configured key (MYAI_PASSPHRASE or encryption.keyFile)')
+    .action(async () => {
+      try {
+        if (!config.encryption.enabled) {
+          console.error('❌ Set encryption.enabled to true in config.json (or MYAI_ENCRYPTION=true) first, so the files stay encrypted when they are next written');
+          process.exit(1);
+        }
+        
+        const key = getEncryptionKey();
+        if (!key) {
+          console.error('❌ No key is configured. Set the MYAI_PASSPHRASE environment variable or encryption.keyFile in config.json.');
+          process.exit(1);
+        }
+        
+        const files = await reencryptStoredData(key, key);
+        console.log(`✅ Encrypted ${files.length} file(s)`);
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error encrypting: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  encryption
+    .command('decrypt')
+    .description('Decrypt the files back to plaintext')
+    .action(async () => {
+      try {
+        if (config.encryption.enabled) {
+          console.error('❌ Set encryption.enabled to false in config.json (or MYAI_ENCRYPTION=false) first, or the files are encrypted again when they are next written');
+          process.exit(1);
+        }
+        
+        const files = await reencryptStoredData(getEncryptionKey(), null);
+        console.log(`✅ Decrypted ${files.length} file(s)`);
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error decrypting: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
+  encryption
+    .command('rotate')
+    .description('Re-encrypt the files with a new key, from --new-key-file or the MYAI_NEW_PASSPHRASE environment variable')
+    .option('--new-key-file <path>', 'File holding the new key')
+    .action(async (options) => {
+      try {
+        const key = getEncryptionKey();
+        const newKey = options.newKeyFile ? readKeyFile(options.newKeyFile) : process.env.MYAI_NEW_PASSPHRASE;
+        if (!key || !newKey) {
+          console.error('❌ Both the current key (MYAI_PASSPHRASE or encryption.keyFile) and the new key (--new-key-file or MYAI_NEW_PASSPHRASE) are needed');
+          process.exit(1);
+        }
+        
+        const files = await reencryptStoredData(key, newKey);
+        console.log(`✅ Re-encrypted ${files.length} file(s) with the new key`);
+        console.log(options.newKeyFile
+          ? `Set encryption.keyFile in config.json to ${options.newKeyFile} to keep using them`
+          : 'Set MYAI_PASSPHRASE to the new passphrase to keep using them');
+        process.exit(0);
+      } catch (error) {
+        console.error(`Error rotating the key: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+  
   // Parse command line arguments
   program.parse(process.argv);
   
@@ -1,10 +1,12 @@
 import fs from 'fs';
 import path from 'path';
 import { promises as fsPromises } from 'fs';
+import { encodeStoredContent, decodeStoredContent } from './encryption.js';
 
 /**
  * Utility for creating backups of the myAI Master file
  * Handles creating timestamped backups before any modifications
+ * Backups are encrypted when encryption is enabled; the master file itself is left as it is.
  */
 export class BackupManager {
   private masterPath: string;
@@ -37,8 +39,9 @@ export class BackupManager {
       const backupFilename = `myAI-Master-${timestamp}.md`;
       const backupPath = path.join(this.backupDir, backupFilename);
 
-      // Copy the file
-      await fsPromises.copyFile(this.masterPath, backupPath);
+      // Copy the file, encrypting the copy if encryption is enabled
+      const masterContent = await fsPromises.readFile(this.masterPath, 'utf-8');
+      await fsPromises.writeFile(backupPath, encodeStoredContent(masterContent), 'utf-8');
       console.log(`✅ Created backup at ${backupPath}`);
       return backupPath;
     } catch (err) {
@@ -86,8 +89,9 @@ export class BackupManager {
       // Create an extra backup of current state before restoration
       await this.createBackup();
       
-      // Copy backup to master
-      await fsPromises.copyFile(backupPath, this.masterPath);
+      // Copy backup to master, decrypting it if it is encrypted
+      const backupContent = await fsPromises.readFile(backupPath, 'utf-8');
+      await fsPromises.writeFile(this.masterPath, decodeStoredContent(backupContent, backupPath), 'utf-8');
       console.log(`✅ Restored from backup: ${backupFilename}`);
       return true;
     } catch (err) {
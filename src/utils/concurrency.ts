@@ -0,0 +1,102 @@
+/**
+ * Concurrency Utility
+ *
+ * Helpers for running sync work in parallel without letting one slow target hold
+ * up the rest: a bounded parallel map, a timeout wrapper and per-file locks for
+ * read-modify-write updates that several syncers can make to the same file.
+ */
+
+/**
+ * Thrown when a task takes longer than its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly label: string, public readonly timeoutMs: number) {
+    super(`${label} timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Wait for a promise, giving up after a timeout
+ * The underlying work is only stopped if it watches the controller's signal, which is
+ * aborted on timeout; otherwise it is no longer waited for.
+ * @param timeoutMs Time limit in milliseconds (0 or less waits indefinitely)
+ * @param label Describes the task in the timeout error
+ * @param controller Aborted with the timeout error when the time is up
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label: string,
+  controller?: AbortController
+): Promise<T> {
+  if (timeoutMs <= 0) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(label, timeoutMs);
+      controller?.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Map over items with at most `limit` tasks running at once
+ * @returns The results, in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+// Tail of the queue of updates for each locked key
+const locks = new Map<string, Promise<void>>();
+
+/**
+ * Run a task once every earlier task holding the same key has finished
+ * Used for read-modify-write updates of a file that more than one syncer writes.
+ */
+export async function withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  locks.set(key, tail);
+
+  try {
+    await previous;
+    return await task();
+  } finally {
+    release();
+    if (locks.get(key) === tail) {
+      locks.delete(key);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Diff Utility
+ *
+ * Produces unified diffs (the format used by `diff -u` and git) between two
+ * versions of a text file. Memory files are small, so a plain LCS table is used.
+ */
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+/**
+ * Split text into lines, ignoring the empty string after a trailing newline
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute the line-level edit script between two texts
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i][j] holds the LCS length of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: 'equal', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'delete', line: oldLines[i] });
+      i++;
+    } else {
+      ops.push({ type: 'insert', line: newLines[j] });
+      j++;
+    }
+  }
+  while (i < rows) {
+    ops.push({ type: 'delete', line: oldLines[i++] });
+  }
+  while (j < cols) {
+    ops.push({ type: 'insert', line: newLines[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Create a unified diff between two versions of a text
+ * @param oldText The original text
+ * @param newText The updated text
+ * @param oldLabel Label for the original (e.g. the file path, or /dev/null for a new file)
+ * @param newLabel Label for the updated text
+ * @param context Number of unchanged lines to show around each change
+ * @returns The unified diff, or an empty string if the texts are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string = oldLabel,
+  context: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Indexes of the ops that are changes
+  const changeIndexes = ops
+    .map((op, index) => (op.type === 'equal' ? -1 : index))
+    .filter(index => index !== -1);
+
+  // Only the trailing newline differs - nothing to show line by line
+  if (changeIndexes.length === 0) {
+    output.push('\\ No newline at end of file');
+    return `${output.join('\n')}\n`;
+  }
+
+  let hunkIndex = 0;
+  while (hunkIndex < changeIndexes.length) {
+    // Grow the hunk while the next change is close enough to share context
+    let lastChange = changeIndexes[hunkIndex];
+    let nextIndex = hunkIndex + 1;
+    while (nextIndex < changeIndexes.length && changeIndexes[nextIndex] - lastChange <= context * 2) {
+      lastChange = changeIndexes[nextIndex];
+      nextIndex++;
+    }
+
+    const start = Math.max(0, changeIndexes[hunkIndex] - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+
+    // Line numbers (1-based) where the hunk starts in each text
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== 'insert') oldLine++;
+      if (ops[k].type !== 'delete') newLine++;
+    }
+
+    const hunkLines: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = start; k < end; k++) {
+      const op = ops[k];
+      if (op.type === 'equal') {
+        hunkLines.push(` ${op.line}`);
+        oldCount++;
+        newCount++;
+      } else if (op.type === 'delete') {
+        hunkLines.push(`-${op.line}`);
+        oldCount++;
+      } else {
+        hunkLines.push(`+${op.line}`);
+        newCount++;
+      }
+    }
+
+    // Empty ranges point at the line before, as in GNU diff
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+    const newStart = newCount === 0 ? newLine - 1 : newLine;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunkLines);
+
+    hunkIndex = nextIndex;
+  }
+
+  return `${output.join('\n')}\n`;
+}
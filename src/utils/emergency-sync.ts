@@ -9,6 +9,10 @@ import path from 'path';
 import { homedir } from 'os';
 import { config } from '../config.js';
 import { ensureFileWritable } from '../platformSync.js';
+import { extractMemoryBlock, replaceMemoryBlock } from './memoryBlock.js';
+import { discoverProjects, getProjectDiscoveryOptions } from './projectDiscovery.js';
+import { guardSecrets } from './secretScanner.js';
+import { generateTemplate, parseTemplate, getPublicTemplate } from '../templateParser.js';
 
 /**
  * Perform emergency sync across all platforms
@@ -23,12 +27,18 @@ export async function emergencySync(): Promise<void> {
     const templateContent = await fs.readFile(masterPath, 'utf-8');
     
     // Get myAI Memory section
-    const myAIMemoryMatch = templateContent.match(/(# myAI Memory[\s\S]*)/);
-    if (!myAIMemoryMatch) {
+    const memoryBlock = extractMemoryBlock(templateContent);
+    if (!memoryBlock) {
       console.error('Could not find "# myAI Memory" section in the template');
       throw new Error('Missing myAI Memory section in master template');
     }
-    const memorySection = myAIMemoryMatch[1];
+    
+    // Apply the secrets policy once, as the same block is written everywhere,
+    // and leave private sections and items in the master template
+    const memorySection = guardSecrets(
+      generateTemplate(getPublicTemplate(parseTemplate(memoryBlock))),
+      'the synced memory files'
+    );
     
     // Sync to windsurf
     await syncToWindsurf(memorySection);
@@ -69,16 +79,8 @@ async function syncToWindsurf(memorySection: string): Promise<void> {
         // File might not exist, that's okay
       }
       
-      // Check if it has myAI Memory section
-      const hasMemorySection = windsurfContent.includes('# myAI Memory');
-      
-      if (hasMemorySection) {
-        // Replace existing section
-        windsurfContent = windsurfContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-      } else {
-        // Append memory section
-        windsurfContent = windsurfContent.trim() + '\n\n' + memorySection;
-      }
+      // Replace the delimited memory block, keeping content around it
+      windsurfContent = replaceMemoryBlock(windsurfContent, memorySection);
       
       // Write updated content
       await fs.writeFile(windsurfPath, windsurfContent);
@@ -113,16 +115,8 @@ async function syncToHomeDirectory(memorySection: string): Promise<void> {
         // File might not exist, that's okay
       }
       
-      // Check if it has myAI Memory section
-      const hasMemorySection = claudeContent.includes('# myAI Memory');
-      
-      if (hasMemorySection) {
-        // Replace existing section
-        claudeContent = claudeContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-      } else {
-        // Append memory section
-        claudeContent = claudeContent.trim() + '\n\n' + memorySection;
-      }
+      // Replace the delimited memory block, keeping content around it
+      claudeContent = replaceMemoryBlock(claudeContent, memorySection);
       
       // Write updated content
       await fs.writeFile(homeClaudeMdPath, claudeContent);
@@ -143,20 +137,21 @@ async function syncToProjects(memorySection: string): Promise<void> {
   const claudeProjectsPath = config.paths?.claudeProjectsPath || 
     path.join(homedir(), 'CascadeProjects');
   
-  console.log(`Syncing to project CLAUDE.md files in: ${claudeProjectsPath}`);
+  const discoveryOptions = getProjectDiscoveryOptions(claudeProjectsPath);
+  console.log(`Syncing to project CLAUDE.md files in: ${discoveryOptions.roots.join(', ')}`);
   
   try {
-    // Get all subdirectories
-    const dirEntries = await fs.readdir(claudeProjectsPath, { withFileTypes: true });
-    const directories = dirEntries.filter(entry => entry.isDirectory());
+    // Find the projects, honouring the configured globs, depth and opt-out markers
+    const directories = (await discoverProjects(discoveryOptions))
+      .filter(project => !project.skipped)
+      .map(project => project.path);
     
     console.log(`Found ${directories.length} project directories`);
     let successCount = 0;
     let failCount = 0;
     
     // Process each directory
-    for (const dir of directories) {
-      const dirPath = path.join(claudeProjectsPath, dir.name);
+    for (const dirPath of directories) {
       const claudeMdPath = path.join(dirPath, 'CLAUDE.md');
       
       try {
@@ -172,16 +167,8 @@ async function syncToProjects(memorySection: string): Promise<void> {
             // File might not exist, that's okay
           }
           
-          // Check if it has myAI Memory section
-          const hasMemorySection = claudeContent.includes('# myAI Memory');
-          
-          if (hasMemorySection) {
-            // Replace existing section
-            claudeContent = claudeContent.replace(/# myAI Memory[\s\S]*$/, memorySection);
-          } else {
-            // Append memory section
-            claudeContent = claudeContent.trim() + '\n\n' + memorySection;
-          }
+          // Replace the delimited memory block, keeping content around it
+          claudeContent = replaceMemoryBlock(claudeContent, memorySection);
           
           // Write updated content
           await fs.writeFile(claudeMdPath, claudeContent);
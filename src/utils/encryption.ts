@@ -0,0 +1,271 @@
+/**
+ * Encryption Utility
+ *
+ * Optional encryption at rest for the files that hold the whole memory: the
+ * template, its revision history, presets, the master file backups and the memory
+ * blocks in the sync ledger. With
+ * `encryption.enabled` set in config.json, these files are written as AES-256-GCM
+ * envelopes, keyed by the MYAI_PASSPHRASE environment variable or the contents of
+ * `encryption.keyFile`. Encrypted files are only ever decrypted in memory; the
+ * syncers get the decrypted template from the template service as before.
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { fileURLToPath } from 'url';
+import { config } from '../config.js';
+import { writeFileAtomic } from './templateRevision.js';
+
+// Marks encrypted content: "myai-encrypted:v1:<salt>:<iv>:<auth tag>:<ciphertext>", all base64
+const ENVELOPE_PREFIX = 'myai-encrypted:v1:';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+
+/**
+ * Thrown when encrypted data is read (or is to be encrypted) without a key
+ */
+export class EncryptionKeyError extends Error {
+  readonly code = 'ENOKEY';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+/**
+ * Thrown when encrypted data can't be decrypted, because the key is wrong or the data is damaged
+ */
+export class DecryptionError extends Error {
+  readonly code = 'EDECRYPT';
+
+  constructor(target: string) {
+    super(`Could not decrypt ${target}: the key is wrong or the data is damaged`);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Check whether content is an encrypted envelope
+ */
+export function isEncrypted(content: string): boolean {
+  return content.startsWith(ENVELOPE_PREFIX);
+}
+
+// Keys derived from a secret and salt, as scrypt is deliberately slow
+const derivedKeys = new Map<string, Buffer>();
+
+// Salt for everything this process encrypts, so its key is only derived once
+const writeSalt = randomBytes(16);
+
+/**
+ * Derive the AES key for a secret and salt
+ */
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  const cacheKey = `${salt.toString('base64')}:${createHash('sha256').update(secret).digest('base64')}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = scryptSync(secret, salt, 32);
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt text into a single-line envelope
+ * @param secret The passphrase or key file contents
+ */
+export function encryptText(plaintext: string, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret, writeSalt), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return ENVELOPE_PREFIX + [writeSalt, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => part.toString('base64'))
+    .join(':');
+}
+
+/**
+ * Decrypt an envelope made by encryptText
+ * @param target What is being decrypted, for the error message
+ * @throws DecryptionError if the secret is wrong or the envelope is damaged
+ */
+export function decryptText(envelope: string, secret: string, target = 'the data'): string {
+  const parts = envelope.trim().slice(ENVELOPE_PREFIX.length).split(':');
+  if (!isEncrypted(envelope) || parts.length !== 4) {
+    throw new DecryptionError(target);
+  }
+
+  const [salt, iv, tag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret, salt), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+  } catch (err) {
+    throw new DecryptionError(target);
+  }
+}
+
+/**
+ * Get the key from `encryption.keyFile`, or the MYAI_PASSPHRASE environment variable
+ * @returns The key, or null if neither is set
+ */
+export function getEncryptionKey(): string | null {
+  const keyFile = config.encryption.keyFile;
+  if (keyFile) {
+    return readKeyFile(keyFile);
+  }
+  return process.env.MYAI_PASSPHRASE || null;
+}
+
+/**
+ * Read a key file, expanding a leading tilde
+ */
+export function readKeyFile(keyFile: string): string {
+  const keyPath = keyFile === '~' || keyFile.startsWith('~/')
+    ? path.join(homedir(), keyFile.slice(1))
+    : path.resolve(keyFile);
+
+  const key = fs.readFileSync(keyPath, 'utf-8').trim();
+  if (!key) {
+    throw new EncryptionKeyError(`Key file ${keyPath} is empty`);
+  }
+  return key;
+}
+
+/**
+ * Get the key, failing if there is none
+ * @param reason Why the key is needed, for the error message
+ */
+function requireEncryptionKey(reason: string): string {
+  const key = getEncryptionKey();
+  if (!key) {
+    throw new EncryptionKeyError(
+      `${reason}, but no key is configured. Set the MYAI_PASSPHRASE environment variable or encryption.keyFile in config.json.`
+    );
+  }
+  return key;
+}
+
+/**
+ * Make sure there is a key if encryption is enabled, so a missing key is found on startup
+ * rather than when the template is next saved
+ * @throws EncryptionKeyError if encryption is enabled without a key
+ */
+export function checkEncryptionConfig(): void {
+  if (config.encryption.enabled) {
+    requireEncryptionKey('Encryption is enabled');
+  }
+}
+
+/**
+ * Prepare content to be written to a stored file, encrypting it if encryption is enabled
+ * @throws EncryptionKeyError if encryption is enabled without a key
+ */
+export function encodeStoredContent(content: string): string {
+  if (!config.encryption.enabled) {
+    return content;
+  }
+  return `${encryptText(content, requireEncryptionKey('Encryption is enabled'))}\n`;
+}
+
+/**
+ * Get the content of a stored file as written by encodeStoredContent
+ * Plaintext content is returned as it is, so enabling encryption doesn't lock out existing files.
+ * @param target The file being read, for error messages
+ * @throws EncryptionKeyError if the content is encrypted and there is no key
+ * @throws DecryptionError if the key is wrong
+ */
+export function decodeStoredContent(content: string, target: string): string {
+  if (!isEncrypted(content)) {
+    return content;
+  }
+  return decryptText(content, requireEncryptionKey(`${target} is encrypted`), target);
+}
+
+/**
+ * List the files that encryption applies to, as they are now
+ * @returns The whole-file paths, the revision logs (encrypted line by line) and the sync
+ *   ledger (whose memory blocks are encrypted one by one)
+ */
+export async function listStoredDataFiles(): Promise<{ files: string[]; lineFiles: string[]; ledgerFiles: string[] }> {
+  const listDir = async (dir: string, filter: (file: string) => boolean): Promise<string[]> => {
+    try {
+      return (await fsPromises.readdir(dir)).filter(filter).map(file => path.join(dir, file));
+    } catch (err) {
+      return [];
+    }
+  };
+
+  // Backups sit next to the master file (the safe CLI uses the one in the working directory)
+  const backupDirs = [config.paths.masterTemplate, path.join(process.cwd(), 'myAI Master.md')]
+    .map(masterPath => path.join(path.dirname(path.resolve(masterPath)), 'MasterBackups'))
+    .filter((dir, index, all) => all.indexOf(dir) === index);
+
+  const files = [
+    ...await listDir(DATA_DIR, file => file === 'template.md'),
+    ...await listDir(path.join(DATA_DIR, 'presets'), file => file.endsWith('.json'))
+  ];
+  for (const dir of backupDirs) {
+    files.push(...await listDir(dir, file => file.startsWith('myAI-Master-') && file.endsWith('.md')));
+  }
+
+  return {
+    files,
+    lineFiles: await listDir(path.join(DATA_DIR, 'history'), file => file === 'revisions.jsonl'),
+    ledgerFiles: await listDir(path.join(DATA_DIR, 'sync'), file => file === 'targets.json')
+  };
+}
+
+/**
+ * Rewrite every stored file with a different key, or in plaintext
+ * Encrypted files are decrypted with `fromKey`, and plaintext files are read as they are.
+ * @param fromKey The key the files are encrypted with now (null if none are)
+ * @param toKey The key to encrypt them with (null to leave them decrypted)
+ * @returns The files that were rewritten
+ */
+export async function reencryptStoredData(fromKey: string | null, toKey: string | null): Promise<string[]> {
+  const convert = (content: string, target: string): string => {
+    let plaintext = content;
+    if (isEncrypted(content)) {
+      if (!fromKey) {
+        throw new EncryptionKeyError(`${target} is encrypted, but no key is configured`);
+      }
+      plaintext = decryptText(content, fromKey, target);
+    }
+    return toKey ? encryptText(plaintext, toKey) : plaintext;
+  };
+
+  const { files, lineFiles, ledgerFiles } = await listStoredDataFiles();
+
+  // Decrypt everything before writing anything, so a wrong key leaves all files as they were
+  const updates: { filePath: string; content: string }[] = [];
+  for (const filePath of files) {
+    const content = await fsPromises.readFile(filePath, 'utf-8');
+    const converted = convert(content, filePath);
+    updates.push({ filePath, content: toKey ? `${converted}\n` : converted });
+  }
+  for (const filePath of lineFiles) {
+    const lines = (await fsPromises.readFile(filePath, 'utf-8')).split('\n').filter(line => line.trim());
+    updates.push({ filePath, content: lines.map(line => `${convert(line, filePath)}\n`).join('') });
+  }
+  for (const filePath of ledgerFiles) {
+    const ledger = JSON.parse(await fsPromises.readFile(filePath, 'utf-8'));
+    // A ledger from before memory blocks were stored by hash is rewritten by the next sync
+    if (typeof ledger.memories !== 'object' || ledger.memories === null) {
+      continue;
+    }
+    for (const [hash, memory] of Object.entries<string>(ledger.memories)) {
+      ledger.memories[hash] = convert(memory, filePath);
+    }
+    updates.push({ filePath, content: `${JSON.stringify(ledger, null, 2)}\n` });
+  }
+
+  for (const { filePath, content } of updates) {
+    await writeFileAtomic(filePath, content);
+  }
+  return updates.map(update => update.filePath);
+}
@@ -0,0 +1,143 @@
+/**
+ * Item Value Utility
+ *
+ * Items keep their value as the text written after the colon, so templates
+ * round-trip exactly. These helpers read that text as a typed value - "true" and
+ * "false", numbers and ISO dates, plus an item's list entries and sub-items - and
+ * turn typed values back into text that reads the same way.
+ */
+import { MemoryTemplate, TemplateSection, TemplateItem, ItemScalar, ItemValue } from '../types.js';
+
+// A plain decimal number; leading zeros (as in zip codes or phone numbers) stay text
+const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?$/;
+
+// An ISO 8601 date, optionally with a time
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Read text as a boolean, number, date or string
+ * Text in double quotes is always a string, without the quotes.
+ */
+export function parseItemScalar(text: string): ItemScalar {
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+
+  // Only numbers that read back as written, so long ids and "1.50" aren't rounded or reformatted
+  if (NUMBER_PATTERN.test(text) && String(Number(text)) === text) {
+    return Number(text);
+  }
+
+  if (DATE_PATTERN.test(text) && isCalendarDate(text)) {
+    return new Date(text);
+  }
+
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch (err) {
+      // Not a quoted string after all, e.g. "a" and "b"
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Check that an ISO date names a real day, rather than one Date rolls over ("2024-02-30" to March 1st)
+ */
+function isCalendarDate(text: string): boolean {
+  const [year, month, day] = text.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    && !isNaN(Date.parse(text));
+}
+
+/**
+ * Write a typed value as text that parseItemScalar reads back as the same value
+ * Strings that would read as another type are quoted.
+ */
+export function formatItemScalar(value: ItemScalar): string {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  return parseItemScalar(value) === value ? value : JSON.stringify(value);
+}
+
+/**
+ * Get the typed value of an item
+ * @returns Its sub-items as an object if it has any, otherwise its list if it has one,
+ *   otherwise its own value
+ */
+export function getItemValue(item: TemplateItem): ItemValue {
+  if (item.items?.length) {
+    return Object.fromEntries(item.items.map(subItem => [subItem.key, parseItemScalar(subItem.value)]));
+  }
+
+  if (item.list?.length) {
+    return item.list.map(parseItemScalar);
+  }
+
+  return parseItemScalar(item.value);
+}
+
+/**
+ * Create an item holding a typed value
+ * A list becomes list entries and an object becomes sub-items.
+ */
+export function createItem(key: string, value: ItemValue): TemplateItem {
+  if (Array.isArray(value)) {
+    return { key, value: '', list: value.map(formatItemScalar) };
+  }
+
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    return {
+      key,
+      value: '',
+      items: Object.entries(value).map(([subKey, subValue]) => ({ key: subKey, value: formatItemScalar(subValue) }))
+    };
+  }
+
+  return { key, value: formatItemScalar(value) };
+}
+
+/**
+ * Check that a value from a tool call is one an item can hold
+ * Dates arrive as ISO strings, which are read back as dates.
+ */
+export function isItemValue(value: unknown): value is ItemValue {
+  if (Array.isArray(value)) {
+    return value.every(isItemScalar);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.values(value).every(isItemScalar);
+  }
+
+  return isItemScalar(value);
+}
+
+/**
+ * Get the typed values of a section's items, by key
+ */
+export function getSectionValues(section: TemplateSection): Record<string, ItemValue> {
+  return Object.fromEntries(section.items.map(item => [item.key, getItemValue(item)]));
+}
+
+/**
+ * Get the typed values of every section's items, by section title and key
+ */
+export function getTemplateValues(template: MemoryTemplate): Record<string, Record<string, ItemValue>> {
+  return Object.fromEntries(template.sections.map(section => [section.title, getSectionValues(section)]));
+}
+
+function isItemScalar(value: unknown): value is ItemScalar {
+  return typeof value === 'string' || typeof value === 'boolean' || value instanceof Date ||
+    (typeof value === 'number' && Number.isFinite(value));
+}
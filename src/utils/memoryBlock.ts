@@ -0,0 +1,126 @@
+/**
+ * Memory Block Utility
+ *
+ * Reads and writes the myAI Memory block inside target files (CLAUDE.md,
+ * global_rules.md, Cursor rules, ...). The block is delimited by HTML comment
+ * markers so that anything the user writes before or after it survives a sync.
+ */
+
+/**
+ * Marker written on the line before the memory block
+ */
+export const MEMORY_BLOCK_START = '<!-- BEGIN myAI Memory -->';
+
+/**
+ * Marker written on the line after the memory block
+ */
+export const MEMORY_BLOCK_END = '<!-- END myAI Memory -->';
+
+// Files synced before markers existed own everything from this header to the end of the file
+const LEGACY_HEADER_PATTERN = /^# myAI Memory[ \t]*$/m;
+
+/**
+ * Wrap a memory section in the begin/end markers
+ * @param memorySection The "# myAI Memory" section to wrap
+ * @returns The delimited block, without a trailing newline
+ */
+export function wrapMemoryBlock(memorySection: string): string {
+  return `${MEMORY_BLOCK_START}\n${memorySection.trim()}\n${MEMORY_BLOCK_END}`;
+}
+
+/**
+ * Find the delimited block in a file's content
+ * @returns The start and end offsets of the block (end is exclusive), or null if there are no markers
+ */
+function findMarkedBlock(content: string): { start: number; end: number } | null {
+  const start = content.indexOf(MEMORY_BLOCK_START);
+  if (start === -1) {
+    return null;
+  }
+
+  const endMarker = content.indexOf(MEMORY_BLOCK_END, start + MEMORY_BLOCK_START.length);
+  if (endMarker === -1) {
+    return null;
+  }
+
+  return { start, end: endMarker + MEMORY_BLOCK_END.length };
+}
+
+/**
+ * Check whether content contains a memory block, delimited or legacy
+ */
+export function hasMemoryBlock(content: string): boolean {
+  return findMarkedBlock(content) !== null || LEGACY_HEADER_PATTERN.test(content);
+}
+
+/**
+ * Extract the memory section from a file's content
+ * @param content The full file content
+ * @returns The section between the markers (or from a legacy header to the end of the file), or null if none exists
+ */
+export function extractMemoryBlock(content: string): string | null {
+  const block = findMarkedBlock(content);
+  if (block) {
+    return content
+      .slice(block.start + MEMORY_BLOCK_START.length, block.end - MEMORY_BLOCK_END.length)
+      .trim();
+  }
+
+  const legacyMatch = LEGACY_HEADER_PATTERN.exec(content);
+  if (legacyMatch) {
+    return content.slice(legacyMatch.index).trim();
+  }
+
+  return null;
+}
+
+/**
+ * Replace (or add) the memory block in a file's content
+ *
+ * - Delimited block: only the text between the markers is replaced
+ * - Legacy "# myAI Memory" header: migrated once, by replacing the header and
+ *   everything after it (which earlier versions always owned) with a delimited block
+ * - No block: the delimited block is appended
+ *
+ * @param content The current file content
+ * @param memorySection The new "# myAI Memory" section
+ * @returns The updated file content
+ */
+export function replaceMemoryBlock(content: string, memorySection: string): string {
+  const newBlock = wrapMemoryBlock(memorySection);
+
+  const block = findMarkedBlock(content);
+  if (block) {
+    return content.slice(0, block.start) + newBlock + content.slice(block.end);
+  }
+
+  const legacyMatch = LEGACY_HEADER_PATTERN.exec(content);
+  const before = (legacyMatch ? content.slice(0, legacyMatch.index) : content).trimEnd();
+
+  return before ? `${before}\n\n${newBlock}\n` : `${newBlock}\n`;
+}
+
+/**
+ * Remove the memory block from a file's content, leaving the user's own text
+ * The block's line breaks are kept, so the remaining text stays on the same lines.
+ * @param content The full file content
+ * @returns The content with the block (or a legacy section) blanked out, or unchanged if there is no block
+ */
+export function removeMemoryBlock(content: string): string {
+  const block = findMarkedBlock(content);
+  if (block) {
+    return content.slice(0, block.start) + blankLines(content.slice(block.start, block.end)) + content.slice(block.end);
+  }
+
+  const legacyMatch = LEGACY_HEADER_PATTERN.exec(content);
+  return legacyMatch
+    ? content.slice(0, legacyMatch.index) + blankLines(content.slice(legacyMatch.index))
+    : content;
+}
+
+/**
+ * Replace text with just its line breaks
+ */
+function blankLines(text: string): string {
+  return text.replace(/[^\n]/g, '');
+}
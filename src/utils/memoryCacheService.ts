@@ -8,7 +8,7 @@
 
 import { anthropicService } from './anthropicService.js';
 import { templateService } from '../services/templateService.js';
-import { generateTemplate } from '../templateParser.js';
+import { generateTemplate, generateSection } from '../templateParser.js';
 import { config } from '../config.js';
 
 // Cache for template and sections
@@ -77,15 +77,8 @@ export async function getCachedSection(sectionName: string): Promise<string> {
       throw new Error(`Section '${sectionName}' not found`);
     }
     
-    // Format section for display
-    let sectionText = `# ${section.title}\n`;
-    if (section.description) {
-      sectionText += `## ${section.description}\n`;
-    }
-    
-    for (const item of section.items) {
-      sectionText += `-~- ${item.key}: ${item.value}\n`;
-    }
+    // Format section for display, with list entries and sub-items
+    const sectionText = generateSection(section);
     
     // Update cache
     sectionCache.set(sectionName, {
@@ -0,0 +1,227 @@
+/**
+ * Onboarding Plan Utility
+ *
+ * New users usually have preferences written long before they set up myAI Memory:
+ * in ~/.claude/CLAUDE.md, project CLAUDE.md files or Windsurf's global_rules.md.
+ * The bullets in those files (outside any myAI Memory block) become candidate items,
+ * sorted into sections with the natural language parser's section keywords, and the
+ * plan lists what merging them into the template would add before anything is saved.
+ */
+import { MemoryTemplate, PlatformType, TemplateItem } from '../types.js';
+import { getItemText } from '../templateParser.js';
+import { sectionKeywords, determineBestSection } from '../naturalLanguageParser.js';
+import { removeMemoryBlock } from './memoryBlock.js';
+
+// A file whose own text (outside the memory block) is scanned for preferences
+export interface OnboardingSource {
+  platform: PlatformType;
+  path: string;
+  content: string;
+}
+
+// A bullet, or group of bullets, read from a file as an item
+export interface ExtractedItem {
+  line: number; // 1-based line of the (first) bullet
+  heading?: string; // The heading the bullet was under
+  item: TemplateItem;
+}
+
+// What merging a candidate does: add it, or leave it out because the template already has
+// the key with the same value ("duplicate") or another value ("conflict"), or because it was skipped
+export type OnboardingStatus = 'new' | 'duplicate' | 'conflict' | 'skipped';
+
+export interface OnboardingCandidate extends ExtractedItem {
+  id: number; // 1-based, to skip the candidate when the plan is applied
+  platform: PlatformType;
+  path: string;
+  section: string; // The section the item goes into
+  status: OnboardingStatus;
+  existing?: string; // The value already in the template, for a conflict
+}
+
+export interface OnboardingPlan {
+  candidates: OnboardingCandidate[];
+  template: MemoryTemplate; // The template with the new candidates added
+}
+
+// Key for bullets that aren't "Key: Value" and aren't under a heading
+export const DEFAULT_ONBOARDING_KEY = 'Notes';
+
+// The start or end of a fenced code block: "```" or "~~~"
+const CODE_FENCE_PATTERN = /^(```|~~~)/;
+
+// A markdown heading: "## Testing"
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*$/;
+
+// A bullet or numbered line, with its indentation: "- Use pnpm", "  * Entry", "1. Step"
+const BULLET_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+
+// A bullet that reads as a short key and a value: "Editor: VS Code", "**Editor**: VS Code", "**Editor:** VS Code"
+// A colon must be followed by a space, so URLs and times aren't split
+const KEY_VALUE_PATTERN = /^(?:\*\*([^*:]+)\*\*\s*:|\*\*([^*:]+):\*\*|([^:*`]{1,60}?)\s*:)\s+(\S.*)$/;
+
+/**
+ * Read the bullets in a file's own text as items
+ * "Key: Value" bullets become items of their own. Other bullets are collected, in order,
+ * as the list of an item named after the heading they are under. Nested bullets are added
+ * to the list of the item above them. Code blocks and the myAI Memory block are ignored.
+ */
+export function extractCandidateItems(content: string): ExtractedItem[] {
+  const lines = removeMemoryBlock(content).split('\n');
+  const extracted: ExtractedItem[] = [];
+  let heading: string | undefined;
+  let group: ExtractedItem | undefined; // Collects the plain bullets under the current heading
+  let parent: ExtractedItem | undefined; // Receives nested bullets
+  let inCodeBlock = false;
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+
+    if (CODE_FENCE_PATTERN.test(trimmed)) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) {
+      return;
+    }
+
+    const headingMatch = HEADING_PATTERN.exec(trimmed);
+    if (headingMatch) {
+      heading = stripEmphasis(headingMatch[1]) || undefined;
+      group = undefined;
+      parent = undefined;
+      return;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    const text = bullet?.[2].trim();
+    if (!bullet || !text) {
+      return;
+    }
+
+    if (bullet[1] !== '' && parent) {
+      parent.item.list = [...(parent.item.list ?? []), text];
+      return;
+    }
+
+    const keyValue = KEY_VALUE_PATTERN.exec(text);
+    if (keyValue) {
+      parent = {
+        line: index + 1,
+        ...(heading ? { heading } : {}),
+        item: { key: (keyValue[1] ?? keyValue[2] ?? keyValue[3]).trim(), value: keyValue[4].trim() }
+      };
+      extracted.push(parent);
+      return;
+    }
+
+    if (!group) {
+      group = {
+        line: index + 1,
+        ...(heading ? { heading } : {}),
+        item: { key: toKey(heading ?? DEFAULT_ONBOARDING_KEY), value: '', list: [] }
+      };
+      extracted.push(group);
+    }
+    group.item.list!.push(text);
+    parent = group;
+  });
+
+  return extracted;
+}
+
+/**
+ * Plan merging the items found in the given files into the template
+ * Items are only added: a key the template (or an earlier file) already has in the same
+ * section is left as it is, and reported as a duplicate or conflict for review.
+ * @param skip Ids of candidates to leave out
+ */
+export function planOnboardingImport(
+  template: MemoryTemplate,
+  sources: OnboardingSource[],
+  skip: number[] = []
+): OnboardingPlan {
+  const candidates: OnboardingCandidate[] = [];
+  let merged = template;
+
+  for (const source of sources) {
+    for (const extracted of extractCandidateItems(source.content)) {
+      const id = candidates.length + 1;
+      const section = chooseSection(template, extracted);
+      const existing = merged.sections
+        .find(s => s.title.toLowerCase() === section.toLowerCase())
+        ?.items.find(item => item.key.toLowerCase() === extracted.item.key.toLowerCase());
+
+      const candidate: OnboardingCandidate = {
+        id,
+        platform: source.platform,
+        path: source.path,
+        ...extracted,
+        section,
+        status: 'new'
+      };
+
+      if (existing) {
+        const existingText = getItemText(existing);
+        candidate.status = existingText === getItemText(extracted.item) ? 'duplicate' : 'conflict';
+        if (candidate.status === 'conflict') {
+          candidate.existing = existingText;
+        }
+      } else if (skip.includes(id)) {
+        candidate.status = 'skipped';
+      } else {
+        merged = addItem(merged, section, extracted.item);
+      }
+
+      candidates.push(candidate);
+    }
+  }
+
+  return { candidates, template: merged };
+}
+
+/**
+ * Pick the section for an item: the section its heading names, if the template or the
+ * section keywords have one by that title, or else the section whose keywords it matches best
+ */
+function chooseSection(template: MemoryTemplate, extracted: ExtractedItem): string {
+  if (extracted.heading) {
+    const heading = extracted.heading.toLowerCase();
+    const named = [...template.sections.map(s => s.title), ...Object.keys(sectionKeywords)]
+      .find(title => title.toLowerCase() === heading);
+    if (named) {
+      return named;
+    }
+  }
+
+  const text = [extracted.heading, extracted.item.key, getItemText(extracted.item)].filter(Boolean).join(' ');
+  return determineBestSection(text);
+}
+
+/**
+ * Add an item to the end of a section, adding the section to the end of the template if needed
+ */
+function addItem(template: MemoryTemplate, sectionName: string, item: TemplateItem): MemoryTemplate {
+  const exists = template.sections.some(s => s.title.toLowerCase() === sectionName.toLowerCase());
+  const sections = exists
+    ? template.sections.map(s => s.title.toLowerCase() === sectionName.toLowerCase()
+      ? { ...s, items: [...s.items, { ...item }] }
+      : s)
+    : [...template.sections, { title: sectionName, description: '', items: [{ ...item }] }];
+
+  return { ...template, sections };
+}
+
+/**
+ * Remove markdown emphasis around text: "**Testing**" -> "Testing"
+ */
+function stripEmphasis(text: string): string {
+  return text.replace(/^[*_`]+|[*_`]+$/g, '').trim();
+}
+
+/**
+ * Make a heading usable as an item key, which can't contain a colon
+ */
+function toKey(heading: string): string {
+  return heading.replace(/:/g, '').trim() || DEFAULT_ONBOARDING_KEY;
+}
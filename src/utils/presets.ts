@@ -0,0 +1,102 @@
+/**
+ * Preset Utility
+ *
+ * Works out what loading a preset does to the template:
+ * - A preset can extend another one ("extends"), starting from its sections and
+ *   overriding or adding sections and items of its own
+ * - A partial preset ("partial": true) only replaces the sections it names, and leaves
+ *   the rest of the template alone
+ * - Any preset can be merged into the template instead, keeping everything the preset
+ *   doesn't mention
+ */
+import { MemoryTemplate, Preset, PresetLoadMode, TemplateSection } from '../types.js';
+import { getTemplateLayout, mergeTemplates, validateTemplate } from '../templateParser.js';
+
+// Reads a preset file by name, as parsed JSON
+export type PresetReader = (presetName: string) => Promise<unknown>;
+
+/**
+ * Read a preset and the presets it extends, and combine them into one
+ * @returns The preset with the sections of every preset it extends merged under its own
+ * @throws Error if a preset can't be read, isn't a valid preset, or extends itself
+ */
+export async function resolvePreset(presetName: string, readPreset: PresetReader): Promise<Preset> {
+  const chain: Preset[] = [];
+  const names: string[] = [];
+  let name: string | undefined = presetName;
+
+  while (name !== undefined) {
+    if (names.some(n => n.toLowerCase() === name!.toLowerCase())) {
+      throw new Error(`Preset "${presetName}" extends itself: ${[...names, name].join(' -> ')}`);
+    }
+    names.push(name);
+
+    const preset = toPreset(await readPreset(name), name);
+    chain.unshift(preset);
+    name = preset.extends;
+  }
+
+  const own = chain[chain.length - 1];
+  const sections = chain.reduce<MemoryTemplate>(
+    (merged, preset) => mergeTemplates(merged, { sections: preset.sections }),
+    { sections: [] }
+  ).sections;
+
+  return { name: own.name, sections, ...(own.partial ? { partial: true } : {}) };
+}
+
+/**
+ * Apply a preset to a template
+ * @param mode "replace" swaps the template's sections for the preset's (only the ones the
+ *   preset has, if it is partial); "merge" adds the preset's sections and items, with its values winning
+ */
+export function applyPreset(template: MemoryTemplate, preset: Preset, mode: PresetLoadMode = 'replace'): MemoryTemplate {
+  if (mode === 'merge') {
+    return mergeTemplates(template, { sections: preset.sections });
+  }
+
+  const layout = getTemplateLayout(template);
+  if (!preset.partial) {
+    return { ...layout, sections: preset.sections };
+  }
+
+  const sections = template.sections.map(section => findSection(preset.sections, section.title) ?? section);
+  const added = preset.sections.filter(section => !findSection(template.sections, section.title));
+  return { ...layout, sections: [...sections, ...added] };
+}
+
+/**
+ * Find a section by title (case-insensitive)
+ */
+function findSection(sections: TemplateSection[], title: string): TemplateSection | undefined {
+  return sections.find(section => section.title.toLowerCase() === title.toLowerCase());
+}
+
+/**
+ * Check a parsed preset file
+ * A preset that extends another one doesn't need sections of its own.
+ */
+function toPreset(data: unknown, presetName: string): Preset {
+  const preset = data as Partial<Preset> | null;
+  if (typeof preset !== 'object' || preset === null || Array.isArray(preset)) {
+    throw new Error(`Preset "${presetName}" must be an object`);
+  }
+  if (preset.extends !== undefined && (typeof preset.extends !== 'string' || !preset.extends.trim())) {
+    throw new Error(`Preset "${presetName}" has an "extends" that isn't a preset name`);
+  }
+  if (preset.partial !== undefined && typeof preset.partial !== 'boolean') {
+    throw new Error(`Preset "${presetName}" has a "partial" that isn't true or false`);
+  }
+
+  const sections = preset.sections ?? (preset.extends ? [] : undefined);
+  if (!Array.isArray(sections) || !validateTemplate({ sections })) {
+    throw new Error(`Preset "${presetName}" doesn't have a valid "sections" list`);
+  }
+
+  return {
+    name: typeof preset.name === 'string' ? preset.name : presetName,
+    sections,
+    ...(preset.extends ? { extends: preset.extends } : {}),
+    ...(preset.partial ? { partial: true } : {})
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Project Discovery Utility
+ *
+ * Finds the project directories that receive a CLAUDE.md (and the other per-project
+ * memory files). Projects are searched for under one or more roots, down to a
+ * configurable depth, and can be filtered with include/exclude globs, limited to
+ * git repositories, or opted out individually with a marker file.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { config } from '../config.js';
+
+/**
+ * Name of the marker file that opts a project out of syncing
+ */
+export const PROJECT_OPT_OUT_FILE = '.myai-nosync';
+
+export interface ProjectDiscoveryOptions {
+  roots: string[]; // Folders to search for projects
+  include?: string[]; // Globs a project's path (relative to its root) must match, if any are given
+  exclude?: string[]; // Globs for projects to skip
+  maxDepth?: number; // How many levels below a root to search (default 1, only the root's subdirectories)
+  requireGit?: boolean; // Only treat directories containing .git as projects
+}
+
+export interface DiscoveredProject {
+  path: string;
+  root: string;
+  skipped?: string; // Why the project isn't synced, if it isn't
+}
+
+/**
+ * Resolve a root, expanding a leading tilde
+ */
+function resolveRoot(root: string): string {
+  if (root === '~' || root.startsWith('~/')) {
+    return path.join(homedir(), root.slice(1));
+  }
+  return path.resolve(root);
+}
+
+/**
+ * Convert a glob to a regular expression
+ * `*` and `?` don't cross directory separators, `**` matches any number of directories
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        pattern += '(?:.*/)?';
+      } else {
+        pattern += '.*';
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Check whether a project path matches a glob
+ * Like .gitignore, a glob without a slash is matched against the directory name at
+ * any depth, and one with a slash against the whole path relative to the root.
+ * @param relativePath The project's path relative to its root
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalizedPath = relativePath.split(path.sep).join('/');
+  const normalizedGlob = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+  const target = normalizedGlob.includes('/') ? normalizedPath : path.posix.basename(normalizedPath);
+  return globToRegExp(normalizedGlob).test(target);
+}
+
+/**
+ * Check whether a path exists
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+/**
+ * Get the discovery options from config.json
+ * @param defaultRoot Root to use when no roots are configured (the syncer's projects path)
+ */
+export function getProjectDiscoveryOptions(defaultRoot?: string): ProjectDiscoveryOptions {
+  const projects = config.projects;
+  const roots = projects.roots?.length
+    ? projects.roots
+    : [defaultRoot || config.paths?.claudeProjectsPath || path.join(homedir(), 'CascadeProjects')];
+
+  return {
+    roots,
+    include: projects.include,
+    exclude: projects.exclude,
+    maxDepth: projects.maxDepth,
+    requireGit: projects.requireGit
+  };
+}
+
+/**
+ * Search a directory for projects
+ */
+async function searchDirectory(
+  root: string,
+  directory: string,
+  depth: number,
+  options: ProjectDiscoveryOptions,
+  projects: DiscoveredProject[]
+): Promise<void> {
+  const maxDepth = options.maxDepth ?? 1;
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory() || entry.name === '.git') {
+      continue;
+    }
+
+    const dirPath = path.join(directory, entry.name);
+    const relativePath = path.relative(root, dirPath);
+
+    // Excluded and opted-out directories aren't searched any further either
+    const excludedBy = options.exclude?.find(glob => matchesGlob(relativePath, glob));
+    if (excludedBy) {
+      projects.push({ path: dirPath, root, skipped: `excluded by "${excludedBy}"` });
+      continue;
+    }
+
+    if (await pathExists(path.join(dirPath, PROJECT_OPT_OUT_FILE))) {
+      projects.push({ path: dirPath, root, skipped: `opted out with ${PROJECT_OPT_OUT_FILE}` });
+      continue;
+    }
+
+    const isRepository = await pathExists(path.join(dirPath, '.git'));
+    if (isRepository || !options.requireGit) {
+      const included = !options.include?.length || options.include.some(glob => matchesGlob(relativePath, glob));
+      projects.push(included
+        ? { path: dirPath, root }
+        : { path: dirPath, root, skipped: 'not matched by the include globs' });
+    }
+
+    // A repository is a project of its own, so nested directories aren't projects
+    if (!isRepository && depth < maxDepth && entry.name !== 'node_modules') {
+      await searchDirectory(root, dirPath, depth + 1, options, projects);
+    }
+  }
+}
+
+/**
+ * Find the project directories under the roots
+ * Roots that don't exist are skipped, unless none of them do.
+ * @returns Every project found, with a reason for those that are skipped
+ */
+export async function discoverProjects(options: ProjectDiscoveryOptions): Promise<DiscoveredProject[]> {
+  const projects: DiscoveredProject[] = [];
+  let rootFound = false;
+  let lastError: unknown = null;
+
+  for (const root of options.roots.map(resolveRoot)) {
+    try {
+      await searchDirectory(root, root, 1, options, projects);
+      rootFound = true;
+    } catch (err) {
+      console.error(`Error searching projects directory ${root}:`, err);
+      lastError = err;
+    }
+  }
+
+  if (!rootFound && lastError) {
+    throw lastError;
+  }
+
+  // The same project can be under two roots
+  return projects.filter((project, index) => projects.findIndex(p => p.path === project.path) === index);
+}
+
+/**
+ * Format discovered projects for display
+ */
+export function formatDiscoveredProjects(options: ProjectDiscoveryOptions, projects: DiscoveredProject[]): string {
+  const synced = projects.filter(project => !project.skipped);
+  const skipped = projects.filter(project => project.skipped);
+
+  const lines = [
+    `Project roots: ${options.roots.join(', ')}`,
+    `Max depth: ${options.maxDepth ?? 1}, only git repositories: ${options.requireGit ? 'yes' : 'no'}`,
+    '',
+    `Projects that will be synced (${synced.length}):`,
+    ...synced.map(project => `  ${project.path}`)
+  ];
+
+  if (skipped.length > 0) {
+    lines.push('', `Skipped (${skipped.length}):`, ...skipped.map(project => `  ${project.path} - ${project.skipped}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,95 @@
+/**
+ * Project Overlay Utility
+ *
+ * A project can keep its own additions to the memory (e.g. "this repo uses pnpm")
+ * in an overlay file at its root. The overlay uses the same markdown format as the
+ * master template and is merged on top of it when the project's CLAUDE.md is synced.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { MemoryTemplate } from '../types.js';
+import { parseTemplate, generateTemplate, validateTemplate, mergeTemplates } from '../templateParser.js';
+import { guardSecrets } from './secretScanner.js';
+
+/**
+ * Name of the overlay file in a project root
+ */
+export const PROJECT_OVERLAY_FILE = '.myai-memory.md';
+
+/**
+ * Resolve a project path, expanding a leading tilde
+ */
+function resolveProjectPath(projectPath: string): string {
+  if (projectPath === '~' || projectPath.startsWith('~/')) {
+    return path.join(homedir(), projectPath.slice(1));
+  }
+  return path.resolve(projectPath);
+}
+
+/**
+ * Get the path of a project's overlay file
+ * @param projectPath The project root
+ */
+export function getProjectOverlayPath(projectPath: string): string {
+  return path.join(resolveProjectPath(projectPath), PROJECT_OVERLAY_FILE);
+}
+
+/**
+ * Read a project's overlay
+ * @param projectPath The project root
+ * @returns The parsed overlay, or null if the project has none
+ */
+export async function readProjectOverlay(projectPath: string): Promise<MemoryTemplate | null> {
+  try {
+    const content = await fs.readFile(getProjectOverlayPath(projectPath), 'utf-8');
+    return parseTemplate(content);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Replace a project's overlay
+ * @param projectPath The project root, which must already exist
+ * @param content The overlay in template markdown format
+ * @returns The overlay as written, with secrets redacted under the "redact" policy
+ * @throws SecretDetectedError if the overlay has secrets and the secrets policy is "reject"
+ */
+export async function writeProjectOverlay(projectPath: string, content: string): Promise<MemoryTemplate> {
+  const projectRoot = resolveProjectPath(projectPath);
+
+  const stats = await fs.stat(projectRoot).catch(() => null);
+  if (!stats || !stats.isDirectory()) {
+    throw new Error(`Project directory not found: ${projectRoot}`);
+  }
+
+  const overlay = parseTemplate(content);
+  if (!validateTemplate(overlay)) {
+    throw new Error('Invalid overlay format');
+  }
+
+  // The overlay lives in the project itself, so it's treated like a synced file
+  const overlayPath = getProjectOverlayPath(projectRoot);
+  const overlayContent = guardSecrets(generateTemplate(overlay), overlayPath);
+  await fs.writeFile(overlayPath, overlayContent, 'utf-8');
+  return parseTemplate(overlayContent);
+}
+
+/**
+ * Merge a project's overlay into the memory section synced to that project
+ * @param projectPath The project root
+ * @param memorySection The "# myAI Memory" section from the master template
+ * @returns The merged section, or the original section if the project has no overlay
+ */
+export async function applyProjectOverlay(projectPath: string, memorySection: string): Promise<string> {
+  const overlay = await readProjectOverlay(projectPath);
+  if (!overlay || overlay.sections.length === 0) {
+    return memorySection;
+  }
+
+  return generateTemplate(mergeTemplates(parseTemplate(memorySection), overlay));
+}
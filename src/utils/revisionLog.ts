@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TemplateRevision } from '../types.js';
+import { EncryptionKeyError, DecryptionError, encodeStoredContent, decodeStoredContent } from './encryption.js';
+
+/**
+ * Append-only history of the memory template
+ * Every saved change is stored as one JSON line holding the full template, so any
+ * revision can be diffed or restored. Rolling back appends a new revision rather
+ * than removing later ones. With encryption enabled, each line is encrypted on its own.
+ */
+export class RevisionLog {
+  private logPath: string;
+
+  constructor(logPath: string) {
+    this.logPath = logPath;
+  }
+
+  /**
+   * List all revisions, oldest first
+   */
+  async list(): Promise<TemplateRevision[]> {
+    let logContent: string;
+    try {
+      logContent = await fs.readFile(this.logPath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const revisions: TemplateRevision[] = [];
+    for (const line of logContent.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        revisions.push(JSON.parse(decodeStoredContent(line, this.logPath)) as TemplateRevision);
+      } catch (err) {
+        // Without the right key the whole history is unreadable, rather than empty
+        if (err instanceof EncryptionKeyError || err instanceof DecryptionError) throw err;
+        // A partially written line (e.g. after a crash) shouldn't hide the rest of the history
+        console.error(`Skipping unreadable revision in ${this.logPath}`);
+      }
+    }
+    return revisions;
+  }
+
+  /**
+   * Get a single revision
+   * @returns The revision, or null if there is no revision with that id
+   */
+  async get(id: number): Promise<TemplateRevision | null> {
+    const revisions = await this.list();
+    return revisions.find(revision => revision.id === id) || null;
+  }
+
+  /**
+   * Get the most recent revision
+   */
+  async latest(): Promise<TemplateRevision | null> {
+    const revisions = await this.list();
+    return revisions.length > 0 ? revisions[revisions.length - 1] : null;
+  }
+
+  /**
+   * Record a new revision of the template
+   * Saves that don't change the template are not recorded
+   * @param content The full template markdown
+   * @param source The tool or command that made the change
+   * @returns The new revision, or the latest one if nothing changed
+   */
+  async append(content: string, source: string): Promise<TemplateRevision> {
+    const latest = await this.latest();
+    if (latest && latest.content === content) {
+      return latest;
+    }
+
+    const revision: TemplateRevision = {
+      id: latest ? latest.id + 1 : 1,
+      timestamp: new Date().toISOString(),
+      source,
+      content
+    };
+
+    await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+    await fs.appendFile(this.logPath, `${encodeStoredContent(JSON.stringify(revision)).trimEnd()}\n`, 'utf-8');
+    return revision;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Secret Scanner Utility
+ *
+ * The memory is copied into every project's CLAUDE.md and the other synced files,
+ * so a single "remember my API key is ..." would leak the key into every repo.
+ * Template writes and syncs are scanned for common token formats, credential
+ * assignments and high-entropy strings, and the `secrets.policy` in config.json
+ * decides what happens when one is found:
+ * - "redact" (default): the template keeps the value, but synced files get [REDACTED] instead
+ * - "reject": the template write or the sync fails
+ * - "off": nothing is scanned
+ */
+import { config } from '../config.js';
+
+export type SecretPolicy = 'reject' | 'redact' | 'off';
+
+/**
+ * Text that replaces a secret in redacted output
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Something that looks like a secret
+ */
+export interface SecretFinding {
+  kind: string; // What it looks like, e.g. "GitHub token"
+  line: number; // 1-based line of the text it was found on
+  start: number; // Offset of the secret in the text
+  end: number; // Offset just past the secret
+  preview: string; // The start of the secret, enough to recognize it without repeating it
+}
+
+/**
+ * Thrown when a write is rejected because it contains what looks like a secret
+ */
+export class SecretDetectedError extends Error {
+  readonly code = 'ESECRET';
+
+  constructor(public readonly findings: SecretFinding[], target: string) {
+    super(
+      `Refusing to write ${target}, it contains what looks like a secret: ` +
+      findings.map(f => `${f.kind} on line ${f.line} (${f.preview})`).join(', ') +
+      '. Remove it, or set secrets.policy to "redact" in config.json to keep it out of synced files only.'
+    );
+    this.name = 'SecretDetectedError';
+  }
+}
+
+/**
+ * Token formats, each matching the secret itself (or its first capture group)
+ */
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'Private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+  { kind: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { kind: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'Stripe key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { kind: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  // "password: hunter22", "API key is abc123..." - only values with a digit, so "secret: none" isn't flagged
+  {
+    kind: 'Credential',
+    pattern: /\b(?:password|passwd|passphrase|secret|api[ _-]?key|access[ _-]?token|auth[ _-]?token|client[ _-]?secret)\s*(?:is|=|:)\s*["']?((?=[^\s"']*\d)[^\s"']{6,})/gi
+  }
+];
+
+// Candidate strings for the entropy check
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]{24,}/g;
+
+// A candidate that reads as a file path: from the root ("/Users/...", "~/...", "./...") or with
+// several segments ("src/utils/file"), rather than a token that happens to contain a "/"
+const PATH_LIKE_PATTERN = /^\/|\/[^/]*\//;
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Check whether a string looks like a random token rather than a word or identifier
+ */
+function isHighEntropy(value: string): boolean {
+  if (!/\d/.test(value) || !/[A-Za-z]/.test(value)) {
+    return false;
+  }
+  // Hex has fewer symbols to choose from, so its entropy is naturally lower
+  return /^[0-9a-f]+$/i.test(value)
+    ? value.length >= 32 && shannonEntropy(value) >= 3.5
+    : shannonEntropy(value) >= 4.0;
+}
+
+/**
+ * Get the 1-based line an offset is on
+ */
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Find what looks like secrets in text
+ * @param allowlist Values that are known not to be secrets
+ * @returns The findings, in the order they appear, without overlaps
+ */
+export function scanForSecrets(text: string, allowlist: string[] = config.secrets.allowlist): SecretFinding[] {
+  const candidates: Omit<SecretFinding, 'line' | 'preview'>[] = [];
+
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[1] ?? match[0];
+      const start = match.index! + match[0].lastIndexOf(value);
+      candidates.push({ kind, start, end: start + value.length });
+    }
+  }
+
+  // Anything else that looks random, except in URLs, where long paths and ids are common
+  for (const match of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+    const wordStart = Math.max(text.lastIndexOf(' ', match.index!), text.lastIndexOf('\n', match.index!)) + 1;
+    if (text.slice(wordStart, match.index! + match[0].length).includes('://')) {
+      continue;
+    }
+    // Each part of a path is checked on its own, so a long path isn't mistaken for a token
+    const parts = PATH_LIKE_PATTERN.test(match[0]) ? match[0].split('/') : [match[0]];
+    let start = match.index!;
+    for (const part of parts) {
+      if (part.length >= 24 && isHighEntropy(part)) {
+        candidates.push({ kind: 'High-entropy string', start, end: start + part.length });
+      }
+      start += part.length + 1;
+    }
+  }
+
+  // Known token formats were added first, so they win over an overlapping entropy match
+  const findings: SecretFinding[] = [];
+  for (const candidate of candidates) {
+    const value = text.slice(candidate.start, candidate.end);
+    if (allowlist.includes(value) || findings.some(f => candidate.start < f.end && f.start < candidate.end)) {
+      continue;
+    }
+    findings.push({
+      ...candidate,
+      line: lineAt(text, candidate.start),
+      preview: `${value.slice(0, 4)}…`
+    });
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace secrets in text with [REDACTED]
+ * @param findings The secrets to replace (found with scanForSecrets if not given)
+ */
+export function redactSecrets(text: string, findings: SecretFinding[] = scanForSecrets(text)): string {
+  let redacted = text;
+  // Replace from the end, so earlier offsets stay valid
+  for (const finding of [...findings].sort((a, b) => b.start - a.start)) {
+    redacted = redacted.slice(0, finding.start) + REDACTED + redacted.slice(finding.end);
+  }
+  return redacted;
+}
+
+/**
+ * Get the secrets policy from config.json
+ */
+export function getSecretPolicy(): SecretPolicy {
+  const policy = config.secrets.policy;
+  return policy === 'reject' || policy === 'off' ? policy : 'redact';
+}
+
+/**
+ * Check content about to be saved as the template (or an overlay of it)
+ * The "redact" policy lets the write through, as the value is redacted when synced.
+ * @param target What is being written, for the error message (e.g. "the template")
+ * @throws SecretDetectedError if the content has secrets and the policy is "reject"
+ */
+export function assertNoSecrets(content: string, target: string): void {
+  const policy = getSecretPolicy();
+  if (policy === 'off') {
+    return;
+  }
+
+  const findings = scanForSecrets(content);
+  if (findings.length === 0) {
+    return;
+  }
+
+  if (policy === 'reject') {
+    throw new SecretDetectedError(findings, target);
+  }
+  console.error(`${target} contains what looks like a secret (${findings.map(f => f.kind).join(', ')}), it will be redacted in synced files`);
+}
+
+/**
+ * Apply the secrets policy to memory about to be written to a synced file
+ * @param target The file being written, for the error message
+ * @returns The memory to write, with secrets redacted under the "redact" policy
+ * @throws SecretDetectedError if the memory has secrets and the policy is "reject"
+ */
+export function guardSecrets(memory: string, target: string): string {
+  const policy = getSecretPolicy();
+  if (policy === 'off') {
+    return memory;
+  }
+
+  const findings = scanForSecrets(memory);
+  if (findings.length === 0) {
+    return memory;
+  }
+
+  if (policy === 'reject') {
+    throw new SecretDetectedError(findings, target);
+  }
+  return redactSecrets(memory, findings);
+}
@@ -0,0 +1,210 @@
+/**
+ * Sync State Utility
+ *
+ * A ledger of what each sync last wrote to each target file: the memory block, a
+ * hash of the whole file and when it was written. Targets that already hold the
+ * right content can be skipped, a target whose hash no longer matches has been
+ * modified outside of sync, and edits made directly in its memory block (e.g. a
+ * teammate tweaking a project's CLAUDE.md) can be merged back into the master
+ * template instead of being overwritten by the next sync.
+ *
+ * Every target usually holds the same memory block, so each block is stored once,
+ * keyed by its hash, and encrypted like the template when encryption is enabled.
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { writeFileAtomic, withFileLock } from './templateRevision.js';
+import { encodeStoredContent, decodeStoredContent } from './encryption.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Default location of the sync state, next to the template in the data directory
+ */
+export const SYNC_STATE_FILE = path.join(__dirname, '..', '..', 'data', 'sync', 'targets.json');
+
+/**
+ * What was last written to a target file
+ */
+export interface SyncStateEntry {
+  memory: string; // The memory block, without its markers
+  hash: string; // Hash of the whole file as it was written
+  syncedAt: string; // ISO 8601, the last time a sync wrote the file or found it up to date
+}
+
+/**
+ * The ledger as stored: each target refers to its memory block by hash
+ */
+interface StoredSyncState {
+  targets: Record<string, { memory: string; hash: string; syncedAt: string }>; // memory is the block's hash
+  memories: Record<string, string>; // Memory blocks by hash, encrypted if encryption is enabled
+}
+
+/**
+ * Hash a target file's content for the ledger
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * File-backed map of target path to what a sync last wrote to it
+ * Syncs to several platforms run at the same time, and the CLI and the MCP server can
+ * sync at the same time too. The state is re-read whenever the file has been written
+ * since it was loaded, and each save merges this process's entries into the file as it
+ * is on disk, under a lock file, so no process drops another's entries.
+ */
+export class SyncState {
+  private statePath: string;
+  // The entries as last read, and the version of the file they were read from
+  private loaded: { version: string; entries: Promise<Record<string, SyncStateEntry>> } | null = null;
+  // Entries recorded by this process that haven't been saved yet
+  private recorded = new Map<string, SyncStateEntry>();
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  constructor(statePath: string) {
+    this.statePath = statePath;
+  }
+
+  /**
+   * Get what was last written to a target
+   * @returns The entry, or null if the target has never been synced
+   */
+  async get(filePath: string): Promise<SyncStateEntry | null> {
+    const key = path.resolve(filePath);
+    const entries = await this.load();
+    return this.recorded.get(key) ?? entries[key] ?? null;
+  }
+
+  /**
+   * Record a successful sync of a target
+   * @param memory The memory block in the file
+   * @param content The whole file as it now is
+   */
+  async record(filePath: string, memory: string, content: string): Promise<void> {
+    this.recorded.set(path.resolve(filePath), {
+      memory: memory.trim(),
+      hash: hashContent(content),
+      syncedAt: new Date().toISOString()
+    });
+    await this.save();
+  }
+
+  /**
+   * Load the state from disk, again if the file has been written since it was last read
+   */
+  private async load(): Promise<Record<string, SyncStateEntry>> {
+    const version = await this.getVersion();
+    if (!this.loaded || this.loaded.version !== version) {
+      this.loaded = { version, entries: this.read() };
+    }
+    return this.loaded.entries;
+  }
+
+  /**
+   * Identify the file as it is now: it is replaced on every save, so its inode changes
+   */
+  private async getVersion(): Promise<string> {
+    const stat = await fs.stat(this.statePath).catch(() => null);
+    return stat ? `${stat.ino}:${stat.mtimeMs}:${stat.size}` : '';
+  }
+
+  /**
+   * Read the state from disk
+   */
+  private read(): Promise<Record<string, SyncStateEntry>> {
+    return fs.readFile(this.statePath, 'utf-8')
+      .then(content => this.fromStored(JSON.parse(content)))
+      .catch(err => {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          // Starting over only means the next pull has nothing to merge against
+          console.error(`Ignoring unreadable sync state in ${this.statePath}`);
+        }
+        return {};
+      });
+  }
+
+  /**
+   * Read the stored ledger, or one written before memory blocks were stored by hash
+   * Targets whose memory block can't be decrypted are left out.
+   */
+  private fromStored(stored: StoredSyncState | Record<string, SyncStateEntry>): Record<string, SyncStateEntry> {
+    if (!('targets' in stored && 'memories' in stored)) {
+      return stored as Record<string, SyncStateEntry>;
+    }
+
+    const { targets, memories } = stored as StoredSyncState;
+    const decoded = new Map<string, string | null>();
+    const entries: Record<string, SyncStateEntry> = {};
+
+    for (const [filePath, target] of Object.entries(targets)) {
+      if (!decoded.has(target.memory)) {
+        try {
+          decoded.set(target.memory, decodeStoredContent(memories[target.memory] ?? '', this.statePath));
+        } catch (err) {
+          console.error(`Ignoring sync state for targets whose memory can't be read: ${err instanceof Error ? err.message : String(err)}`);
+          decoded.set(target.memory, null);
+        }
+      }
+
+      const memory = decoded.get(target.memory);
+      if (memory !== null && memory !== undefined) {
+        entries[filePath] = { memory, hash: target.hash, syncedAt: target.syncedAt };
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Store each memory block once, by hash, encrypting it if encryption is enabled
+   */
+  private toStored(entries: Record<string, SyncStateEntry>): StoredSyncState {
+    const stored: StoredSyncState = { targets: {}, memories: {} };
+
+    for (const [filePath, { memory, hash, syncedAt }] of Object.entries(entries)) {
+      const memoryHash = hashContent(memory);
+      if (!(memoryHash in stored.memories)) {
+        stored.memories[memoryHash] = encodeStoredContent(memory).trimEnd();
+      }
+      stored.targets[filePath] = { memory: memoryHash, hash, syncedAt };
+    }
+    return stored;
+  }
+
+  /**
+   * Write the entries recorded by this process to disk, after any save already in progress
+   * The file is re-read under the lock, so entries other processes saved since are kept.
+   */
+  private save(): Promise<void> {
+    this.saveQueue = this.saveQueue
+      .catch(() => undefined)
+      .then(async () => {
+        // An earlier save may have written them already
+        if (this.recorded.size === 0) {
+          return;
+        }
+        await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+        await withFileLock(this.statePath, async () => {
+          const recorded = new Map(this.recorded);
+          const entries = { ...await this.load(), ...Object.fromEntries(recorded) };
+          await writeFileAtomic(this.statePath, `${JSON.stringify(this.toStored(entries), null, 2)}\n`);
+          this.loaded = { version: await this.getVersion(), entries: Promise.resolve(entries) };
+
+          // Entries recorded again while the file was written are saved by the next save
+          for (const [key, entry] of recorded) {
+            if (this.recorded.get(key) === entry) {
+              this.recorded.delete(key);
+            }
+          }
+        });
+      });
+    return this.saveQueue;
+  }
+}
+
+/**
+ * Shared sync state used by all syncers
+ */
+export const syncState = new SyncState(SYNC_STATE_FILE);
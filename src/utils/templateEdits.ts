@@ -0,0 +1,281 @@
+/**
+ * Template Edit Utility
+ *
+ * Surgical edits to a memory template - setting, deleting, renaming or moving a
+ * single item, and deleting, renaming or reordering sections - so a change to one
+ * preference doesn't require rewriting the rest of the template. Each edit returns
+ * a new template and throws if it can't be applied.
+ */
+import { MemoryTemplate, TemplateSection, TemplateItem, ItemValue } from '../types.js';
+import { createItem } from './itemValues.js';
+import { getTemplateLayout } from '../templateParser.js';
+
+/**
+ * Copy a template so edits don't touch the original
+ */
+function cloneTemplate(template: MemoryTemplate): MemoryTemplate {
+  return {
+    ...getTemplateLayout(template),
+    sections: template.sections.map(section => ({
+      ...section,
+      items: section.items.map(item => ({ ...item }))
+    }))
+  };
+}
+
+/**
+ * Find a section by title (case-insensitive)
+ */
+function findSection(template: MemoryTemplate, sectionName: string): TemplateSection | undefined {
+  return template.sections.find(s => s.title.toLowerCase() === sectionName.toLowerCase());
+}
+
+/**
+ * Find the index of an item by key (case-insensitive)
+ */
+function findItemIndex(section: TemplateSection, key: string): number {
+  return section.items.findIndex(i => i.key.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * Find a section, or add an empty one to the end of the template
+ */
+function findOrAddSection(template: MemoryTemplate, sectionName: string): TemplateSection {
+  let section = findSection(template, sectionName);
+  if (!section) {
+    section = { title: sectionName, description: '', items: [] };
+    template.sections.push(section);
+  }
+  return section;
+}
+
+/**
+ * Make sure a key and value can be written as a single "-~- Key: Value" line
+ */
+function validateItem(key: string, value?: string): void {
+  if (!key.trim()) {
+    throw new Error('Item key must be a non-empty string');
+  }
+  if (key.includes(':') || /[\r\n]/.test(key)) {
+    throw new Error(`Item key '${key}' can't contain a colon or line break`);
+  }
+  if (value !== undefined && /[\r\n]/.test(value)) {
+    throw new Error(`Value for '${key}' can't contain a line break`);
+  }
+}
+
+/**
+ * Set an item's value, adding the item (and its section) if they don't exist yet
+ * The new value replaces the old one entirely, including any list entries or sub-items.
+ * @param value Text is written as it is; other values are written so they read back
+ *   with their type, with a list as list entries and an object as sub-items
+ */
+export function setTemplateItem(
+  template: MemoryTemplate,
+  sectionName: string,
+  key: string,
+  value: ItemValue
+): MemoryTemplate {
+  const newItem = typeof value === 'string'
+    ? { key: key.trim(), value: value.trim() }
+    : createItem(key.trim(), value);
+  validateItem(key, newItem.value);
+  for (const entry of newItem.list ?? []) {
+    validateItem(key, entry);
+  }
+  for (const subItem of newItem.items ?? []) {
+    validateItem(subItem.key, subItem.value);
+  }
+
+  const result = cloneTemplate(template);
+  const section = findOrAddSection(result, sectionName);
+  const itemIndex = findItemIndex(section, key);
+
+  if (itemIndex >= 0) {
+    const { key: existingKey, visibility, raw } = section.items[itemIndex];
+    section.items[itemIndex] = { ...newItem, key: existingKey, ...(visibility ? { visibility } : {}), ...(raw ? { raw } : {}) };
+  } else {
+    section.items.push(newItem);
+  }
+
+  return result;
+}
+
+/**
+ * Remove an item from a section
+ */
+export function deleteTemplateItem(
+  template: MemoryTemplate,
+  sectionName: string,
+  key: string
+): MemoryTemplate {
+  const result = cloneTemplate(template);
+  const section = findSection(result, sectionName);
+  if (!section) {
+    throw new Error(`Section '${sectionName}' not found`);
+  }
+
+  const itemIndex = findItemIndex(section, key);
+  if (itemIndex < 0) {
+    throw new Error(`Item '${key}' not found in section '${section.title}'`);
+  }
+
+  section.items.splice(itemIndex, 1);
+  return result;
+}
+
+/**
+ * Change an item's key, keeping its value and position
+ */
+export function renameTemplateItem(
+  template: MemoryTemplate,
+  sectionName: string,
+  key: string,
+  newKey: string
+): MemoryTemplate {
+  validateItem(newKey);
+
+  const result = cloneTemplate(template);
+  const section = findSection(result, sectionName);
+  if (!section) {
+    throw new Error(`Section '${sectionName}' not found`);
+  }
+
+  const itemIndex = findItemIndex(section, key);
+  if (itemIndex < 0) {
+    throw new Error(`Item '${key}' not found in section '${section.title}'`);
+  }
+
+  // Renaming to a different case of the same key is fine, clashing with a sibling isn't
+  const existingIndex = findItemIndex(section, newKey);
+  if (existingIndex >= 0 && existingIndex !== itemIndex) {
+    throw new Error(`Item '${section.items[existingIndex].key}' already exists in section '${section.title}'`);
+  }
+
+  section.items[itemIndex].key = newKey.trim();
+  return result;
+}
+
+/**
+ * Move an item to another position, in the same section or another one
+ * @param targetSectionName The section to move the item to (added if it doesn't exist)
+ * @param position Zero-based index in the target section (defaults to the end)
+ */
+export function moveTemplateItem(
+  template: MemoryTemplate,
+  sectionName: string,
+  key: string,
+  targetSectionName: string,
+  position?: number
+): MemoryTemplate {
+  const result = cloneTemplate(template);
+  const section = findSection(result, sectionName);
+  if (!section) {
+    throw new Error(`Section '${sectionName}' not found`);
+  }
+
+  const itemIndex = findItemIndex(section, key);
+  if (itemIndex < 0) {
+    throw new Error(`Item '${key}' not found in section '${section.title}'`);
+  }
+
+  const targetSection = findOrAddSection(result, targetSectionName);
+  if (targetSection !== section && findItemIndex(targetSection, key) >= 0) {
+    throw new Error(`Item '${key}' already exists in section '${targetSection.title}'`);
+  }
+
+  if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+    throw new Error('Position must be a non-negative integer');
+  }
+
+  const [item]: TemplateItem[] = section.items.splice(itemIndex, 1);
+  const insertAt = position === undefined
+    ? targetSection.items.length
+    : Math.min(position, targetSection.items.length);
+  targetSection.items.splice(insertAt, 0, item);
+
+  return result;
+}
+
+/**
+ * Remove a section and all of its items
+ */
+export function deleteTemplateSection(template: MemoryTemplate, sectionName: string): MemoryTemplate {
+  const result = cloneTemplate(template);
+  const sectionIndex = result.sections.findIndex(s => s.title.toLowerCase() === sectionName.toLowerCase());
+  if (sectionIndex < 0) {
+    throw new Error(`Section '${sectionName}' not found`);
+  }
+
+  result.sections.splice(sectionIndex, 1);
+  return result;
+}
+
+/**
+ * Change a section's title, keeping its description, items and position
+ */
+export function renameTemplateSection(
+  template: MemoryTemplate,
+  sectionName: string,
+  newName: string
+): MemoryTemplate {
+  if (!newName.trim() || /[\r\n]/.test(newName)) {
+    throw new Error('Section name must be a non-empty single line');
+  }
+
+  const result = cloneTemplate(template);
+  const section = findSection(result, sectionName);
+  if (!section) {
+    throw new Error(`Section '${sectionName}' not found`);
+  }
+
+  const existing = findSection(result, newName);
+  if (existing && existing !== section) {
+    throw new Error(`Section '${existing.title}' already exists`);
+  }
+
+  section.title = newName.trim();
+  return result;
+}
+
+/**
+ * Reorder sections
+ * @param sectionNames The sections to put first, in order. Sections that aren't
+ *   listed keep their relative order after the listed ones.
+ */
+export function reorderTemplateSections(template: MemoryTemplate, sectionNames: string[]): MemoryTemplate {
+  const result = cloneTemplate(template);
+  const ordered: TemplateSection[] = [];
+
+  for (const sectionName of sectionNames) {
+    const section = findSection(result, sectionName);
+    if (!section) {
+      throw new Error(`Section '${sectionName}' not found`);
+    }
+    if (ordered.includes(section)) {
+      throw new Error(`Section '${section.title}' is listed more than once`);
+    }
+    ordered.push(section);
+  }
+
+  result.sections = [...ordered, ...result.sections.filter(s => !ordered.includes(s))];
+  return result;
+}
+
+/**
+ * Carry the visibility of a section and its items over to new content for it
+ * Whatever the new content marks itself keeps its own visibility, so a rewrite can still make something public.
+ * @param section The section parsed from the new content
+ * @param previous The section it replaces
+ */
+export function inheritVisibility(section: TemplateSection, previous: TemplateSection): TemplateSection {
+  const visibility = section.visibility ?? previous.visibility;
+  return {
+    ...section,
+    ...(visibility ? { visibility } : {}),
+    items: section.items.map(item => {
+      const itemVisibility = item.visibility ?? previous.items[findItemIndex(previous, item.key)]?.visibility;
+      return itemVisibility ? { ...item, visibility: itemVisibility } : { ...item };
+    })
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Template Format Utility
+ *
+ * Converts the memory template to and from other formats, for import and export:
+ * - "json": the MemoryTemplate object (see schemas/memory-template.schema.json);
+ *   the older data/template.json layout, with preferences keyed by section title,
+ *   can be imported too
+ * - "yaml": the same object as YAML
+ * - "markdown": a conventional markdown list, with "## Section" headings,
+ *   "- Key: Value" bullets and nested bullets for list entries and sub-items
+ * Imported templates go through the template validator before they are used.
+ */
+import path from 'path';
+import { load, dump, JSON_SCHEMA } from 'js-yaml';
+import { MemoryTemplate, TemplateSection, TemplateItem, TemplateDiagnostic, ItemValue } from '../types.js';
+import { mergeTemplates, validateTemplate } from '../templateParser.js';
+import { formatItemScalar, createItem } from './itemValues.js';
+import {
+  TemplateValidationError,
+  TemplateValidationResult,
+  getTemplateDiagnostics,
+  validateTemplateContent
+} from './templateValidation.js';
+
+export type TemplateFormat = 'json' | 'yaml' | 'markdown';
+
+export const TEMPLATE_FORMATS: TemplateFormat[] = ['json', 'yaml', 'markdown'];
+
+// How an imported template is applied: on top of the current one, or instead of it
+export type ImportStrategy = 'merge' | 'replace';
+
+// The start or end of a fenced code block: "```" or "~~~"
+const CODE_FENCE_PATTERN = /^(```|~~~)/;
+
+// A bullet, with its indentation: "- Key: Value", "  * Entry"
+const BULLET_PATTERN = /^(\s*)[-*+]\s+(.*)$/;
+
+// A targeting rule or visibility comment under a heading: "<!-- platforms: a, b -->", "<!-- private -->"
+const SECTION_COMMENT_PATTERN = /^<!--\s*((exclude-)?platforms:.*|private|public)\s*-->$/;
+
+// A bullet that reads as a key and value, optionally with the key in bold: "Key: Value", "**Key**: Value"
+// The colon must be followed by a space (or end the bullet), so URLs and times aren't split
+const KEY_VALUE_PATTERN = /^(?:\*\*([^*:]+)\*\*|([^:]+)):(?:\s+(.*))?$/;
+
+/**
+ * Work out a file's format from its extension
+ * @returns The format, or null if the extension isn't one of them
+ */
+export function getTemplateFormat(filePath: string): TemplateFormat | null {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.json':
+      return 'json';
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.md':
+    case '.markdown':
+      return 'markdown';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check that a format name read from a tool or the command line is one of the formats
+ */
+export function isTemplateFormat(format: unknown): format is TemplateFormat {
+  return TEMPLATE_FORMATS.includes(format as TemplateFormat);
+}
+
+/**
+ * Write a template in another format
+ */
+export function exportTemplate(template: MemoryTemplate, format: TemplateFormat): string {
+  // The revision belongs to the saved file, not the content
+  const { revision, ...content } = template;
+
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(content, null, 2)}\n`;
+    case 'yaml':
+      return dump(content, { lineWidth: -1, noRefs: true });
+    case 'markdown':
+      return generateMarkdownList(content);
+  }
+}
+
+/**
+ * Read a template written in another format, and check it with the template validator
+ * @returns The template and its diagnostics (line numbers are only known for markdown)
+ * @throws Error if the content can't be read in the format
+ */
+export function parseTemplateFormat(content: string, format: TemplateFormat): TemplateValidationResult {
+  if (format === 'markdown') {
+    const { markdown, warnings } = toMemoryMarkdown(content);
+    const result = validateTemplateContent(markdown);
+    const diagnostics = [...result.diagnostics, ...warnings].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+    return { ...result, diagnostics };
+  }
+
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(content) : load(content, { schema: JSON_SCHEMA });
+  } catch (error) {
+    throw new Error(`Could not read the ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const template = toMemoryTemplate(data);
+  const diagnostics = getTemplateDiagnostics(template);
+  return { template, diagnostics, valid: !diagnostics.some(d => d.severity === 'error') };
+}
+
+/**
+ * Read a template written in another format and apply it to the current one
+ * @param strategy "merge" keeps the current sections and items, with imported values winning;
+ *   "replace" uses the imported template alone
+ * @throws TemplateValidationError if the imported template has errors
+ */
+export function importTemplate(
+  current: MemoryTemplate,
+  content: string,
+  format: TemplateFormat,
+  strategy: ImportStrategy
+): TemplateValidationResult {
+  const result = parseTemplateFormat(content, format);
+  if (!result.valid) {
+    throw new TemplateValidationError(result.diagnostics);
+  }
+
+  return {
+    ...result,
+    template: strategy === 'merge' ? mergeTemplates(current, result.template) : result.template
+  };
+}
+
+/**
+ * Turn parsed JSON or YAML into a template
+ * Typed values (numbers, booleans) become text, as if they had been written in the template.
+ */
+function toMemoryTemplate(data: unknown): MemoryTemplate {
+  if (!isObject(data) || data.sections === undefined) {
+    throw new Error('The template must be an object with a "sections" list');
+  }
+
+  // The older layout: { sections: { Title: { description?, preferences: { Key: Value } } } }
+  if (isObject(data.sections) && !Array.isArray(data.sections)) {
+    return {
+      sections: Object.entries(data.sections)
+        .filter(([title, section]) => !(title === 'myAI Memory' && isEmptyLegacySection(section)))
+        .map(([title, section]) => ({
+          title,
+          description: isObject(section) && typeof section.description === 'string' ? section.description : '',
+          items: Object.entries(isObject(section) && isObject(section.preferences) ? section.preferences : {})
+            .map(([key, value]) => isObject(value) || typeof value === 'number' || typeof value === 'boolean'
+              ? createItem(key, value as ItemValue)
+              : { key, value: value === null || value === undefined ? '' : String(value) })
+        }))
+    };
+  }
+
+  const template = {
+    ...data,
+    sections: Array.isArray(data.sections) ? data.sections.map(toTemplateSection) : data.sections
+  } as MemoryTemplate;
+  delete template.revision;
+
+  if (!validateTemplate(template)) {
+    throw new TemplateValidationError(getTemplateDiagnostics(template));
+  }
+  return template;
+}
+
+/**
+ * Turn a parsed section into a template section, with its values as text
+ */
+function toTemplateSection(section: unknown): TemplateSection {
+  if (!isObject(section)) {
+    return section as TemplateSection;
+  }
+  return {
+    ...section,
+    description: section.description ?? '',
+    items: Array.isArray(section.items) ? section.items.map(toTemplateItem) : section.items
+  } as TemplateSection;
+}
+
+/**
+ * Turn a parsed item into a template item, with its values as text
+ */
+function toTemplateItem(item: unknown): TemplateItem {
+  if (!isObject(item)) {
+    return item as TemplateItem;
+  }
+  return {
+    ...item,
+    key: toText(item.key),
+    value: toText(item.value ?? ''),
+    ...(Array.isArray(item.list) ? { list: item.list.map(toText) } : {}),
+    ...(Array.isArray(item.items) ? { items: item.items.map(toTemplateItem) } : {})
+  } as TemplateItem;
+}
+
+/**
+ * Write a typed value as the text it would have in the template
+ * Anything that isn't a value is left for validation to reject.
+ */
+function toText(value: unknown): unknown {
+  return typeof value === 'number' || typeof value === 'boolean' ? formatItemScalar(value) : value;
+}
+
+/**
+ * Check that a parsed value is an object (or an array)
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Check whether a section of the older layout has no preferences, like its "myAI Memory" header section
+ */
+function isEmptyLegacySection(section: unknown): boolean {
+  return !isObject(section) || !isObject(section.preferences) || Object.keys(section.preferences).length === 0;
+}
+
+/**
+ * Write a template as a conventional markdown list
+ * Targeting rules and visibility are kept as the same comments the template uses, so they survive a round trip.
+ */
+function generateMarkdownList(template: MemoryTemplate): string {
+  let markdown = `# myAI Memory\n${toRawText(template.preamble ?? [''])}`;
+
+  template.sections.forEach((section, index) => {
+    markdown += `## ${section.title}\n`;
+    if (section.platforms?.include?.length) {
+      markdown += `<!-- platforms: ${section.platforms.include.join(', ')} -->\n`;
+    }
+    if (section.platforms?.exclude?.length) {
+      markdown += `<!-- exclude-platforms: ${section.platforms.exclude.join(', ')} -->\n`;
+    }
+    if (section.visibility) {
+      markdown += `<!-- ${section.visibility} -->\n`;
+    }
+    if (section.description) {
+      markdown += `${section.description}\n`;
+    }
+
+    markdown += toRawText(section.raw);
+    for (const item of section.items) {
+      markdown += generateBullet(item, '');
+    }
+    markdown += '\n'.repeat(section.blankLinesAfter ?? (index < template.sections.length - 1 ? 1 : 0));
+  });
+
+  return markdown;
+}
+
+/**
+ * Write an item as a bullet, with its list entries and sub-items as nested bullets
+ */
+function generateBullet(item: TemplateItem, indent: string): string {
+  const visibility = item.visibility ? ` <!-- ${item.visibility} -->` : '';
+  let markdown = `${indent}- ${item.key}:${item.value ? ` ${item.value}` : ''}${visibility}\n`;
+
+  for (const entry of item.list ?? []) {
+    markdown += `${indent}  - ${entry}\n`;
+  }
+  for (const subItem of item.items ?? []) {
+    markdown += generateBullet(subItem, `${indent}  `);
+  }
+
+  return markdown + toRawText(item.raw);
+}
+
+/**
+ * Write raw lines, with "-~-" lines that aren't items as plain bullets
+ */
+function toRawText(raw: string[] = []): string {
+  return raw.map(line => `${line.replace(/^(\s*)-~-\s/, '$1- ')}\n`).join('');
+}
+
+/**
+ * Rewrite a conventional markdown list as template markdown, line for line
+ * "#" or "##" headings start sections, the first line of text under a heading is its
+ * description, and bullets are items. Nested bullets are sub-items when every one of them
+ * under an item reads "Key: Value", and list entries otherwise.
+ * @returns The template markdown, and warnings for bullets kept as text
+ */
+function toMemoryMarkdown(markdown: string): { markdown: string; warnings: TemplateDiagnostic[] } {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  const warnings: TemplateDiagnostic[] = [];
+  let inCodeBlock = false;
+  let nestedAsSubItems = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (inCodeBlock || CODE_FENCE_PATTERN.test(trimmed)) {
+      if (CODE_FENCE_PATTERN.test(trimmed)) {
+        inCodeBlock = !inCodeBlock;
+      }
+      output.push(line);
+      continue;
+    }
+
+    const heading = /^#{1,2}\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      output.push(`# ${heading[1].trim()}`);
+      if (heading[1].trim() !== 'myAI Memory') {
+        i = readSectionHeader(lines, i + 1, output) - 1;
+      }
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet && bullet[1] === '' && !KEY_VALUE_PATTERN.test(bullet[2]) && bullet[2].includes(':')) {
+      // The template would split it at the colon, as in "Docs live at https://example.com"
+      output.push(line);
+      nestedAsSubItems = false;
+      warnings.push({
+        severity: 'warning',
+        code: 'malformed-item',
+        message: `"${trimmed}" has no "Key: Value" (a colon followed by a space), so it is kept as text rather than an item`,
+        line: i + 1
+      });
+    } else if (bullet && bullet[1] === '') {
+      output.push(`-~- ${toKeyValue(bullet[2])}`);
+      nestedAsSubItems = hasOnlyKeyValueBullets(lines, i + 1);
+    } else if (bullet) {
+      output.push(nestedAsSubItems ? `  -~- ${toKeyValue(bullet[2])}` : `  - ${bullet[2]}`);
+    } else {
+      output.push(line);
+    }
+  }
+
+  return { markdown: output.join('\n'), warnings };
+}
+
+/**
+ * Rewrite the lines under a heading, up to its first bullet, in the order the template
+ * reads them: the description (the first line of text), then the targeting rule and
+ * visibility comments, then the blank lines and other comments
+ * @returns The index of the first line after the section header
+ */
+function readSectionHeader(lines: string[], start: number, output: string[]): number {
+  let description: string | undefined;
+  const comments: string[] = [];
+  const rest: string[] = [];
+
+  let i = start;
+  for (; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (SECTION_COMMENT_PATTERN.test(trimmed)) {
+      comments.push(trimmed);
+    } else if (trimmed === '' || trimmed.startsWith('<!--')) {
+      rest.push(lines[i]);
+    } else if (description === undefined && !BULLET_PATTERN.test(lines[i]) && !/^#/.test(trimmed) && !CODE_FENCE_PATTERN.test(trimmed)) {
+      description = trimmed;
+    } else {
+      break;
+    }
+  }
+
+  output.push(...(description !== undefined ? [`## ${description}`] : []), ...comments, ...rest);
+  return i;
+}
+
+/**
+ * Read a bullet's text as "Key: Value", without bold around the key
+ */
+function toKeyValue(text: string): string {
+  const match = KEY_VALUE_PATTERN.exec(text);
+  if (!match) {
+    return text;
+  }
+  // "Key:" for a bullet whose value is only on the lines below, as the template writes it
+  const value = (match[3] ?? '').trim();
+  return `${(match[1] ?? match[2]).trim()}:${value ? ` ${value}` : ''}`;
+}
+
+/**
+ * Check whether the nested bullets starting at a line all read "Key: Value"
+ */
+function hasOnlyKeyValueBullets(lines: string[], start: number): boolean {
+  let count = 0;
+  for (let i = start; i < lines.length; i++) {
+    const bullet = BULLET_PATTERN.exec(lines[i]);
+    if (!bullet || bullet[1] === '') {
+      break;
+    }
+    const match = KEY_VALUE_PATTERN.exec(bullet[2]);
+    if (!match || !(match[1] ?? match[2]).trim()) {
+      return false;
+    }
+    count++;
+  }
+  return count > 0;
+}
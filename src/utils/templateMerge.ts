@@ -0,0 +1,171 @@
+/**
+ * Template Merge Utility
+ *
+ * Three-way merge of a synced file's memory block back into the master template.
+ * The block that was last written to the file is the common ancestor: whatever
+ * changed in the file since then is carried over to the master template, unless
+ * the master template changed the same value too, which is reported as a conflict.
+ */
+import { MemoryTemplate, TemplateSection, TemplateItem, MergeConflict } from '../types.js';
+import { getItemText, assignItemValue, isPrivate, getTemplateLayout } from '../templateParser.js';
+
+/**
+ * Which side wins a conflict
+ */
+export type MergePreference = 'master' | 'target';
+
+export interface TemplateMergeResult {
+  template: MemoryTemplate;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Find a section by title (case-insensitive)
+ */
+function findSection(template: MemoryTemplate, title: string): TemplateSection | undefined {
+  return template.sections.find(s => s.title.toLowerCase() === title.toLowerCase());
+}
+
+/**
+ * Find an item by key (case-insensitive)
+ */
+function findItem(section: TemplateSection | undefined, key: string): TemplateItem | undefined {
+  return section?.items.find(i => i.key.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * Find an item's value by key (case-insensitive), with its list and sub-items as synced
+ */
+function findValue(section: TemplateSection | undefined, key: string): string | undefined {
+  const item = findItem(section, key);
+  return item && getItemText({ ...item, items: item.items?.filter(subItem => !isPrivate(subItem)) });
+}
+
+/**
+ * Decide what to do with one value
+ * @returns 'keep' to leave the master value, 'take' to use the target's, or 'conflict'
+ */
+function mergeValue(
+  base: string | undefined,
+  target: string | undefined,
+  master: string | undefined
+): 'keep' | 'take' | 'conflict' {
+  if (target === base || target === master) {
+    return 'keep';
+  }
+  return master === base ? 'take' : 'conflict';
+}
+
+/**
+ * Merge the edits made in a synced file into the master template
+ * Sections are matched by title and items by key (both case-insensitive). Items
+ * added in the file are appended to their section, and sections removed from the
+ * file are removed from the master template once they have no items left.
+ * Sections the file never received (e.g. targeted at other platforms) are untouched.
+ * @param base The memory block last written to the file
+ * @param target The memory block as it is in the file now
+ * @param master The current master template
+ * @param prefer Which side wins a conflict (the master template by default)
+ */
+export function mergeTargetEdits(
+  base: MemoryTemplate,
+  target: MemoryTemplate,
+  master: MemoryTemplate,
+  prefer: MergePreference = 'master'
+): TemplateMergeResult {
+  const result: MemoryTemplate = {
+    ...getTemplateLayout(master),
+    sections: master.sections.map(section => ({
+      ...section,
+      items: section.items.map(item => ({ ...item }))
+    }))
+  };
+  const conflicts: MergeConflict[] = [];
+
+  // Every section title in the file, then those that were removed from it
+  const titles = [...target.sections, ...base.sections]
+    .map(section => section.title)
+    .filter((title, index, all) => all.findIndex(t => t.toLowerCase() === title.toLowerCase()) === index);
+
+  for (const title of titles) {
+    const baseSection = findSection(base, title);
+    const targetSection = findSection(target, title);
+
+    const getResultSection = (): TemplateSection => {
+      let section = findSection(result, title);
+      if (!section) {
+        section = { title: targetSection?.title ?? title, description: targetSection?.description ?? '', items: [] };
+        result.sections.push(section);
+      }
+      return section;
+    };
+
+    // Description
+    if (targetSection) {
+      const masterDescription = findSection(result, title)?.description;
+      const outcome = mergeValue(baseSection?.description, targetSection.description, masterDescription);
+      if (outcome === 'conflict') {
+        conflicts.push({
+          section: title,
+          base: baseSection?.description,
+          target: targetSection.description,
+          master: masterDescription
+        });
+      }
+      if (outcome === 'take' || (outcome === 'conflict' && prefer === 'target')) {
+        getResultSection().description = targetSection.description;
+      }
+    }
+
+    // Items
+    const keys = [...(targetSection?.items ?? []), ...(baseSection?.items ?? [])]
+      .map(item => item.key)
+      .filter((key, index, all) => all.findIndex(k => k.toLowerCase() === key.toLowerCase()) === index);
+
+    for (const key of keys) {
+      const baseValue = findValue(baseSection, key);
+      const targetValue = findValue(targetSection, key);
+      const masterValue = findValue(findSection(result, title), key);
+
+      const outcome = mergeValue(baseValue, targetValue, masterValue);
+      if (outcome === 'conflict') {
+        conflicts.push({ section: title, key, base: baseValue, target: targetValue, master: masterValue });
+      }
+      if (outcome === 'keep' || (outcome === 'conflict' && prefer === 'master')) {
+        continue;
+      }
+
+      if (targetValue === undefined) {
+        const section = findSection(result, title);
+        if (section) {
+          section.items = section.items.filter(i => i.key.toLowerCase() !== key.toLowerCase());
+        }
+      } else {
+        const section = getResultSection();
+        const targetItem = findItem(targetSection, key)!;
+        const item = findItem(section, key);
+        if (item) {
+          // Private sub-items were never written to the file, so they stay
+          const privateItems = item.items?.filter(subItem => isPrivate(subItem)) ?? [];
+          assignItemValue(item, targetItem);
+          if (privateItems.length > 0) {
+            item.items = [...(item.items ?? []), ...privateItems];
+          }
+        } else {
+          const newItem: TemplateItem = { key, value: '' };
+          assignItemValue(newItem, targetItem);
+          section.items.push(newItem);
+        }
+      }
+    }
+
+    // A section removed from the file goes too, unless the master template still has items in it
+    if (baseSection && !targetSection) {
+      result.sections = result.sections.filter(
+        s => s.title.toLowerCase() !== title.toLowerCase() || s.items.length > 0
+      );
+    }
+  }
+
+  return { template: result, conflicts };
+}
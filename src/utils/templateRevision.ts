@@ -0,0 +1,119 @@
+/**
+ * Template Revision Utility
+ *
+ * The MCP server, the CLIs and the safe sync manager can all write the template.
+ * Each saved template gets a revision token (a hash of its file content) that
+ * readers can pass back with a write; if the file has changed since, the write is
+ * rejected instead of silently overwriting the other writer's change. Writers hold
+ * a lock file while they check the revision and save, so two processes can't both
+ * pass the check before either has written.
+ */
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Thrown when a write is based on an out-of-date revision of the template
+ */
+export class TemplateConflictError extends Error {
+  constructor(
+    public readonly expectedRevision: string,
+    public readonly currentRevision: string
+  ) {
+    super(
+      `Conflict: the template has changed since revision ${expectedRevision} ` +
+      `(current revision is ${currentRevision}). Re-read it and try again.`
+    );
+    this.name = 'TemplateConflictError';
+  }
+}
+
+/**
+ * Compute the revision token for saved template content
+ */
+export function getTemplateRevision(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * Write a file atomically - the content goes to a temporary file in the same
+ * directory which is then renamed over the target, so readers never see a
+ * partially written file
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  // Unique per write, as writes from the same process can start in the same millisecond
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomUUID()}.tmp`);
+
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw err;
+  }
+}
+
+/**
+ * Read a saved template file and its revision
+ * @param decode Turns the stored content into the template markdown (e.g. decrypts it)
+ * @returns The markdown and its revision, or null if there is no file yet
+ */
+export async function readSavedTemplate(
+  filePath: string,
+  decode: (content: string, filePath: string) => string
+): Promise<{ content: string; revision: string } | null> {
+  let stored: string;
+  try {
+    stored = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw err;
+  }
+
+  const content = decode(stored, filePath);
+  return { content, revision: getTemplateRevision(content) };
+}
+
+// How long to wait for another process's lock, and when a lock is old enough to be left over from a crash
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Run a task while holding a lock file next to a file, so other processes writing the
+ * file wait for it to finish
+ * @throws Error if the lock is still held by another writer after 10 seconds
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw err;
+      }
+
+      const lock = await fs.stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for another writer to release ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.rm(lockPath, { force: true }).catch(() => undefined);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Template Validation Utility
+ *
+ * Checks a template before it replaces the saved one, and explains what's wrong
+ * with it line by line. Errors - duplicate section titles or keys, a template
+ * without sections - would muddle the memory and stop the template from being
+ * saved. Warnings - empty values, oversized sections, "-~-" lines without a "Key:"
+ * (kept as text rather than items) - are reported alongside a successful save.
+ */
+import { MemoryTemplate, TemplateSection, TemplateItem, TemplateDiagnostic } from '../types.js';
+import { parseTemplateWithWarnings, validateTemplate, generateSection } from '../templateParser.js';
+
+/**
+ * Sections longer than this (in characters, as synced) are reported as oversized:
+ * every synced file carries the whole memory, and a long section crowds out the rest
+ */
+export const MAX_SECTION_SIZE = 4000;
+
+/**
+ * Thrown when a template can't be saved because validation found errors
+ */
+export class TemplateValidationError extends Error {
+  readonly code = 'EINVALID';
+
+  constructor(public readonly diagnostics: TemplateDiagnostic[]) {
+    super(`The template is not valid:\n${formatDiagnostics(diagnostics.filter(d => d.severity === 'error'))}`);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+/**
+ * The result of validating template markdown
+ */
+export interface TemplateValidationResult {
+  template: MemoryTemplate;
+  diagnostics: TemplateDiagnostic[]; // In line order
+  valid: boolean; // No diagnostic is an error
+}
+
+/**
+ * Check a template for duplicate sections and keys, empty values and oversized sections
+ * @param lineNumbers Lines of the sections and items, from parseTemplateWithWarnings
+ */
+export function getTemplateDiagnostics(
+  template: MemoryTemplate,
+  lineNumbers: Map<TemplateSection | TemplateItem, number> = new Map()
+): TemplateDiagnostic[] {
+  if (!validateTemplate(template)) {
+    return [{ severity: 'error', code: 'invalid-structure', message: 'The template does not have the structure of a memory template' }];
+  }
+
+  const diagnostics: TemplateDiagnostic[] = [];
+  const add = (
+    severity: TemplateDiagnostic['severity'],
+    code: string,
+    message: string,
+    at: TemplateSection | TemplateItem,
+    section: TemplateSection
+  ) => {
+    const line = lineNumbers.get(at);
+    diagnostics.push({ severity, code, message, ...(line ? { line } : {}), section: section.title });
+  };
+
+  if (template.sections.length === 0) {
+    diagnostics.push({ severity: 'error', code: 'no-sections', message: 'The template has no sections ("# Section Title")' });
+  }
+
+  const titles = new Set<string>();
+  for (const section of template.sections) {
+    const title = section.title.toLowerCase();
+    if (titles.has(title)) {
+      add('error', 'duplicate-section', `Section "${section.title}" appears more than once`, section, section);
+    }
+    titles.add(title);
+
+    const checkKeys = (items: TemplateItem[], parent?: TemplateItem) => {
+      const keys = new Set<string>();
+      for (const item of items) {
+        const key = item.key.toLowerCase();
+        if (keys.has(key)) {
+          const where = parent ? `under "${parent.key}" in section "${section.title}"` : `in section "${section.title}"`;
+          add('error', 'duplicate-key', `Key "${item.key}" appears more than once ${where}`, item, section);
+        }
+        keys.add(key);
+
+        if (!item.value && !item.list?.length && !item.items?.length) {
+          add('warning', 'empty-value', `"${item.key}" has no value`, item, section);
+        }
+
+        if (item.items) {
+          checkKeys(item.items, item);
+        }
+      }
+    };
+    checkKeys(section.items);
+
+    const size = generateSection(section).length;
+    if (size > MAX_SECTION_SIZE) {
+      add(
+        'warning',
+        'oversized-section',
+        `Section "${section.title}" is ${size} characters long (over ${MAX_SECTION_SIZE}); consider splitting it`,
+        section,
+        section
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse and check template markdown
+ */
+export function validateTemplateContent(markdown: string): TemplateValidationResult {
+  const { template, warnings, lineNumbers } = parseTemplateWithWarnings(markdown);
+
+  const diagnostics = [...warnings, ...getTemplateDiagnostics(template, lineNumbers)]
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+  return { template, diagnostics, valid: !diagnostics.some(d => d.severity === 'error') };
+}
+
+/**
+ * Parse template markdown that is about to be saved
+ * @throws TemplateValidationError if validation found errors
+ */
+export function assertValidTemplate(markdown: string): TemplateValidationResult {
+  const result = validateTemplateContent(markdown);
+  if (!result.valid) {
+    throw new TemplateValidationError(result.diagnostics);
+  }
+  return result;
+}
+
+/**
+ * Format diagnostics for display, one per line
+ */
+export function formatDiagnostics(diagnostics: TemplateDiagnostic[]): string {
+  return diagnostics
+    .map(d => `${d.line ? `line ${d.line}: ` : ''}${d.severity}: ${d.message} [${d.code}]`)
+    .join('\n');
+}
+
+/**
+ * Summarize a validation result for display, followed by its diagnostics
+ */
+export function formatValidationResult(result: TemplateValidationResult): string {
+  const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = result.diagnostics.length - errors;
+  if (result.diagnostics.length === 0) {
+    return 'The template is valid.';
+  }
+
+  const counts = `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+  return `${result.valid ? 'The template is valid' : 'The template is not valid'} (${counts}):\n` +
+    formatDiagnostics(result.diagnostics);
+}